@@ -26,6 +26,72 @@ const envSchema = z.object({
   // Redis (optional - needed for jobs, realtime, advanced rate limiting)
   REDIS_URL: z.string().optional(),
 
+  // Authentication provider: hosted Clerk or self-issued JWTs
+  AUTH_PROVIDER: z.enum(['clerk', 'jwt']).default('clerk'),
+
+  // Self-hosted JWT provider (HS256 secret and/or RS256 public key or JWKS file)
+  AUTH_JWT_SECRET: z.string().optional(),
+  AUTH_JWT_PUBLIC_KEY_FILE: z.string().optional(),
+  AUTH_JWKS_FILE: z.string().optional(),
+  AUTH_JWT_ISSUER: z.string().optional(),
+  AUTH_JWT_AUDIENCE: z.string().optional(),
+
+  // Identity cache: verified users are cached per token subject for this
+  // many seconds (0 disables it). In memory unless Redis is configured.
+  IDENTITY_CACHE_TTL: z.coerce.number().int().min(0).default(300),
+  IDENTITY_CACHE_MAX: z.coerce.number().int().min(1).default(10000),
+
+  // Seconds the role permissions loaded from the database are reused. Role
+  // changes are also pushed to every instance over Redis pub/sub.
+  ROLE_CACHE_TTL: z.coerce.number().int().min(1).default(300),
+
+  // Minimum seconds between two lastLoginAt updates of a user
+  LAST_LOGIN_UPDATE_INTERVAL: z.coerce.number().int().min(0).default(3600),
+
+  // Login sessions: minimum seconds between two lastSeenAt updates of a
+  // session, and days of login history kept
+  SESSION_ACTIVITY_INTERVAL: z.coerce.number().int().min(0).default(300),
+  LOGIN_HISTORY_RETENTION_DAYS: z.coerce.number().int().min(1).default(90),
+  // Email users when they sign in from a device they haven't used before
+  NEW_DEVICE_ALERTS: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((val) => val === 'true'),
+
+  // Default maximum age (seconds) of the sign-in behind requests to
+  // sensitive routes (requireRecentAuth)
+  STEP_UP_MAX_AGE: z.coerce.number().int().min(30).default(600),
+
+  // How long a user revocation is kept (seconds); must outlive the
+  // provider's token lifetime
+  AUTH_REVOCATION_TTL: z.coerce.number().int().min(60).default(86400),
+
+  // Admin impersonation (disabled unless a signing secret is set)
+  IMPERSONATION_TOKEN_SECRET: z.string().min(32).optional(),
+  IMPERSONATION_TOKEN_TTL: z.coerce
+    .number()
+    .int()
+    .min(60)
+    .max(3600)
+    .default(900),
+
+  // Days between an account erasure request and the permanent deletion of
+  // the user's data
+  ERASURE_GRACE_DAYS: z.coerce.number().int().min(0).default(30),
+
+  // Hours a personal data export can be downloaded before it is deleted
+  DATA_EXPORT_TTL_HOURS: z.coerce.number().int().min(1).max(720).default(48),
+
+  // Service-to-service authentication: JSON file of services, their
+  // permissions and HMAC signing keys (disabled when unset)
+  SERVICE_KEYS_FILE: z.string().optional(),
+  // Seconds a signed request's timestamp may differ from the server clock
+  SERVICE_AUTH_MAX_SKEW: z.coerce.number().int().min(30).max(3600).default(300),
+
+  // Development identities fixtures (JSON), used when no auth provider is
+  // configured in development or test
+  DEV_IDENTITIES_FILE: z.string().optional(),
+
   // Clerk (optional - can use mock auth in development)
   CLERK_SECRET_KEY: z.string().optional(),
   CLERK_PUBLISHABLE_KEY: z.string().optional(),
@@ -41,6 +107,9 @@ const envSchema = z.object({
   STRIPE_SECRET_KEY: z.string().optional(),
   STRIPE_PUBLISHABLE_KEY: z.string().optional(),
   STRIPE_WEBHOOK_SECRET: z.string().optional(),
+  // Comma-separated Stripe price ids of each paid plan (see payments/plans.ts)
+  STRIPE_PRO_PRICE_IDS: z.string().optional(),
+  STRIPE_ENTERPRISE_PRICE_IDS: z.string().optional(),
 
   // SendGrid (optional)
   SENDGRID_API_KEY: z.string().optional(),
@@ -52,6 +121,13 @@ const envSchema = z.object({
   // Sentry (optional)
   SENTRY_DSN: z.string().optional(),
 
+  // Public base URL of this API, used in links sent by email
+  // (defaults to http://localhost:PORT)
+  PUBLIC_API_URL: z.preprocess(
+    (val) => (val === '' ? undefined : val),
+    z.string().url().optional()
+  ),
+
   // CORS
   FRONTEND_URL: z.string().default('http://localhost:3001'),
 
@@ -123,17 +199,37 @@ if (
   process.exit(1);
 }
 
+// Validate JWT provider configuration
+const jwtProviderConfigured = !!(
+  env.AUTH_JWT_SECRET ||
+  env.AUTH_JWT_PUBLIC_KEY_FILE ||
+  env.AUTH_JWKS_FILE
+);
+
+if (env.AUTH_PROVIDER === 'jwt' && !jwtProviderConfigured) {
+  console.error(
+    '❌ AUTH_PROVIDER=jwt needs AUTH_JWT_SECRET, AUTH_JWT_PUBLIC_KEY_FILE or AUTH_JWKS_FILE'
+  );
+  process.exit(1);
+}
+
+const authConfigured =
+  env.AUTH_PROVIDER === 'jwt' ? jwtProviderConfigured : !!env.CLERK_SECRET_KEY;
+
 // Warn about Clerk in production
-if (env.NODE_ENV === 'production' && !env.CLERK_SECRET_KEY) {
+if (env.NODE_ENV === 'production' && !authConfigured) {
   console.error('❌ CLERK_SECRET_KEY is required in production');
   console.error('💡 Get your Clerk keys from https://dashboard.clerk.com');
+  console.error('💡 Or set AUTH_PROVIDER=jwt to verify self-issued tokens');
   process.exit(1);
 }
 
 // Warn about development without Clerk
-if (env.NODE_ENV === 'development' && !env.CLERK_SECRET_KEY) {
+if (env.NODE_ENV === 'development' && !authConfigured) {
   console.warn('⚠️  Running without Clerk authentication (development mode)');
-  console.warn('💡 Authentication middleware will be bypassed for development');
+  console.warn(
+    '💡 Requests authenticate as development identities (X-Dev-User header)'
+  );
 }
 
 export { env };
@@ -141,12 +237,14 @@ export type Env = z.infer<typeof envSchema>;
 
 // Feature flags based on environment variables
 export const features = {
-  auth: !!env.CLERK_SECRET_KEY,
+  auth: authConfigured,
   redis: !!env.REDIS_URL,
   s3: !!(env.AWS_ACCESS_KEY_ID && env.AWS_SECRET_ACCESS_KEY && env.S3_BUCKET),
   stripe: !!(env.STRIPE_SECRET_KEY && env.STRIPE_WEBHOOK_SECRET),
   sendgrid: !!(env.SENDGRID_API_KEY && env.SENDGRID_FROM_EMAIL),
   sentry: !!env.SENTRY_DSN,
+  impersonation: !!env.IMPERSONATION_TOKEN_SECRET,
+  serviceAuth: !!env.SERVICE_KEYS_FILE,
   jobs: !!env.REDIS_URL, // Jobs require Redis
   realtime: !!env.REDIS_URL, // Realtime requires Redis for adapter
 } as const;
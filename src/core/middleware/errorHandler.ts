@@ -89,7 +89,7 @@ export function errorHandler(
       error: {
         code: error.code,
         message: error.message,
-        ...(error instanceof ValidationError && { details: error.details }),
+        ...(error.details !== undefined && { details: error.details }),
       },
     };
   }
@@ -4,8 +4,22 @@ import RedisStore from 'rate-limit-redis';
 import { getRedisClient } from '../config/redis';
 import { features } from '../config/env';
 import { RateLimitError } from '../types/errors';
+import { describeGuard } from '../utils/routeManifest';
 import { Request, Response } from 'express';
 
+/**
+ * Record the tier of a rate limiter in the route manifest
+ */
+function describeRateLimiter<T extends (...args: any[]) => unknown>(
+  limiter: T,
+  tier: string
+): T {
+  return describeGuard(limiter, {
+    name: `rateLimit(${tier})`,
+    rateLimit: tier,
+  });
+}
+
 /**
  * Create rate limiter with Redis store if available, otherwise use memory store
  * NOTE: Redis store creation is deferred until first request to ensure Redis is connected
@@ -44,14 +58,17 @@ function createRateLimiter(options: {
     const redisClient = getRedisClient();
     if (redisClient && redisClient.status === 'ready') {
       try {
-        return rateLimit({
-          ...baseOptions,
-          store: new RedisStore({
-            // @ts-expect-error - RedisStore type mismatch with ioredis
-            sendCommand: (...args: string[]) => redisClient.call(...args),
-            prefix: `rate-limit:${options.name || 'general'}:`,
+        return describeRateLimiter(
+          rateLimit({
+            ...baseOptions,
+            store: new RedisStore({
+              // @ts-expect-error - RedisStore type mismatch with ioredis
+              sendCommand: (...args: string[]) => redisClient.call(...args),
+              prefix: `rate-limit:${options.name || 'general'}:`,
+            }),
           }),
-        });
+          options.name || 'general'
+        );
       } catch (error) {
         // If Redis store creation fails, fall back to memory store
         console.warn(
@@ -63,7 +80,7 @@ function createRateLimiter(options: {
   }
 
   // Fallback to memory store
-  return rateLimit(baseOptions);
+  return describeRateLimiter(rateLimit(baseOptions), options.name || 'general');
 }
 
 /**
@@ -200,14 +217,17 @@ export function subscriptionBasedLimiter(
     const redisClient = getRedisClient();
     if (redisClient && redisClient.status === 'ready') {
       try {
-        return rateLimit({
-          ...baseOptions,
-          store: new RedisStore({
-            // @ts-expect-error - RedisStore type mismatch with ioredis
-            sendCommand: (...args: string[]) => redisClient.call(...args),
-            prefix: 'rate-limit:subscription:',
+        return describeRateLimiter(
+          rateLimit({
+            ...baseOptions,
+            store: new RedisStore({
+              // @ts-expect-error - RedisStore type mismatch with ioredis
+              sendCommand: (...args: string[]) => redisClient.call(...args),
+              prefix: 'rate-limit:subscription:',
+            }),
           }),
-        });
+          'subscription'
+        );
       } catch (error) {
         console.warn(
           'Failed to create Redis store for subscription rate limiter, using memory store:',
@@ -218,7 +238,7 @@ export function subscriptionBasedLimiter(
   }
 
   // Fallback to memory store
-  return rateLimit(baseOptions);
+  return describeRateLimiter(rateLimit(baseOptions), 'subscription');
 }
 
 /**
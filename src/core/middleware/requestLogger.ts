@@ -130,6 +130,7 @@ export function requestLogger(
       statusCode: res.statusCode,
       duration: `${duration}ms`,
       userId: req.user?.id,
+      ...(req.impersonator && { impersonatorId: req.impersonator.id }),
     };
 
     // Determine log level based on status code
@@ -1,3 +1,4 @@
+import { IncomingMessage } from 'http';
 import express, { Express, Request, Response } from 'express';
 import helmet from 'helmet';
 import cors from 'cors';
@@ -9,10 +10,20 @@ import { apiLimiter } from './middleware/rateLimiter';
 import { requestLogger, errorLogger } from './middleware/requestLogger';
 import { responseHelpers } from './utils/apiResponse';
 import { attachPagination } from './utils/pagination';
+import { requestContext } from './utils/requestContext';
 import { HealthStatus } from './types';
 import { database } from './config/database';
 import { getRedisClient } from './config/redis';
 
+/**
+ * Keep the raw body of signed service requests, which the signature covers
+ */
+function keepSignedBody(req: IncomingMessage, _res: unknown, buf: Buffer) {
+  if (req.headers.authorization?.startsWith('Service ')) {
+    (req as Request).rawBody = buf;
+  }
+}
+
 /**
  * Create and configure Express application
  */
@@ -71,7 +82,14 @@ export function createServer(): Express {
       },
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-Id'],
+      allowedHeaders: [
+        'Content-Type',
+        'Authorization',
+        'X-Request-Id',
+        'X-Organization-Id',
+        // Development identities (ignored outside development and test)
+        ...(env.NODE_ENV === 'development' ? ['X-Dev-User', 'X-Dev-Role'] : []),
+      ],
       exposedHeaders: [
         'X-Request-Id',
         'X-RateLimit-Limit',
@@ -80,12 +98,22 @@ export function createServer(): Express {
     })
   );
 
-  // Body parsing middleware
-  app.use(express.json({ limit: '10mb' }));
-  app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+  // Raw body for webhook verification. Must run before express.json, which
+  // would otherwise consume the body and break signature checks.
+  app.use(
+    ['/api/webhooks', '/api/payments/webhook'],
+    express.raw({ type: 'application/json' })
+  );
 
-  // Raw body for webhook verification
-  app.use('/api/webhooks', express.raw({ type: 'application/json' }));
+  // Body parsing middleware
+  app.use(express.json({ limit: '10mb', verify: keepSignedBody }));
+  app.use(
+    express.urlencoded({
+      extended: true,
+      limit: '10mb',
+      verify: keepSignedBody,
+    })
+  );
 
   // Compression
   app.use(compression());
@@ -93,6 +121,9 @@ export function createServer(): Express {
   // Request logging
   app.use(requestLogger);
 
+  // Per-request context (read by audit logging)
+  app.use(requestContext);
+
   // Response helpers
   app.use(responseHelpers);
 
@@ -4,6 +4,10 @@
 export abstract class BaseError extends Error {
   abstract statusCode: number;
   abstract code: string;
+  /**
+   * Extra information for clients, sent with the error code
+   */
+  details?: unknown;
 
   constructor(message: string) {
     super(message);
@@ -67,6 +71,106 @@ export class ForbiddenError extends BaseError {
   }
 }
 
+/**
+ * Step-up required error - 401. The user is signed in but must
+ * authenticate again (or with a second factor) before this action.
+ */
+export class StepUpRequiredError extends BaseError {
+  statusCode = 401;
+  code = 'STEP_UP_REQUIRED';
+  details: { maxAge: number; mfa: boolean; authAge?: number };
+
+  constructor(
+    details: { maxAge: number; mfa: boolean; authAge?: number },
+    message: string = 'Recent authentication required'
+  ) {
+    super(message);
+    this.details = details;
+    Object.setPrototypeOf(this, StepUpRequiredError.prototype);
+  }
+
+  toJSON() {
+    return {
+      ...super.toJSON(),
+      details: this.details,
+    };
+  }
+}
+
+/**
+ * Account restriction codes
+ */
+export type AccountRestrictionCode =
+  | 'ACCOUNT_SUSPENDED'
+  | 'ACCOUNT_BANNED'
+  | 'ACCOUNT_READ_ONLY';
+
+/**
+ * Account restricted error - 403. The code tells clients which restriction
+ * applies to the account.
+ */
+export class AccountRestrictedError extends BaseError {
+  statusCode = 403;
+  code: AccountRestrictionCode;
+  details: { reason?: string; until?: string };
+
+  constructor(
+    code: AccountRestrictionCode,
+    message: string,
+    details: { reason?: string; until?: string } = {}
+  ) {
+    super(message);
+    this.code = code;
+    this.details = details;
+    Object.setPrototypeOf(this, AccountRestrictedError.prototype);
+  }
+
+  toJSON() {
+    return {
+      ...super.toJSON(),
+      details: this.details,
+    };
+  }
+}
+
+/**
+ * Plan upgrade required error - 402. Raised when the user's plan lacks a
+ * feature or a limit of the plan is reached; the details name which.
+ */
+export class UpgradeRequiredError extends BaseError {
+  statusCode = 402;
+  code = 'UPGRADE_REQUIRED';
+  details: {
+    plan: string;
+    feature?: string;
+    limit?: string;
+    max?: number;
+    used?: number;
+  };
+
+  constructor(
+    details: {
+      plan: string;
+      feature?: string;
+      limit?: string;
+      max?: number;
+      used?: number;
+    },
+    message: string = 'Your plan does not include this feature'
+  ) {
+    super(message);
+    this.details = details;
+    Object.setPrototypeOf(this, UpgradeRequiredError.prototype);
+  }
+
+  toJSON() {
+    return {
+      ...super.toJSON(),
+      details: this.details,
+    };
+  }
+}
+
 /**
  * Not found error - 404
  */
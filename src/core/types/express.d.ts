@@ -1,5 +1,22 @@
 import { Request } from 'express';
 
+/**
+ * Restriction placed on an account by an admin (see
+ * modules/auth/accountState.ts)
+ */
+export interface AccountRestriction {
+  state: 'banned' | 'suspended' | 'read_only';
+  reason?: string;
+  /**
+   * End of a temporary suspension (ISO date)
+   */
+  until?: string;
+  /**
+   * Restriction that applies once a temporary suspension ends
+   */
+  afterSuspension?: AccountRestriction;
+}
+
 /**
  * User information attached to requests after authentication
  */
@@ -9,6 +26,56 @@ export interface AuthenticatedUser {
   role: string;
   clerkId: string;
   metadata?: Record<string, any>;
+  /**
+   * Permission scopes the principal is restricted to (API keys)
+   */
+  scopes?: string[];
+  /**
+   * Set when the request was authenticated with an API key
+   */
+  apiKeyId?: string;
+  /**
+   * Permissions granted to the principal itself rather than through its
+   * role (service principals)
+   */
+  permissions?: string[];
+  /**
+   * Provider session the bearer token belongs to (`sid`, or `jti` for
+   * tokens without sessions)
+   */
+  sessionId?: string;
+  /**
+   * Ban, suspension or read-only state of the account, enforced by
+   * requireAuth and the Socket.IO handshake
+   */
+  restriction?: AccountRestriction;
+}
+
+/**
+ * Active organization resolved for the request
+ */
+export interface OrganizationContext {
+  id: string;
+  slug: string;
+  name: string;
+  /**
+   * The current user's membership role in the organization
+   */
+  role: string;
+}
+
+/**
+ * Admin acting on behalf of another user (impersonation)
+ */
+export interface ImpersonatorContext {
+  id: string;
+  email: string;
+  role: string;
+  /**
+   * ID (jti) of the impersonation token
+   */
+  tokenId: string;
+  reason?: string;
 }
 
 /**
@@ -43,6 +110,22 @@ declare global {
        */
       user?: AuthenticatedUser;
 
+      /**
+       * Active organization (from X-Organization-Id or an :orgId route param)
+       */
+      organization?: OrganizationContext;
+
+      /**
+       * Admin impersonating `user`, when the request uses an impersonation token
+       */
+      impersonator?: ImpersonatorContext;
+
+      /**
+       * Resources loaded by authorizeResource, by policy name, so each is
+       * fetched once per request
+       */
+      resources?: Record<string, unknown>;
+
       /**
        * Unique request ID for tracing
        */
@@ -64,7 +147,7 @@ declare global {
       filters?: FilterParams;
 
       /**
-       * Raw body for webhook verification
+       * Raw body for webhook and service signature verification
        */
       rawBody?: Buffer;
     }
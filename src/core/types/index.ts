@@ -2,7 +2,10 @@ export * from './errors';
 // Note: express.d.ts contains only type declarations for Express global augmentation
 // and does not export any values, so it should not be re-exported here
 export type {
+  AccountRestriction,
   AuthenticatedUser,
+  OrganizationContext,
+  ImpersonatorContext,
   PaginationParams,
   SortParams,
   FilterParams,
@@ -59,6 +62,15 @@ export enum UserRole {
   MODERATOR = 'moderator',
 }
 
+/**
+ * Organization membership role enum
+ */
+export enum OrgRole {
+  OWNER = 'owner',
+  ADMIN = 'admin',
+  MEMBER = 'member',
+}
+
 /**
  * Subscription status enum
  */
@@ -0,0 +1,46 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request, Response, NextFunction } from 'express';
+import { ImpersonatorContext } from '../types';
+
+/**
+ * Per-request values that code without access to `req` (models, services)
+ * may need, e.g. `AuditLog.log` recording who is impersonating whom
+ */
+export interface RequestContext {
+  requestId?: string;
+  impersonator?: ImpersonatorContext;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Get the context of the current request, if any
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Merge values into the context of the current request. No-op outside a
+ * request.
+ */
+export function setRequestContext(values: Partial<RequestContext>): void {
+  const store = storage.getStore();
+  if (store) {
+    Object.assign(store, values);
+  }
+}
+
+/**
+ * Run the rest of the request inside its own context. Register after the
+ * body parsers so the context isn't lost across their stream callbacks.
+ */
+export function requestContext(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void {
+  storage.run({ ...(req.requestId && { requestId: req.requestId }) }, () =>
+    next()
+  );
+}
@@ -0,0 +1,258 @@
+import { Application } from 'express';
+
+/**
+ * What a route requires of the caller: an authenticated principal, nothing
+ * but accepting one (optionalAuth), or nothing by design (webhooks, links
+ * carrying their own token)
+ */
+export type RouteAuth = 'required' | 'optional' | 'public';
+
+/**
+ * Security metadata carried by a middleware (see describeGuard)
+ */
+export interface GuardMetadata {
+  /**
+   * Name shown in the manifest (defaults to the function name)
+   */
+  name?: string;
+  auth?: RouteAuth;
+  roles?: string[];
+  permissions?: string[];
+  rateLimit?: string;
+  /**
+   * Why a public route needs no authentication
+   */
+  reason?: string;
+}
+
+/**
+ * One mounted route and the guards it goes through, in order
+ */
+export interface RouteManifestEntry {
+  method: string;
+  path: string;
+  auth: RouteAuth | 'none';
+  roles: string[];
+  permissions: string[];
+  rateLimits: string[];
+  guards: string[];
+  publicReason?: string;
+}
+
+/**
+ * Methods that change state and must be authenticated or marked public
+ */
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE', 'ALL'];
+
+const GUARD = Symbol('routeGuard');
+
+/**
+ * The parts of Express 4 router layers the manifest reads
+ */
+interface Layer {
+  name: string;
+  handle: ((...args: any[]) => unknown) & { stack?: Layer[] };
+  regexp: RegExp & { fast_slash?: boolean };
+  keys: { name: string }[];
+  route?: {
+    path: string;
+    methods: Record<string, boolean>;
+    stack: Layer[];
+  };
+}
+
+/**
+ * Guard applying to the routes under a path
+ */
+interface ScopedGuard {
+  path: string;
+  metadata: GuardMetadata & { name: string };
+}
+
+/**
+ * Attach security metadata to a middleware, so the route manifest can tell
+ * what the routes using it require. Returns the middleware.
+ */
+export function describeGuard<T extends (...args: any[]) => unknown>(
+  handler: T,
+  metadata: GuardMetadata = {}
+): T {
+  (handler as unknown as Record<symbol, GuardMetadata>)[GUARD] = {
+    name: handler.name || 'anonymous',
+    ...metadata,
+  };
+  return handler;
+}
+
+/**
+ * Security metadata of a middleware, if it was described
+ */
+export function getGuardMetadata(
+  handler: unknown
+): (GuardMetadata & { name: string }) | undefined {
+  if (typeof handler !== 'function') return undefined;
+  return (
+    handler as unknown as Record<symbol, GuardMetadata & { name: string }>
+  )[GUARD];
+}
+
+/**
+ * Mark a route as intentionally reachable without authentication, e.g. a
+ * webhook verified by its signature. Mutating routes need either this or an
+ * authentication guard.
+ */
+export function publicRoute(reason: string) {
+  return describeGuard(
+    function publicRoute(_req: unknown, _res: unknown, next: () => void) {
+      next();
+    },
+    { auth: 'public', reason }
+  );
+}
+
+/**
+ * Path a layer is mounted at, rebuilt from its regexp (Express 4 keeps no
+ * path string for `use` layers)
+ */
+function mountPath(layer: Layer): string {
+  if (layer.regexp.fast_slash) return '';
+
+  let keyIndex = 0;
+  return layer.regexp.source
+    .replace(/^\^/, '')
+    .replace(/\\\/\?\(\?=\\\/\|\$\)$/, '')
+    .replace(/\(\?:\(\[\^\\\/\]\+\?\)\)/g, () => {
+      const key = layer.keys[keyIndex++];
+      return `:${key?.name ?? 'param'}`;
+    })
+    .replace(/\\(.)/g, '$1');
+}
+
+/**
+ * Combine the guards of a route into its manifest entry
+ */
+function describeRoute(
+  method: string,
+  path: string,
+  guards: GuardMetadata[]
+): RouteManifestEntry {
+  const auths = guards.map((guard) => guard.auth);
+  const publicGuard = guards.find((guard) => guard.auth === 'public');
+
+  return {
+    method,
+    path,
+    auth: auths.includes('required')
+      ? 'required'
+      : auths.includes('public')
+        ? 'public'
+        : auths.includes('optional')
+          ? 'optional'
+          : 'none',
+    roles: guards.flatMap((guard) => guard.roles ?? []),
+    permissions: guards.flatMap((guard) => guard.permissions ?? []),
+    rateLimits: guards.flatMap((guard) =>
+      guard.rateLimit ? [guard.rateLimit] : []
+    ),
+    guards: guards.map((guard) => guard.name!),
+    ...(publicGuard?.reason && { publicReason: publicGuard.reason }),
+  };
+}
+
+/**
+ * Collect the routes of a router stack, with the guards registered before
+ * them (app and router middleware, then route middleware)
+ */
+function collectRoutes(
+  stack: Layer[],
+  prefix: string,
+  inherited: ScopedGuard[],
+  entries: RouteManifestEntry[]
+): void {
+  const scoped = [...inherited];
+
+  for (const layer of stack) {
+    if (layer.route) {
+      const path =
+        prefix && layer.route.path === '/'
+          ? prefix
+          : `${prefix}${layer.route.path}`;
+      const applicable = scoped
+        .filter(
+          (guard) => path === guard.path || path.startsWith(`${guard.path}/`)
+        )
+        .map((guard) => guard.metadata);
+      const routeGuards = layer.route.stack.flatMap((routeLayer) => {
+        const metadata = getGuardMetadata(routeLayer.handle);
+        return metadata ? [metadata] : [];
+      });
+
+      for (const method of Object.keys(layer.route.methods)) {
+        entries.push(
+          describeRoute(
+            method === '_all' ? 'ALL' : method.toUpperCase(),
+            path,
+            [...applicable, ...routeGuards]
+          )
+        );
+      }
+    } else if (layer.handle.stack) {
+      collectRoutes(
+        layer.handle.stack,
+        `${prefix}${mountPath(layer)}`,
+        scoped,
+        entries
+      );
+    } else {
+      const metadata = getGuardMetadata(layer.handle);
+      if (metadata) {
+        scoped.push({ path: `${prefix}${mountPath(layer)}`, metadata });
+      }
+    }
+  }
+}
+
+/**
+ * Every route mounted on the app with its authentication requirement,
+ * roles, permissions, rate limits and guards
+ */
+export function buildRouteManifest(app: Application): RouteManifestEntry[] {
+  const router = (app as unknown as { _router?: { stack: Layer[] } })._router;
+  const entries: RouteManifestEntry[] = [];
+
+  if (router) {
+    collectRoutes(router.stack, '', [], entries);
+  }
+
+  return entries;
+}
+
+/**
+ * Mutating routes with no authentication guard that aren't marked public
+ */
+export function findUnprotectedRoutes(
+  manifest: RouteManifestEntry[]
+): RouteManifestEntry[] {
+  return manifest.filter(
+    (route) =>
+      MUTATING_METHODS.includes(route.method) &&
+      route.auth !== 'required' &&
+      route.auth !== 'public'
+  );
+}
+
+/**
+ * Throw when a mutating route has no authentication guard and isn't marked
+ * public. Run once every route is mounted.
+ */
+export function assertRoutesProtected(app: Application): void {
+  const unprotected = findUnprotectedRoutes(buildRouteManifest(app));
+
+  if (unprotected.length > 0) {
+    throw new Error(
+      `Unprotected routes (add requireAuth or publicRoute()): ${unprotected
+        .map((route) => `${route.method} ${route.path}`)
+        .join(', ')}`
+    );
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Device described by a User-Agent header
+ */
+export interface DeviceInfo {
+  type: 'desktop' | 'mobile' | 'tablet' | 'bot' | 'unknown';
+  os: string;
+  browser: string;
+}
+
+/**
+ * Browsers, most specific first: Edge, Opera and Samsung Internet also
+ * announce Chrome, and Chrome announces Safari
+ */
+const BROWSERS: [RegExp, string][] = [
+  [/\bEdg(e|A|iOS)?\//, 'Edge'],
+  [/\b(OPR|Opera)\//, 'Opera'],
+  [/\bSamsungBrowser\//, 'Samsung Internet'],
+  [/\b(Firefox|FxiOS)\//, 'Firefox'],
+  [/\b(Chrome|CriOS)\//, 'Chrome'],
+  [/\bVersion\/[\d.]+.*Safari\//, 'Safari'],
+  [/\bcurl\//, 'curl'],
+  [/\bPostmanRuntime\//, 'Postman'],
+  [
+    /\b(okhttp|axios|node-fetch|python-requests|Go-http-client)\b/i,
+    'HTTP client',
+  ],
+];
+
+/**
+ * Operating systems, most specific first: Android and iOS user agents also
+ * mention Linux and Mac OS X
+ */
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/\bWindows\b/, 'Windows'],
+  [/\bAndroid\b/, 'Android'],
+  [/\b(iPhone|iPad|iPod)\b/, 'iOS'],
+  [/\bCrOS\b/, 'ChromeOS'],
+  [/\bMac OS X\b|\bMacintosh\b/, 'macOS'],
+  [/\bLinux\b/, 'Linux'],
+];
+
+const BOT_PATTERN = /bot\b|crawler|spider|slurp|headless/i;
+
+/**
+ * Describe the device behind a User-Agent header. Good enough to show a
+ * user where they are signed in and to tell their devices apart; not a
+ * full user agent database.
+ */
+export function parseUserAgent(userAgent: string | undefined): DeviceInfo {
+  if (!userAgent) {
+    return { type: 'unknown', os: 'Unknown', browser: 'Unknown' };
+  }
+
+  const browser =
+    BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? 'Unknown';
+  const os =
+    OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1] ??
+    'Unknown';
+
+  let type: DeviceInfo['type'] = 'unknown';
+  if (BOT_PATTERN.test(userAgent)) {
+    type = 'bot';
+  } else if (/\biPad\b|Tablet/.test(userAgent)) {
+    type = 'tablet';
+  } else if (/\bAndroid\b/.test(userAgent) && !/\bMobile\b/.test(userAgent)) {
+    type = 'tablet';
+  } else if (/\bMobile\b|\biPhone\b|\biPod\b/.test(userAgent)) {
+    type = 'mobile';
+  } else if (os !== 'Unknown') {
+    type = 'desktop';
+  }
+
+  return { type, os, browser };
+}
+
+/**
+ * Stable key of a device, used to notice sign-ins from new devices
+ */
+export function deviceKey(device: DeviceInfo): string {
+  return `${device.type}:${device.os}:${device.browser}`.toLowerCase();
+}
@@ -117,6 +117,17 @@ async function createIndexes(): Promise<void> {
     // Import models to ensure schemas are registered
     const { User } = await import('./models/User');
     const { AuditLog } = await import('./models/AuditLog');
+    const { ApiKey } = await import('./models/ApiKey');
+    const { Organization } = await import('./models/Organization');
+    const { Membership } = await import('./models/Membership');
+    const { Invitation } = await import('./models/Invitation');
+    const { WebhookEvent } = await import('./models/WebhookEvent');
+    const { ErasureRequest } = await import('./models/ErasureRequest');
+    const { DataExport } = await import('./models/DataExport');
+    const { LoginSession } = await import('./models/LoginSession');
+    const { Role } = await import('./models/Role');
+    const { Subscription } = await import('./models/Subscription');
+    const { UsageEvent } = await import('./models/UsageEvent');
 
     // Create indexes for User model
     await User.createIndexes();
@@ -124,6 +135,35 @@ async function createIndexes(): Promise<void> {
     // Create indexes for AuditLog model
     await AuditLog.createIndexes();
 
+    // Create indexes for ApiKey model
+    await ApiKey.createIndexes();
+
+    // Create indexes for organization models
+    await Organization.createIndexes();
+    await Membership.createIndexes();
+    await Invitation.createIndexes();
+
+    // Create indexes for WebhookEvent model
+    await WebhookEvent.createIndexes();
+
+    // Create indexes for ErasureRequest model
+    await ErasureRequest.createIndexes();
+
+    // Create indexes for DataExport model
+    await DataExport.createIndexes();
+
+    // Create indexes for LoginSession model
+    await LoginSession.createIndexes();
+
+    // Create indexes for Role model
+    await Role.createIndexes();
+
+    // Create indexes for Subscription model
+    await Subscription.createIndexes();
+
+    // Create indexes for UsageEvent model
+    await UsageEvent.createIndexes();
+
     logger.info('MongoDB indexes created successfully');
   } catch (error) {
     logger.error('Error creating MongoDB indexes:', error);
@@ -0,0 +1,223 @@
+import crypto from 'crypto';
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * Prefix shared by every API key so they can be recognised in logs,
+ * secret scanners and the Authorization header
+ */
+export const API_KEY_PREFIX = 'sk';
+
+/**
+ * API key static methods interface
+ */
+export interface IApiKeyModel extends Model<IApiKey> {
+  generate(data: {
+    userId: string;
+    name: string;
+    scopes: string[];
+    expiresAt?: Date;
+  }): Promise<{ apiKey: IApiKey; key: string }>;
+  findByKey(key: string): Promise<IApiKey | null>;
+  findActiveByUser(userId: string): Promise<IApiKey[]>;
+  hashKey(key: string): string;
+}
+
+/**
+ * API key document interface
+ */
+export interface IApiKey extends Document {
+  userId: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: string[];
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Virtual properties
+  isExpired: boolean;
+  isRevoked: boolean;
+
+  // Instance methods
+  markUsed(throttleMs?: number): Promise<void>;
+  revoke(): Promise<void>;
+}
+
+/**
+ * API key schema
+ */
+const apiKeySchema = new Schema<IApiKey>(
+  {
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters'],
+    },
+    prefix: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    keyHash: {
+      type: String,
+      required: true,
+    },
+    scopes: {
+      type: [String],
+      default: [],
+    },
+    expiresAt: {
+      type: Date,
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        // Never expose the hash, even to the key owner
+        delete ret.keyHash;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+apiKeySchema.index({ userId: 1, revokedAt: 1 });
+
+// Virtual properties
+apiKeySchema.virtual('isExpired').get(function (this: IApiKey) {
+  return !!this.expiresAt && this.expiresAt.getTime() <= Date.now();
+});
+
+apiKeySchema.virtual('isRevoked').get(function (this: IApiKey) {
+  return this.revokedAt != null;
+});
+
+// Static methods
+/**
+ * Hash a plaintext key for storage and lookup
+ */
+apiKeySchema.statics['hashKey'] = function (key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+};
+
+/**
+ * Generate a new key. The plaintext key is only returned here and is never
+ * persisted.
+ */
+apiKeySchema.statics['generate'] = async function (data: {
+  userId: string;
+  name: string;
+  scopes: string[];
+  expiresAt?: Date;
+}): Promise<{ apiKey: IApiKey; key: string }> {
+  const prefix = `${API_KEY_PREFIX}_${crypto.randomBytes(6).toString('hex')}`;
+  const secret = crypto.randomBytes(32).toString('base64url');
+  const key = `${prefix}_${secret}`;
+
+  const apiKey = await this.create({
+    ...data,
+    prefix,
+    keyHash: (this as any).hashKey(key),
+  });
+
+  return { apiKey, key };
+};
+
+/**
+ * Find a usable (not revoked, not expired) key from its plaintext value
+ */
+apiKeySchema.statics['findByKey'] = async function (
+  key: string
+): Promise<IApiKey | null> {
+  const match = key.match(new RegExp(`^(${API_KEY_PREFIX}_[0-9a-f]{12})_`));
+  if (!match) return null;
+
+  const apiKey: IApiKey | null = await this.findOne({
+    prefix: match[1],
+    revokedAt: null,
+  });
+  if (!apiKey) return null;
+
+  // Constant-time comparison of the hashes
+  const expected = Buffer.from(apiKey.keyHash, 'hex');
+  const actual = Buffer.from((this as any).hashKey(key), 'hex');
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return null;
+  }
+
+  if (apiKey.isExpired) return null;
+
+  return apiKey;
+};
+
+/**
+ * Find all keys of a user that have not been revoked
+ */
+apiKeySchema.statics['findActiveByUser'] = async function (
+  userId: string
+): Promise<IApiKey[]> {
+  return this.find({ userId, revokedAt: null }).sort({ createdAt: -1 });
+};
+
+// Instance methods
+apiKeySchema.methods = {
+  /**
+   * Record usage. Writes are throttled so busy integrations don't turn
+   * every request into a database write.
+   */
+  async markUsed(this: IApiKey, throttleMs: number = 60 * 1000): Promise<void> {
+    const now = new Date();
+    if (
+      this.lastUsedAt &&
+      now.getTime() - this.lastUsedAt.getTime() < throttleMs
+    ) {
+      return;
+    }
+
+    this.lastUsedAt = now;
+    await (this.constructor as Model<IApiKey>).updateOne(
+      { _id: this._id },
+      { lastUsedAt: now }
+    );
+  },
+
+  /**
+   * Revoke the key
+   */
+  async revoke(this: IApiKey): Promise<void> {
+    this.revokedAt = new Date();
+    await this.save();
+  },
+};
+
+// Prevent model overwrite error in development with hot reload
+export const ApiKey = (mongoose.models['ApiKey'] ||
+  mongoose.model<IApiKey, IApiKeyModel>(
+    'ApiKey',
+    apiKeySchema
+  )) as IApiKeyModel;
@@ -1,5 +1,6 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
 import { AuditAction } from '../../../core/types';
+import { getRequestContext } from '../../../core/utils/requestContext';
 
 /**
  * Audit log static methods interface
@@ -53,6 +54,8 @@ export interface IAuditLogModel extends Model<IAuditLog> {
 export interface IAuditLog extends Document {
   userId?: string; // Changed from ObjectId to string to support Clerk user IDs
   userEmail?: string;
+  impersonatorId?: string;
+  impersonatorEmail?: string;
   action: AuditAction | string;
   resource: string;
   resourceId?: string;
@@ -87,6 +90,12 @@ const auditLogSchema = new Schema<IAuditLog>(
       type: String,
       index: true,
     },
+    // Admin acting on behalf of userId (impersonation)
+    impersonatorId: {
+      type: String,
+      index: true,
+    },
+    impersonatorEmail: String,
     action: {
       type: String,
       required: [true, 'Action is required'],
@@ -175,8 +184,15 @@ auditLogSchema.statics['log'] = async function (data: {
   statusCode?: number;
   error?: Error;
 }): Promise<IAuditLog> {
+  // Record the real actor when the request is impersonating a user
+  const impersonator = getRequestContext()?.impersonator;
+
   const logEntry = {
     ...data,
+    ...(impersonator && {
+      impersonatorId: impersonator.id,
+      impersonatorEmail: impersonator.email,
+    }),
     error: data.error
       ? {
           message: data.error.message,
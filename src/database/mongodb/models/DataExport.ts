@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * Data export status
+ */
+export type DataExportStatus = 'pending' | 'processing' | 'ready' | 'failed';
+
+/**
+ * Bundle format of a data export
+ */
+export type DataExportFormat = 'json' | 'zip';
+
+/**
+ * Data export static methods interface
+ */
+export interface IDataExportModel extends Model<IDataExport> {
+  findActiveByUser(userId: string): Promise<IDataExport | null>;
+  findReadyByToken(token: string): Promise<IDataExport | null>;
+  hashToken(token: string): string;
+}
+
+/**
+ * Data export document interface
+ */
+export interface IDataExport extends Document {
+  userId: string;
+  format: DataExportFormat;
+  status: DataExportStatus;
+  /**
+   * Hash of the download link token
+   */
+  tokenHash?: string;
+  /**
+   * The bundle (only selected on download)
+   */
+  data?: Buffer;
+  size?: number;
+  contributors: { name: string; count?: number }[];
+  attempts: number;
+  error?: string;
+  completedAt?: Date;
+  /**
+   * The export and its download link are deleted at this date
+   */
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Data export schema - a user's personal data bundle (GDPR access request)
+ */
+const dataExportSchema = new Schema<IDataExport>(
+  {
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    format: {
+      type: String,
+      enum: ['json', 'zip'],
+      default: 'zip',
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'processing', 'ready', 'failed'],
+      default: 'pending',
+    },
+    tokenHash: {
+      type: String,
+      index: true,
+      select: false,
+    },
+    data: {
+      type: Buffer,
+      select: false,
+    },
+    size: Number,
+    contributors: [
+      {
+        _id: false,
+        name: String,
+        count: Number,
+      },
+    ],
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    error: String,
+    completedAt: Date,
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        delete ret.tokenHash;
+        delete ret.data;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+dataExportSchema.index({ userId: 1, createdAt: -1 });
+
+// TTL index: bundles are removed once their download link expires
+dataExportSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Static methods
+/**
+ * Hash a download token
+ */
+dataExportSchema.statics['hashToken'] = hashToken;
+
+/**
+ * Find the user's export that is still being built
+ */
+dataExportSchema.statics['findActiveByUser'] = async function (
+  userId: string
+): Promise<IDataExport | null> {
+  return this.findOne({
+    userId,
+    status: { $in: ['pending', 'processing'] },
+    expiresAt: { $gt: new Date() },
+  });
+};
+
+/**
+ * Find a ready export by download token, including its bundle
+ */
+dataExportSchema.statics['findReadyByToken'] = async function (
+  token: string
+): Promise<IDataExport | null> {
+  return this.findOne({
+    tokenHash: hashToken(token),
+    status: 'ready',
+    expiresAt: { $gt: new Date() },
+  }).select('+data');
+};
+
+// Prevent model overwrite error in development with hot reload
+export const DataExport = (mongoose.models['DataExport'] ||
+  mongoose.model<IDataExport, IDataExportModel>(
+    'DataExport',
+    dataExportSchema
+  )) as IDataExportModel;
@@ -0,0 +1,169 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * Erasure request status
+ */
+export type ErasureStatus =
+  | 'pending'
+  | 'processing'
+  | 'soft_deleted'
+  | 'completed'
+  | 'failed';
+
+/**
+ * Erasure phase: `soft` hides the user's data right away, `purge` removes
+ * it for good once the grace period is over
+ */
+export type ErasurePhase = 'soft' | 'purge';
+
+/**
+ * Result of one erasure hook
+ */
+export interface ErasureStep {
+  hook: string;
+  phase: ErasurePhase;
+  count?: number;
+  completedAt: Date;
+}
+
+/**
+ * Erasure request static methods interface
+ */
+export interface IErasureRequestModel extends Model<IErasureRequest> {
+  findActiveByUser(userId: string): Promise<IErasureRequest | null>;
+}
+
+/**
+ * Erasure request document interface
+ */
+export interface IErasureRequest extends Document {
+  userId: string;
+  /**
+   * Identity provider subject, kept until the erasure completes so repeated
+   * provider webhooks map to the same request
+   */
+  clerkId?: string;
+  source: 'self' | 'clerk' | 'admin';
+  requestedBy?: string;
+  status: ErasureStatus;
+  phase: ErasurePhase;
+  /**
+   * Replaces the user id in audit logs
+   */
+  pseudonym: string;
+  purgeAfter: Date;
+  steps: ErasureStep[];
+  attempts: number;
+  error?: string;
+  softDeletedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  hasCompleted(hook: string, phase: ErasurePhase): boolean;
+}
+
+/**
+ * Erasure request schema. Requests are never deleted: a completed request
+ * is the record that the user's data was erased.
+ */
+const erasureRequestSchema = new Schema<IErasureRequest>(
+  {
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    clerkId: String,
+    source: {
+      type: String,
+      enum: ['self', 'clerk', 'admin'],
+      required: true,
+    },
+    requestedBy: String,
+    status: {
+      type: String,
+      enum: ['pending', 'processing', 'soft_deleted', 'completed', 'failed'],
+      default: 'pending',
+      index: true,
+    },
+    phase: {
+      type: String,
+      enum: ['soft', 'purge'],
+      default: 'soft',
+    },
+    pseudonym: {
+      type: String,
+      required: true,
+    },
+    purgeAfter: {
+      type: Date,
+      required: true,
+    },
+    steps: [
+      {
+        _id: false,
+        hook: String,
+        phase: String,
+        count: Number,
+        completedAt: Date,
+      },
+    ],
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    error: String,
+    softDeletedAt: Date,
+    completedAt: Date,
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        delete ret.clerkId;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+erasureRequestSchema.index({ status: 1, purgeAfter: 1 });
+
+// Static methods
+/**
+ * Find the user's erasure request that hasn't completed yet
+ */
+erasureRequestSchema.statics['findActiveByUser'] = async function (
+  userId: string
+): Promise<IErasureRequest | null> {
+  return this.findOne({ userId, status: { $ne: 'completed' } });
+};
+
+// Instance methods
+erasureRequestSchema.methods = {
+  /**
+   * Whether a hook already ran for a phase (hooks are skipped on retries)
+   */
+  hasCompleted(
+    this: IErasureRequest,
+    hook: string,
+    phase: ErasurePhase
+  ): boolean {
+    return this.steps.some(
+      (step) => step.hook === hook && step.phase === phase
+    );
+  },
+};
+
+// Prevent model overwrite error in development with hot reload
+export const ErasureRequest = (mongoose.models['ErasureRequest'] ||
+  mongoose.model<IErasureRequest, IErasureRequestModel>(
+    'ErasureRequest',
+    erasureRequestSchema
+  )) as IErasureRequestModel;
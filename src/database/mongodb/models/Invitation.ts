@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { OrgRole } from '../../../core/types';
+
+/**
+ * How long an invitation stays valid
+ */
+export const INVITATION_TTL_DAYS = 7;
+
+/**
+ * Invitation static methods interface
+ */
+export interface IInvitationModel extends Model<IInvitation> {
+  generate(data: {
+    organizationId: string;
+    email: string;
+    role: OrgRole;
+    invitedBy: string;
+  }): Promise<{ invitation: IInvitation; token: string }>;
+  findPendingByToken(token: string): Promise<IInvitation | null>;
+}
+
+/**
+ * Invitation document interface
+ */
+export interface IInvitation extends Document {
+  organizationId: string;
+  email: string;
+  role: OrgRole;
+  tokenHash: string;
+  invitedBy: string;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  acceptedBy?: string;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Virtual properties
+  isPending: boolean;
+}
+
+/**
+ * Invitation schema
+ */
+const invitationSchema = new Schema<IInvitation>(
+  {
+    organizationId: {
+      type: String,
+      required: [true, 'Organization ID is required'],
+      index: true,
+    },
+    email: {
+      type: String,
+      required: [true, 'Email is required'],
+      lowercase: true,
+      trim: true,
+      index: true,
+    },
+    role: {
+      type: String,
+      enum: Object.values(OrgRole),
+      default: OrgRole.MEMBER,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    invitedBy: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    acceptedAt: Date,
+    acceptedBy: String,
+    revokedAt: Date,
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        delete ret.tokenHash;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+invitationSchema.index({ organizationId: 1, email: 1 });
+
+// Virtual properties
+invitationSchema.virtual('isPending').get(function (this: IInvitation) {
+  return (
+    !this.acceptedAt && !this.revokedAt && this.expiresAt.getTime() > Date.now()
+  );
+});
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Static methods
+/**
+ * Create an invitation. The plaintext token is only returned here.
+ */
+invitationSchema.statics['generate'] = async function (data: {
+  organizationId: string;
+  email: string;
+  role: OrgRole;
+  invitedBy: string;
+}): Promise<{ invitation: IInvitation; token: string }> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(
+    Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000
+  );
+
+  const invitation = await this.create({
+    ...data,
+    tokenHash: hashToken(token),
+    expiresAt,
+  });
+
+  return { invitation, token };
+};
+
+/**
+ * Find a pending (not accepted, revoked or expired) invitation by token
+ */
+invitationSchema.statics['findPendingByToken'] = async function (
+  token: string
+): Promise<IInvitation | null> {
+  return this.findOne({
+    tokenHash: hashToken(token),
+    acceptedAt: null,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  });
+};
+
+// Prevent model overwrite error in development with hot reload
+export const Invitation = (mongoose.models['Invitation'] ||
+  mongoose.model<IInvitation, IInvitationModel>(
+    'Invitation',
+    invitationSchema
+  )) as IInvitationModel;
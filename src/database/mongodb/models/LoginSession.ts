@@ -0,0 +1,198 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * Why a session stopped being active
+ */
+export type LoginSessionEndReason =
+  | 'signed_out'
+  | 'revoked'
+  | 'expired'
+  | 'removed';
+
+/**
+ * Login session static methods interface
+ */
+export interface ILoginSessionModel extends Model<ILoginSession> {
+  findActiveByUser(userId: string): Promise<ILoginSession[]>;
+  hasSeenDevice(
+    userId: string,
+    deviceKey: string,
+    excludeSessionId: string
+  ): Promise<boolean>;
+  endUserSessions(
+    userId: string,
+    reason: LoginSessionEndReason
+  ): Promise<number>;
+}
+
+/**
+ * Login session document interface
+ */
+export interface ILoginSession extends Document {
+  userId: string;
+  /**
+   * Session id at the identity provider (Clerk `sid`, or the token's `sid`
+   * / `jti` claim)
+   */
+  sessionId: string;
+  source: 'webhook' | 'request';
+  ipAddress?: string;
+  userAgent?: string;
+  device?: {
+    type: string;
+    os: string;
+    browser: string;
+  };
+  /**
+   * Normalised device, compared to the user's other sessions to detect
+   * sign-ins from new devices
+   */
+  deviceKey?: string;
+  location?: {
+    city?: string;
+    country?: string;
+  };
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  revokedAt?: Date;
+  endReason?: LoginSessionEndReason;
+  /**
+   * History is kept until this date
+   */
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Virtual properties
+  isActive: boolean;
+}
+
+/**
+ * Login session schema - a signed-in device of a user (login history)
+ */
+const loginSessionSchema = new Schema<ILoginSession>(
+  {
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    sessionId: {
+      type: String,
+      required: [true, 'Session ID is required'],
+      unique: true,
+    },
+    source: {
+      type: String,
+      enum: ['webhook', 'request'],
+      required: true,
+    },
+    ipAddress: String,
+    userAgent: String,
+    device: {
+      type: {
+        type: String,
+      },
+      os: String,
+      browser: String,
+    },
+    deviceKey: String,
+    location: {
+      city: String,
+      country: String,
+    },
+    firstSeenAt: {
+      type: Date,
+      required: true,
+    },
+    lastSeenAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    endReason: {
+      type: String,
+      enum: ['signed_out', 'revoked', 'expired', 'removed'],
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        delete ret.sessionId;
+        delete ret.deviceKey;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+loginSessionSchema.index({ userId: 1, lastSeenAt: -1 });
+loginSessionSchema.index({ userId: 1, deviceKey: 1 });
+
+// TTL index: login history is removed after the retention period
+loginSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Virtual properties
+loginSessionSchema.virtual('isActive').get(function (this: ILoginSession) {
+  return this.revokedAt == null;
+});
+
+// Static methods
+/**
+ * Find the user's sessions that have not ended, most recent first
+ */
+loginSessionSchema.statics['findActiveByUser'] = async function (
+  userId: string
+): Promise<ILoginSession[]> {
+  return this.find({ userId, revokedAt: null }).sort({ lastSeenAt: -1 });
+};
+
+/**
+ * Whether the user signed in from this device in another session
+ */
+loginSessionSchema.statics['hasSeenDevice'] = async function (
+  userId: string,
+  deviceKey: string,
+  excludeSessionId: string
+): Promise<boolean> {
+  const session = await this.exists({
+    userId,
+    deviceKey,
+    sessionId: { $ne: excludeSessionId },
+  });
+  return session !== null;
+};
+
+/**
+ * End all of the user's active sessions
+ */
+loginSessionSchema.statics['endUserSessions'] = async function (
+  userId: string,
+  reason: LoginSessionEndReason
+): Promise<number> {
+  const result = await this.updateMany(
+    { userId, revokedAt: null },
+    { revokedAt: new Date(), endReason: reason }
+  );
+  return result.modifiedCount;
+};
+
+// Prevent model overwrite error in development with hot reload
+export const LoginSession = (mongoose.models['LoginSession'] ||
+  mongoose.model<ILoginSession, ILoginSessionModel>(
+    'LoginSession',
+    loginSessionSchema
+  )) as ILoginSessionModel;
@@ -0,0 +1,103 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { OrgRole } from '../../../core/types';
+
+/**
+ * Membership static methods interface
+ */
+export interface IMembershipModel extends Model<IMembership> {
+  findMembership(
+    organizationId: string,
+    userId: string
+  ): Promise<IMembership | null>;
+  findByUser(userId: string): Promise<IMembership[]>;
+  countOwners(organizationId: string): Promise<number>;
+}
+
+/**
+ * Membership document interface
+ */
+export interface IMembership extends Document {
+  organizationId: string;
+  userId: string;
+  role: OrgRole;
+  invitedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Membership schema - links a user to an organization with a per-org role
+ */
+const membershipSchema = new Schema<IMembership>(
+  {
+    organizationId: {
+      type: String,
+      required: [true, 'Organization ID is required'],
+      index: true,
+    },
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    role: {
+      type: String,
+      enum: Object.values(OrgRole),
+      default: OrgRole.MEMBER,
+    },
+    invitedBy: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+membershipSchema.index({ organizationId: 1, userId: 1 }, { unique: true });
+membershipSchema.index({ organizationId: 1, role: 1 });
+
+// Static methods
+/**
+ * Find a user's membership in an organization
+ */
+membershipSchema.statics['findMembership'] = async function (
+  organizationId: string,
+  userId: string
+): Promise<IMembership | null> {
+  return this.findOne({ organizationId, userId });
+};
+
+/**
+ * Find all memberships of a user
+ */
+membershipSchema.statics['findByUser'] = async function (
+  userId: string
+): Promise<IMembership[]> {
+  return this.find({ userId }).sort({ createdAt: 1 });
+};
+
+/**
+ * Count owners of an organization
+ */
+membershipSchema.statics['countOwners'] = async function (
+  organizationId: string
+): Promise<number> {
+  return this.countDocuments({ organizationId, role: OrgRole.OWNER });
+};
+
+// Prevent model overwrite error in development with hot reload
+export const Membership = (mongoose.models['Membership'] ||
+  mongoose.model<IMembership, IMembershipModel>(
+    'Membership',
+    membershipSchema
+  )) as IMembershipModel;
@@ -0,0 +1,136 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * Organization static methods interface
+ */
+export interface IOrganizationModel extends Model<IOrganization> {
+  findBySlug(slug: string): Promise<IOrganization | null>;
+  generateSlug(name: string): Promise<string>;
+}
+
+/**
+ * Organization document interface
+ */
+export interface IOrganization extends Document {
+  name: string;
+  slug: string;
+  ownerId: string;
+  metadata?: Record<string, any>;
+  deletedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  softDelete(): Promise<void>;
+}
+
+/**
+ * Organization schema
+ */
+const organizationSchema = new Schema<IOrganization>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters'],
+    },
+    slug: {
+      type: String,
+      required: [true, 'Slug is required'],
+      unique: true,
+      lowercase: true,
+      trim: true,
+    },
+    ownerId: {
+      type: String,
+      required: [true, 'Owner ID is required'],
+      index: true,
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    deletedAt: {
+      type: Date,
+      default: null,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        delete ret.deletedAt;
+        return ret;
+      },
+    },
+  }
+);
+
+// Static methods
+/**
+ * Find organization by slug
+ */
+organizationSchema.statics['findBySlug'] = async function (
+  slug: string
+): Promise<IOrganization | null> {
+  return this.findOne({ slug: slug.toLowerCase() });
+};
+
+/**
+ * Build a unique slug from an organization name
+ */
+organizationSchema.statics['generateSlug'] = async function (
+  name: string
+): Promise<string> {
+  const base =
+    name
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 48) || 'org';
+
+  let slug = base;
+  let attempt = 1;
+
+  while (
+    await this.exists({ slug }).setOptions({ includeDeleted: true } as any)
+  ) {
+    attempt++;
+    slug = `${base}-${attempt}`;
+  }
+
+  return slug;
+};
+
+// Instance methods
+organizationSchema.methods = {
+  /**
+   * Soft delete
+   */
+  async softDelete(this: IOrganization): Promise<void> {
+    this.deletedAt = new Date();
+    await this.save();
+  },
+};
+
+// Exclude soft deleted records by default
+organizationSchema.pre(/^find/, function (this: any) {
+  const options = this.getOptions() as any;
+  if (!options?.includeDeleted) {
+    this.where({ deletedAt: null });
+  }
+});
+
+// Prevent model overwrite error in development with hot reload
+export const Organization = (mongoose.models['Organization'] ||
+  mongoose.model<IOrganization, IOrganizationModel>(
+    'Organization',
+    organizationSchema
+  )) as IOrganizationModel;
@@ -0,0 +1,90 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * Role names: lowercase, starting with a letter (`billing-admin`)
+ */
+export const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_-]*$/;
+
+/**
+ * Role static methods interface
+ */
+export interface IRoleModel extends Model<IRole> {
+  findByName(name: string): Promise<IRole | null>;
+}
+
+/**
+ * Role document interface. A role grants its own permissions plus those of
+ * the roles it inherits from.
+ */
+export interface IRole extends Document {
+  name: string;
+  description?: string;
+  permissions: string[];
+  inherits: string[];
+  builtIn: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Role schema
+ */
+const roleSchema = new Schema<IRole>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      unique: true,
+      lowercase: true,
+      trim: true,
+      maxlength: [50, 'Name cannot exceed 50 characters'],
+      match: [ROLE_NAME_PATTERN, 'Invalid role name'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Description cannot exceed 500 characters'],
+    },
+    permissions: {
+      type: [String],
+      default: [],
+    },
+    // Names of the parent roles
+    inherits: {
+      type: [String],
+      default: [],
+      index: true,
+    },
+    // Seeded at startup; can be edited but not deleted
+    builtIn: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Static methods
+/**
+ * Find a role by name
+ */
+roleSchema.statics['findByName'] = async function (
+  name: string
+): Promise<IRole | null> {
+  return this.findOne({ name: name.toLowerCase() });
+};
+
+// Prevent model overwrite error in development with hot reload
+export const Role = (mongoose.models['Role'] ||
+  mongoose.model<IRole, IRoleModel>('Role', roleSchema)) as IRoleModel;
@@ -0,0 +1,176 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * Stripe subscription statuses
+ */
+export const SUBSCRIPTION_STATUSES = [
+  'incomplete',
+  'incomplete_expired',
+  'trialing',
+  'active',
+  'past_due',
+  'unpaid',
+  'paused',
+  'canceled',
+] as const;
+
+export type SubscriptionState = (typeof SUBSCRIPTION_STATUSES)[number];
+
+/**
+ * Statuses that give the user their plan. Past-due subscriptions keep it
+ * while Stripe retries the payment.
+ */
+export const ENTITLED_STATUSES: SubscriptionState[] = [
+  'trialing',
+  'active',
+  'past_due',
+];
+
+/**
+ * Subscription static methods interface
+ */
+export interface ISubscriptionModel extends Model<ISubscription> {
+  findByStripeId(stripeSubscriptionId: string): Promise<ISubscription | null>;
+  findByUser(userId: string): Promise<ISubscription[]>;
+}
+
+/**
+ * Local copy of a Stripe subscription, kept up to date by webhook events.
+ * `User.subscription` is derived from these.
+ */
+export interface ISubscription extends Document {
+  userId: string;
+  stripeSubscriptionId: string;
+  stripeCustomerId: string;
+  status: SubscriptionState;
+  priceId?: string;
+  // Plan of the price (a paid SubscriptionStatus)
+  plan: string;
+  quantity: number;
+  currentPeriodStart?: Date;
+  currentPeriodEnd?: Date;
+  trialEnd?: Date;
+  cancelAtPeriodEnd: boolean;
+  cancelAt?: Date;
+  canceledAt?: Date;
+  endedAt?: Date;
+  latestInvoice?: {
+    id: string;
+    status: string;
+    paymentFailedAt?: Date;
+    updatedAt: Date;
+  };
+  /**
+   * Creation time of the last Stripe event applied; older events are
+   * skipped so out-of-order deliveries can't roll the state back
+   */
+  lastEventAt: Date;
+  lastEventId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Subscription schema
+ */
+const subscriptionSchema = new Schema<ISubscription>(
+  {
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    stripeSubscriptionId: {
+      type: String,
+      required: [true, 'Stripe subscription ID is required'],
+      unique: true,
+    },
+    stripeCustomerId: {
+      type: String,
+      required: [true, 'Stripe customer ID is required'],
+      index: true,
+    },
+    status: {
+      type: String,
+      enum: SUBSCRIPTION_STATUSES,
+      required: true,
+    },
+    priceId: String,
+    plan: {
+      type: String,
+      required: true,
+    },
+    quantity: {
+      type: Number,
+      default: 1,
+    },
+    currentPeriodStart: Date,
+    currentPeriodEnd: Date,
+    trialEnd: Date,
+    cancelAtPeriodEnd: {
+      type: Boolean,
+      default: false,
+    },
+    cancelAt: Date,
+    canceledAt: Date,
+    endedAt: Date,
+    latestInvoice: {
+      type: {
+        id: { type: String, required: true },
+        status: { type: String, required: true },
+        paymentFailedAt: Date,
+        updatedAt: { type: Date, required: true },
+      },
+      _id: false,
+    },
+    lastEventAt: {
+      type: Date,
+      required: true,
+    },
+    lastEventId: String,
+  },
+  {
+    timestamps: true,
+    // Concurrent webhook deliveries for one subscription fail one of the
+    // saves (and Stripe retries it) instead of overwriting each other
+    optimisticConcurrency: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+subscriptionSchema.index({ userId: 1, status: 1 });
+
+// Static methods
+/**
+ * Find a subscription by its Stripe id
+ */
+subscriptionSchema.statics['findByStripeId'] = async function (
+  stripeSubscriptionId: string
+): Promise<ISubscription | null> {
+  return this.findOne({ stripeSubscriptionId });
+};
+
+/**
+ * Subscriptions of a user, newest first
+ */
+subscriptionSchema.statics['findByUser'] = async function (
+  userId: string
+): Promise<ISubscription[]> {
+  return this.find({ userId }).sort({ createdAt: -1 });
+};
+
+// Prevent model overwrite error in development with hot reload
+export const Subscription = (mongoose.models['Subscription'] ||
+  mongoose.model<ISubscription, ISubscriptionModel>(
+    'Subscription',
+    subscriptionSchema
+  )) as ISubscriptionModel;
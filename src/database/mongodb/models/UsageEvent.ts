@@ -0,0 +1,169 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * Reporting status of a usage event: waiting for the rollup, reported to
+ * Stripe, covered by the plan's included quota, not billable (no
+ * subscription bills its meter), or given up on after repeated failures
+ */
+export type UsageEventStatus =
+  | 'pending'
+  | 'reported'
+  | 'included'
+  | 'unbilled'
+  | 'failed';
+
+/**
+ * Usage event static methods interface
+ */
+export interface IUsageEventModel extends Model<IUsageEvent> {
+  record(data: {
+    userId: string;
+    meter: string;
+    quantity: number;
+    idempotencyKey: string;
+  }): Promise<{ event: IUsageEvent; duplicate: boolean }>;
+  sumByMeter(
+    userId: string,
+    from: Date,
+    to: Date
+  ): Promise<Record<string, number>>;
+}
+
+/**
+ * Usage event document interface
+ */
+export interface IUsageEvent extends Document {
+  userId: string;
+  meter: string;
+  quantity: number;
+  idempotencyKey: string;
+  occurredAt: Date;
+  status: UsageEventStatus;
+  /**
+   * Rollup run that picked the event up; a retried run reports the same
+   * events under the same Stripe idempotency key
+   */
+  rollupId?: string;
+  reportedAt?: Date;
+  // Stripe subscription item the usage was reported to
+  stripeSubscriptionItemId?: string;
+  // Failed attempts to report the event
+  attempts: number;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Usage event schema - one unit of metered consumption
+ */
+const usageEventSchema = new Schema<IUsageEvent>(
+  {
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+    },
+    meter: {
+      type: String,
+      required: [true, 'Meter is required'],
+    },
+    quantity: {
+      type: Number,
+      required: [true, 'Quantity is required'],
+      min: [1, 'Quantity must be positive'],
+    },
+    idempotencyKey: {
+      type: String,
+      required: [true, 'Idempotency key is required'],
+    },
+    occurredAt: {
+      type: Date,
+      default: Date.now,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'reported', 'included', 'unbilled', 'failed'],
+      default: 'pending',
+    },
+    rollupId: {
+      type: String,
+      default: null,
+    },
+    reportedAt: Date,
+    stripeSubscriptionItemId: String,
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    error: String,
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+usageEventSchema.index({ userId: 1, idempotencyKey: 1 }, { unique: true });
+usageEventSchema.index({ userId: 1, occurredAt: -1 });
+usageEventSchema.index({ status: 1, rollupId: 1 });
+
+// Static methods
+/**
+ * Store a usage event, or return the existing one when the same key was
+ * recorded before for the user
+ */
+usageEventSchema.statics['record'] = async function (data: {
+  userId: string;
+  meter: string;
+  quantity: number;
+  idempotencyKey: string;
+}): Promise<{ event: IUsageEvent; duplicate: boolean }> {
+  try {
+    const event = await this.create(data);
+    return { event, duplicate: false };
+  } catch (error: any) {
+    // Duplicate key: this usage was already recorded
+    if (error?.code === 11000) {
+      const event = await this.findOne({
+        userId: data.userId,
+        idempotencyKey: data.idempotencyKey,
+      });
+      if (event) {
+        return { event, duplicate: true };
+      }
+    }
+    throw error;
+  }
+};
+
+/**
+ * Total usage of a user per meter between two dates (end excluded)
+ */
+usageEventSchema.statics['sumByMeter'] = async function (
+  userId: string,
+  from: Date,
+  to: Date
+): Promise<Record<string, number>> {
+  const totals: { _id: string; quantity: number }[] = await this.aggregate([
+    { $match: { userId, occurredAt: { $gte: from, $lt: to } } },
+    { $group: { _id: '$meter', quantity: { $sum: '$quantity' } } },
+  ]);
+
+  return Object.fromEntries(totals.map((total) => [total._id, total.quantity]));
+};
+
+// Prevent model overwrite error in development with hot reload
+export const UsageEvent = (mongoose.models['UsageEvent'] ||
+  mongoose.model<IUsageEvent, IUsageEventModel>(
+    'UsageEvent',
+    usageEventSchema
+  )) as IUsageEventModel;
@@ -1,6 +1,8 @@
 // TypeScript Audit Status: FIXED - All type errors resolved
 import mongoose, { Document, Schema, Model } from 'mongoose';
 import { UserRole, SubscriptionStatus } from '../../../core/types';
+import { isAllowed, PolicyResource } from '../../../modules/rbac/policy';
+import { hasRole } from '../../../modules/rbac/roleCache';
 
 /**
  * User static methods interface
@@ -28,19 +30,45 @@ export interface IUser extends Document {
   clerkId: string;
   email: string;
   name?: string;
-  role: UserRole;
+  // A built-in UserRole or the name of a custom Role
+  role: string;
+  /**
+   * When an admin assigned the role; from then on the auth provider's role
+   * claim no longer changes it
+   */
+  roleAssignedAt?: Date;
   subscription: SubscriptionStatus;
   stripeCustomerId?: string;
   metadata?: Record<string, any>;
+  preferences?: Record<string, any>;
   lastLoginAt?: Date;
   emailVerified: boolean;
   profileImage?: string;
+  suspendedAt?: Date;
+  /**
+   * End of a temporary suspension (none: until lifted by an admin)
+   */
+  suspendedUntil?: Date;
+  suspensionReason?: string;
+  suspendedBy?: string;
+  bannedAt?: Date;
+  banReason?: string;
+  bannedBy?: string;
+  /**
+   * Read-only accounts can sign in but not make changes (e.g. billing hold)
+   */
+  readOnlyAt?: Date;
+  readOnlyReason?: string;
+  readOnlyBy?: string;
   deletedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 
   // Virtual properties
   isDeleted: boolean;
+  isSuspended: boolean;
+  isBanned: boolean;
+  isReadOnly: boolean;
   isActive: boolean;
   isPro: boolean;
   isAdmin: boolean;
@@ -51,7 +79,7 @@ export interface IUser extends Document {
     subscription: SubscriptionStatus,
     stripeCustomerId?: string
   ): Promise<void>;
-  hasPermission(permission: string): boolean;
+  hasPermission(permission: string, resource?: PolicyResource): boolean;
   softDelete(): Promise<void>;
   restore(): Promise<void>;
 }
@@ -79,12 +107,15 @@ const userSchema = new Schema<IUser>(
       type: String,
       trim: true,
     },
+    // Roles live in the Role collection; assignments are checked there
     role: {
       type: String,
-      enum: Object.values(UserRole),
+      lowercase: true,
+      trim: true,
       default: UserRole.USER,
       index: true,
     },
+    roleAssignedAt: Date,
     subscription: {
       type: String,
       enum: Object.values(SubscriptionStatus),
@@ -101,6 +132,11 @@ const userSchema = new Schema<IUser>(
       type: Schema.Types.Mixed,
       default: {},
     },
+    // User-controlled settings (locale, notifications, UI...)
+    preferences: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
     lastLoginAt: {
       type: Date,
     },
@@ -111,6 +147,46 @@ const userSchema = new Schema<IUser>(
     profileImage: {
       type: String,
     },
+    // Account restrictions set by admins (see modules/auth/accountState.ts)
+    suspendedAt: {
+      type: Date,
+      default: null,
+      index: true,
+    },
+    suspendedUntil: {
+      type: Date,
+    },
+    suspensionReason: {
+      type: String,
+      trim: true,
+    },
+    suspendedBy: {
+      type: String,
+    },
+    bannedAt: {
+      type: Date,
+      default: null,
+      index: true,
+    },
+    banReason: {
+      type: String,
+      trim: true,
+    },
+    bannedBy: {
+      type: String,
+    },
+    readOnlyAt: {
+      type: Date,
+      default: null,
+      index: true,
+    },
+    readOnlyReason: {
+      type: String,
+      trim: true,
+    },
+    readOnlyBy: {
+      type: String,
+    },
     deletedAt: {
       type: Date,
       default: null,
@@ -143,8 +219,25 @@ userSchema.virtual('isDeleted').get(function (this: IUser) {
   return this.deletedAt != null;
 });
 
+userSchema.virtual('isSuspended').get(function (this: IUser) {
+  return (
+    this.suspendedAt != null &&
+    (this.suspendedUntil == null || this.suspendedUntil > new Date())
+  );
+});
+
+userSchema.virtual('isBanned').get(function (this: IUser) {
+  return this.bannedAt != null;
+});
+
+userSchema.virtual('isReadOnly').get(function (this: IUser) {
+  return this.readOnlyAt != null;
+});
+
 userSchema.virtual('isActive').get(function (this: IUser) {
-  return !this.isDeleted && this.emailVerified;
+  return (
+    !this.isDeleted && !this.isBanned && !this.isSuspended && this.emailVerified
+  );
 });
 
 userSchema.virtual('isPro').get(function (this: IUser) {
@@ -153,8 +246,9 @@ userSchema.virtual('isPro').get(function (this: IUser) {
   );
 });
 
+// Custom roles inheriting from admin are admins too
 userSchema.virtual('isAdmin').get(function (this: IUser) {
-  return this.role === UserRole.ADMIN;
+  return hasRole(this.role, UserRole.ADMIN);
 });
 
 // Static methods
@@ -252,24 +346,49 @@ userSchema.statics['restore'] = async function (
  * Get user statistics
  */
 userSchema.statics['getStats'] = async function (): Promise<any> {
-  const [totalUsers, activeUsers, deletedUsers, subscriptionStats, roleStats] =
-    await Promise.all([
-      this.countDocuments({ deletedAt: null }),
-      this.countDocuments({ deletedAt: null, emailVerified: true }),
-      this.countDocuments({ deletedAt: { $ne: null } }),
-      this.aggregate([
-        { $match: { deletedAt: null } },
-        { $group: { _id: '$subscription', count: { $sum: 1 } } },
-      ]),
-      this.aggregate([
-        { $match: { deletedAt: null } },
-        { $group: { _id: '$role', count: { $sum: 1 } } },
-      ]),
-    ]);
+  const now = new Date();
+  const suspended = {
+    suspendedAt: { $ne: null },
+    $or: [{ suspendedUntil: null }, { suspendedUntil: { $gt: now } }],
+  };
+
+  const [
+    totalUsers,
+    activeUsers,
+    suspendedUsers,
+    bannedUsers,
+    readOnlyUsers,
+    deletedUsers,
+    subscriptionStats,
+    roleStats,
+  ] = await Promise.all([
+    this.countDocuments({ deletedAt: null }),
+    this.countDocuments({
+      deletedAt: null,
+      bannedAt: null,
+      emailVerified: true,
+      $nor: [suspended],
+    }),
+    this.countDocuments({ deletedAt: null, bannedAt: null, ...suspended }),
+    this.countDocuments({ deletedAt: null, bannedAt: { $ne: null } }),
+    this.countDocuments({ deletedAt: null, readOnlyAt: { $ne: null } }),
+    this.countDocuments({ deletedAt: { $ne: null } }),
+    this.aggregate([
+      { $match: { deletedAt: null } },
+      { $group: { _id: '$subscription', count: { $sum: 1 } } },
+    ]),
+    this.aggregate([
+      { $match: { deletedAt: null } },
+      { $group: { _id: '$role', count: { $sum: 1 } } },
+    ]),
+  ]);
 
   return {
     total: totalUsers,
     active: activeUsers,
+    suspended: suspendedUsers,
+    banned: bannedUsers,
+    readOnly: readOnlyUsers,
     deleted: deletedUsers,
     bySubscription: subscriptionStats.reduce((acc: any, stat: any) => {
       acc[stat._id] = stat.count;
@@ -308,22 +427,19 @@ userSchema.methods = {
   },
 
   /**
-   * Check if user has permission
+   * Check if user has permission, with the same policy as the route
+   * middleware (platform role only, no organization or API key scopes)
    */
-  hasPermission(this: IUser, permission: string): boolean {
-    // Admin has all permissions
-    if (this.role === UserRole.ADMIN) return true;
-
-    // Add more permission logic here based on your requirements
-    // This is a simplified example
-    const rolePermissions: Record<string, string[]> = {
-      [UserRole.USER]: ['read:own', 'update:own'],
-      [UserRole.MODERATOR]: ['read:all', 'update:own', 'delete:flagged'],
-      [UserRole.ADMIN]: ['*'],
-    };
-
-    const permissions = rolePermissions[this.role] || [];
-    return permissions.includes(permission) || permissions.includes('*');
+  hasPermission(
+    this: IUser,
+    permission: string,
+    resource?: PolicyResource
+  ): boolean {
+    return isAllowed(
+      { id: (this._id as unknown as string).toString(), role: this.role },
+      permission,
+      resource
+    );
   },
 
   /**
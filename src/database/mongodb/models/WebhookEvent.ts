@@ -0,0 +1,167 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * Processing status of an inbound webhook event
+ */
+export type WebhookEventStatus =
+  | 'received'
+  | 'processing'
+  | 'processed'
+  | 'ignored'
+  | 'failed';
+
+/**
+ * Webhook event static methods interface
+ */
+export interface IWebhookEventModel extends Model<IWebhookEvent> {
+  record(data: {
+    provider: string;
+    eventId: string;
+    type: string;
+    payload: any;
+    occurredAt?: Date;
+  }): Promise<{ event: IWebhookEvent; duplicate: boolean }>;
+  findByStatus(
+    status: WebhookEventStatus,
+    options?: { provider?: string; limit?: number; skip?: number }
+  ): Promise<{ data: IWebhookEvent[]; total: number }>;
+}
+
+/**
+ * Webhook event document interface
+ */
+export interface IWebhookEvent extends Document {
+  provider: string;
+  eventId: string;
+  type: string;
+  payload: any;
+  status: WebhookEventStatus;
+  attempts: number;
+  occurredAt?: Date;
+  processedAt?: Date;
+  error?: {
+    message: string;
+    stack?: string;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Webhook event schema - every verified inbound event, used for idempotency
+ * and replays
+ */
+const webhookEventSchema = new Schema<IWebhookEvent>(
+  {
+    provider: {
+      type: String,
+      required: [true, 'Provider is required'],
+    },
+    eventId: {
+      type: String,
+      required: [true, 'Event ID is required'],
+    },
+    type: {
+      type: String,
+      required: [true, 'Event type is required'],
+      index: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    status: {
+      type: String,
+      enum: ['received', 'processing', 'processed', 'ignored', 'failed'],
+      default: 'received',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    occurredAt: Date,
+    processedAt: Date,
+    error: {
+      message: String,
+      stack: String,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+webhookEventSchema.index({ provider: 1, eventId: 1 }, { unique: true });
+webhookEventSchema.index({ status: 1, createdAt: -1 });
+
+// TTL index: keep events long enough to cover provider retry windows
+webhookEventSchema.index(
+  { createdAt: 1 },
+  {
+    expireAfterSeconds: 90 * 24 * 60 * 60, // 90 days
+  }
+);
+
+// Static methods
+/**
+ * Store an event, or return the existing one when the provider delivers the
+ * same event id again
+ */
+webhookEventSchema.statics['record'] = async function (data: {
+  provider: string;
+  eventId: string;
+  type: string;
+  payload: any;
+  occurredAt?: Date;
+}): Promise<{ event: IWebhookEvent; duplicate: boolean }> {
+  try {
+    const event = await this.create(data);
+    return { event, duplicate: false };
+  } catch (error: any) {
+    // Duplicate key: this event was already received
+    if (error?.code === 11000) {
+      const event = await this.findOne({
+        provider: data.provider,
+        eventId: data.eventId,
+      });
+      if (event) {
+        return { event, duplicate: true };
+      }
+    }
+    throw error;
+  }
+};
+
+/**
+ * List events with a given status, newest first
+ */
+webhookEventSchema.statics['findByStatus'] = async function (
+  status: WebhookEventStatus,
+  options: { provider?: string; limit?: number; skip?: number } = {}
+): Promise<{ data: IWebhookEvent[]; total: number }> {
+  const { provider, limit = 20, skip = 0 } = options;
+  const query = { status, ...(provider && { provider }) };
+
+  const [data, total] = await Promise.all([
+    this.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit),
+    this.countDocuments(query),
+  ]);
+
+  return { data, total };
+};
+
+// Prevent model overwrite error in development with hot reload
+export const WebhookEvent = (mongoose.models['WebhookEvent'] ||
+  mongoose.model<IWebhookEvent, IWebhookEventModel>(
+    'WebhookEvent',
+    webhookEventSchema
+  )) as IWebhookEventModel;
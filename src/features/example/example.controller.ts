@@ -2,6 +2,11 @@ import { Request, Response } from 'express';
 import { exampleService } from './example.service';
 import { success, paginated, deleted } from '../../core/utils/apiResponse';
 import { asyncHandler } from '../../core/middleware/asyncHandler';
+import { getResource } from '../../modules/rbac/resources';
+import { getPolicySubject } from '../../modules/auth/middleware';
+import { examplePolicy } from './example.policy';
+import { exampleSerializer } from './example.serializer';
+import { serializeFor, serializeAllFor } from '../../modules/rbac/serializers';
 
 /**
  * Example controller - HTTP request handlers
@@ -15,7 +20,7 @@ export class ExampleController {
     const example = await exampleService.create(req.user!.id, req.body);
 
     res.status(201).json(
-      success(example, {
+      success(serializeFor(req, exampleSerializer, example), {
         message: 'Example created successfully',
       })
     );
@@ -26,17 +31,15 @@ export class ExampleController {
    * GET /api/examples/:id
    */
   getById = asyncHandler(async (req: Request, res: Response) => {
-    const { id } = req.params;
-    // Use bracket notation for index signature access
-    const incrementView = req.query['view'] === 'true';
+    // Loaded and checked by authorizeResource
+    const example = getResource(req, examplePolicy);
 
-    const example = await exampleService.getById(
-      id as string,
-      req.user?.id,
-      incrementView
-    );
+    // Use bracket notation for index signature access
+    if (req.query['view'] === 'true') {
+      await exampleService.recordView(example, req.user?.id);
+    }
 
-    res.json(success(example));
+    res.json(success(serializeFor(req, exampleSerializer, example)));
   });
 
   /**
@@ -46,7 +49,14 @@ export class ExampleController {
   list = asyncHandler(async (req: Request, res: Response) => {
     const result = await exampleService.list(req.query as any, req.user?.id);
 
-    res.json(paginated(result.data, result.total, result.page, result.limit));
+    res.json(
+      paginated(
+        serializeAllFor(req, exampleSerializer, result.data),
+        result.total,
+        result.page,
+        result.limit
+      )
+    );
   });
 
   /**
@@ -54,14 +64,14 @@ export class ExampleController {
    * PUT /api/examples/:id
    */
   update = asyncHandler(async (req: Request, res: Response) => {
-    const { id } = req.params;
-    // AUDIT_STATUS: Authenticated user updating their own example
-    const userId = req.user!.id as string;
-
-    const example = await exampleService.update(id as string, userId, req.body);
+    const example = await exampleService.update(
+      getResource(req, examplePolicy),
+      req.user!.id,
+      req.body
+    );
 
     res.json(
-      success(example, {
+      success(serializeFor(req, exampleSerializer, example), {
         message: 'Example updated successfully',
       })
     );
@@ -72,11 +82,7 @@ export class ExampleController {
    * DELETE /api/examples/:id
    */
   delete = asyncHandler(async (req: Request, res: Response) => {
-    const { id } = req.params;
-    // AUDIT_STATUS: Authenticated user deleting their own example
-    const userId = req.user!.id as string;
-
-    await exampleService.delete(id as string, userId);
+    await exampleService.delete(getResource(req, examplePolicy), req.user!.id);
 
     res.json(deleted('Example deleted successfully'));
   });
@@ -86,19 +92,16 @@ export class ExampleController {
    * POST /api/examples/:id/publish
    */
   publish = asyncHandler(async (req: Request, res: Response) => {
-    const { id } = req.params;
     const { makePublic } = req.body;
-    // AUDIT_STATUS: Authenticated user publishing their own example
-    const userId = req.user!.id as string;
 
     const example = await exampleService.publish(
-      id as string,
-      userId,
+      getResource(req, examplePolicy),
+      req.user!.id,
       makePublic
     );
 
     res.json(
-      success(example, {
+      success(serializeFor(req, exampleSerializer, example), {
         message: 'Example published successfully',
       })
     );
@@ -109,14 +112,13 @@ export class ExampleController {
    * POST /api/examples/:id/archive
    */
   archive = asyncHandler(async (req: Request, res: Response) => {
-    const { id } = req.params;
-    // AUDIT_STATUS: Authenticated user archiving their own example
-    const userId = req.user!.id as string;
-
-    const example = await exampleService.archive(id as string, userId);
+    const example = await exampleService.archive(
+      getResource(req, examplePolicy),
+      req.user!.id
+    );
 
     res.json(
-      success(example, {
+      success(serializeFor(req, exampleSerializer, example), {
         message: 'Example archived successfully',
       })
     );
@@ -129,7 +131,7 @@ export class ExampleController {
   bulkDelete = asyncHandler(async (req: Request, res: Response) => {
     const { ids } = req.body;
 
-    const result = await exampleService.bulkDelete(ids, req.user!.id);
+    const result = await exampleService.bulkDelete(ids, getPolicySubject(req));
 
     res.json(
       success(result, {
@@ -158,7 +160,7 @@ export class ExampleController {
 
     const examples = await exampleService.getPopular(limit);
 
-    res.json(success(examples));
+    res.json(success(serializeAllFor(req, exampleSerializer, examples)));
   });
 
   /**
@@ -173,7 +175,14 @@ export class ExampleController {
 
     const result = await exampleService.list(query as any, req.user!.id);
 
-    res.json(paginated(result.data, result.total, result.page, result.limit));
+    res.json(
+      paginated(
+        serializeAllFor(req, exampleSerializer, result.data),
+        result.total,
+        result.page,
+        result.limit
+      )
+    );
   });
 }
 
@@ -17,7 +17,6 @@ export interface IExample extends Document {
   createdAt: Date;
   updatedAt: Date;
   // Instance methods
-  canEdit(userId: string): boolean;
   publish(): Promise<void>;
   archive(): Promise<void>;
   softDelete(): Promise<void>;
@@ -266,13 +265,6 @@ exampleSchema.statics = {
 
 // Instance methods
 exampleSchema.methods = {
-  /**
-   * Check if user can edit this example
-   */
-  canEdit(this: IExample, userId: string): boolean {
-    return this.userId === userId;
-  },
-
   /**
    * Publish example
    */
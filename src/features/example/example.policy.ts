@@ -0,0 +1,49 @@
+import { Example, IExample } from './example.model';
+import {
+  registerResourcePolicy,
+  ResourceContext,
+} from '../../modules/rbac/resources';
+
+/**
+ * The subject created the example
+ */
+const isOwner = ({ subject, resource }: ResourceContext<IExample>) =>
+  subject !== null && resource.userId === subject.id;
+
+/**
+ * Who may do what with an example. Owners act through their `:own`
+ * permissions; moderators (`content:moderate`) may act on any example.
+ * Examples belong to no organization, so membership roles never apply.
+ * Copy this file for every feature with per-resource access rules.
+ */
+export const examplePolicy = registerResourcePolicy<IExample>({
+  name: 'example',
+
+  findById: (id) => Example.findById(id),
+
+  ownerId: (example) => example.userId,
+
+  actions: {
+    read: [
+      { when: ({ resource }) => resource.isPublic },
+      { when: isOwner },
+      { permission: 'content:moderate' },
+    ],
+    update: [
+      { permission: 'content:update' },
+      { permission: 'content:moderate' },
+    ],
+    publish: [
+      { permission: 'content:update' },
+      { permission: 'content:moderate' },
+    ],
+    archive: [
+      { permission: 'content:update' },
+      { permission: 'content:moderate' },
+    ],
+    delete: [
+      { permission: 'content:delete' },
+      { permission: 'content:moderate' },
+    ],
+  },
+});
@@ -0,0 +1,38 @@
+import { Example } from './example.model';
+import {
+  registerErasureHook,
+  registerExportContributor,
+} from '../../modules/privacy/registry';
+
+/**
+ * Hide an erased user's examples right away and delete them after the
+ * grace period. Copy this file for every feature that stores user content.
+ */
+registerErasureHook({
+  name: 'examples',
+
+  async softDelete(ctx) {
+    const result = await Example.updateMany(
+      { userId: ctx.userId, deletedAt: null },
+      { deletedAt: new Date() }
+    );
+    return result.modifiedCount;
+  },
+
+  async hardDelete(ctx) {
+    const result = await Example.deleteMany({ userId: ctx.userId });
+    return result.deletedCount;
+  },
+});
+
+// Soft deleted examples are still held until purged, so they are exported
+registerExportContributor({
+  name: 'examples',
+
+  async collect(ctx) {
+    const examples = await Example.find({ userId: ctx.userId })
+      .setOptions({ includeDeleted: true } as any)
+      .sort({ createdAt: 1 });
+    return examples.map((example) => example.toJSON());
+  },
+});
@@ -12,12 +12,14 @@ import {
 import {
   requireAuth,
   optionalAuth,
-  requireRole,
+  requirePlatformRole,
 } from '../../modules/auth/middleware';
+import { authorizeResource } from '../../modules/rbac/resources';
 import { strictLimiter } from '../../core/middleware/rateLimiter';
 import { asyncHandler } from '../../core/middleware/asyncHandler';
 import { exampleService } from './example.service';
 import { paginated } from '../../core/utils/apiResponse';
+import { examplePolicy } from './example.policy';
 
 const router = Router();
 
@@ -38,6 +40,7 @@ router.get(
   '/:id',
   optionalAuth,
   validate(idParamSchema, 'params'),
+  authorizeResource(examplePolicy, 'read', { allowAnonymous: true }),
   exampleController.getById
 );
 
@@ -50,7 +53,8 @@ router.get(
 );
 
 /**
- * Authenticated routes
+ * Authenticated routes. Access to a single example is checked by
+ * authorizeResource against example.policy.ts, which also loads it.
  */
 
 // Get user's own examples
@@ -78,6 +82,7 @@ router.put(
   '/:id',
   requireAuth,
   validate(idParamSchema, 'params'),
+  authorizeResource(examplePolicy, 'update'),
   validate(updateExampleSchema, 'body'),
   exampleController.update
 );
@@ -87,6 +92,7 @@ router.delete(
   '/:id',
   requireAuth,
   validate(idParamSchema, 'params'),
+  authorizeResource(examplePolicy, 'delete'),
   exampleController.delete
 );
 
@@ -95,6 +101,7 @@ router.post(
   '/:id/publish',
   requireAuth,
   validate(idParamSchema, 'params'),
+  authorizeResource(examplePolicy, 'publish'),
   validate(publishExampleSchema, 'body'),
   exampleController.publish
 );
@@ -104,6 +111,7 @@ router.post(
   '/:id/archive',
   requireAuth,
   validate(idParamSchema, 'params'),
+  authorizeResource(examplePolicy, 'archive'),
   exampleController.archive
 );
 
@@ -123,7 +131,7 @@ router.post(
 router.get(
   '/admin/all',
   requireAuth,
-  requireRole('admin'),
+  requirePlatformRole('admin'),
   validate(listExamplesQuerySchema, 'query'),
   asyncHandler(async (req, res) => {
     // Admin can see all examples including deleted ones
@@ -0,0 +1,31 @@
+import { IExample } from './example.model';
+import { defineSerializer } from '../../modules/rbac/serializers';
+
+/**
+ * Fields of an example each audience sees. Anonymous readers of public
+ * examples get the content; owners also get their metadata and stats;
+ * moderators get everything.
+ */
+export const exampleSerializer = defineSerializer<IExample>({
+  name: 'example',
+
+  ownerId: (example) => example.userId,
+
+  adminPermission: 'content:moderate',
+
+  fields: {
+    id: 'public',
+    name: 'public',
+    description: 'public',
+    userId: 'public',
+    status: 'public',
+    tags: 'public',
+    isPublic: 'public',
+    publishedAt: 'public',
+    createdAt: 'public',
+    updatedAt: 'public',
+    metadata: 'owner',
+    viewCount: 'owner',
+    isDeleted: 'admin',
+  },
+});
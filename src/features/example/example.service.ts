@@ -4,13 +4,13 @@ import {
   UpdateExampleInput,
   ListExamplesQuery,
 } from './example.schema';
-import {
-  NotFoundError,
-  ForbiddenError,
-  ConflictError,
-} from '../../core/types/errors';
+import { NotFoundError, ConflictError } from '../../core/types/errors';
 import { logger } from '../../core/config/logger';
 import { AuditLog } from '../../database/mongodb/models/AuditLog';
+import { PolicySubject } from '../../modules/rbac/policy';
+import { authorize } from '../../modules/rbac/resources';
+import { examplePolicy } from './example.policy';
+import { checkLimit } from '../../modules/payments/entitlements';
 
 /**
  * Example service - Business logic layer
@@ -32,6 +32,14 @@ export class ExampleService {
         throw new ConflictError('An example with this name already exists');
       }
 
+      // Enforce the plan's example cap (countDocuments skips the
+      // soft-delete hook, hence the explicit filter)
+      await checkLimit(
+        userId,
+        'examples.max',
+        await Example.countDocuments({ userId, deletedAt: null })
+      );
+
       // Create the example
       const example = await Example.create({
         ...data,
@@ -61,31 +69,15 @@ export class ExampleService {
   }
 
   /**
-   * Get an example by ID
+   * Count a view of an example, unless the viewer is its owner. Access is
+   * checked by the route (see example.policy.ts).
    */
-  async getById(
-    id: string,
-    userId?: string,
-    incrementView: boolean = false
-  ): Promise<IExample> {
-    const example = await Example.findById(id);
-
-    if (!example) {
-      throw new NotFoundError('Example not found');
-    }
-
-    // Check access permissions
-    if (!example.isPublic && example.userId !== userId) {
-      throw new ForbiddenError('You do not have access to this example');
-    }
-
-    // Increment view count if requested and not the owner
-    if (incrementView && example.userId !== userId) {
-      // Call static method incrementViewCount
-      await Example.incrementViewCount(id);
+  async recordView(example: IExample, userId?: string): Promise<void> {
+    if (example.userId !== userId) {
+      await Example.incrementViewCount(
+        (example._id as unknown as string).toString()
+      );
     }
-
-    return example;
   }
 
   /**
@@ -155,10 +147,7 @@ export class ExampleService {
       ]);
     } else {
       [examples, total] = await Promise.all([
-        Example.find(filter)
-          .sort(sort)
-          .limit(limit)
-          .skip(skip),
+        Example.find(filter).sort(sort).limit(limit).skip(skip),
         Example.countDocuments(filter),
       ]);
     }
@@ -172,28 +161,20 @@ export class ExampleService {
   }
 
   /**
-   * Update an example
+   * Update an example. Access is checked by the route.
    */
   async update(
-    id: string,
+    example: IExample,
     userId: string,
     data: UpdateExampleInput
   ): Promise<IExample> {
-    const example = await Example.findById(id);
-
-    if (!example) {
-      throw new NotFoundError('Example not found');
-    }
-
-    // Check ownership - call instance method
-    if (!example.canEdit(userId)) {
-      throw new ForbiddenError('You can only edit your own examples');
-    }
+    const id = (example._id as unknown as string).toString();
 
-    // Check for name conflict if name is being updated
+    // Check for name conflict if name is being updated (names are unique
+    // per owner, who may not be the user making the change)
     if (data.name && data.name !== example.name) {
       const existing = await Example.findOne({
-        userId,
+        userId: example.userId,
         name: data.name,
         _id: { $ne: id },
         deletedAt: null,
@@ -243,19 +224,10 @@ export class ExampleService {
   }
 
   /**
-   * Delete an example (soft delete)
+   * Delete an example (soft delete). Access is checked by the route.
    */
-  async delete(id: string, userId: string): Promise<void> {
-    const example = await Example.findById(id);
-
-    if (!example) {
-      throw new NotFoundError('Example not found');
-    }
-
-    // Check ownership
-    if (!example.canEdit(userId)) {
-      throw new ForbiddenError('You can only delete your own examples');
-    }
+  async delete(example: IExample, userId: string): Promise<void> {
+    const id = (example._id as unknown as string).toString();
 
     await example.softDelete();
 
@@ -271,23 +243,14 @@ export class ExampleService {
   }
 
   /**
-   * Publish an example
+   * Publish an example. Access is checked by the route.
    */
   async publish(
-    id: string,
+    example: IExample,
     userId: string,
     makePublic: boolean = true
   ): Promise<IExample> {
-    const example = await Example.findById(id);
-
-    if (!example) {
-      throw new NotFoundError('Example not found');
-    }
-
-    // Check ownership
-    if (!example.canEdit(userId)) {
-      throw new ForbiddenError('You can only publish your own examples');
-    }
+    const id = (example._id as unknown as string).toString();
 
     example.status = 'published';
     example.publishedAt = new Date();
@@ -309,19 +272,10 @@ export class ExampleService {
   }
 
   /**
-   * Archive an example
+   * Archive an example. Access is checked by the route.
    */
-  async archive(id: string, userId: string): Promise<IExample> {
-    const example = await Example.findById(id);
-
-    if (!example) {
-      throw new NotFoundError('Example not found');
-    }
-
-    // Check ownership
-    if (!example.canEdit(userId)) {
-      throw new ForbiddenError('You can only archive your own examples');
-    }
+  async archive(example: IExample, userId: string): Promise<IExample> {
+    const id = (example._id as unknown as string).toString();
 
     await example.archive();
 
@@ -339,11 +293,12 @@ export class ExampleService {
   }
 
   /**
-   * Bulk delete examples
+   * Bulk delete examples. Each example is checked against the example
+   * policy; missing and forbidden ones are reported as failed.
    */
   async bulkDelete(
     ids: string[],
-    userId: string
+    subject: PolicySubject
   ): Promise<{
     deleted: number;
     failed: string[];
@@ -353,13 +308,19 @@ export class ExampleService {
 
     for (const id of ids) {
       try {
-        await this.delete(id, userId);
+        const example = await Example.findById(id);
+        if (!example) {
+          throw new NotFoundError('Example not found');
+        }
+
+        authorize(subject, examplePolicy, 'delete', example);
+        await this.delete(example, subject.id!);
         deleted++;
       } catch (error) {
         logger.error('Failed to delete example in bulk operation', {
           error,
           exampleId: id,
-          userId,
+          userId: subject.id,
         });
         failed.push(id);
       }
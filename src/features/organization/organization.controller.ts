@@ -0,0 +1,195 @@
+import { Request, Response } from 'express';
+import { organizationService } from './organization.service';
+import { success, deleted } from '../../core/utils/apiResponse';
+import { asyncHandler } from '../../core/middleware/asyncHandler';
+
+/**
+ * Organization controller - HTTP request handlers
+ */
+export class OrganizationController {
+  /**
+   * Create an organization
+   * POST /api/orgs
+   */
+  create = asyncHandler(async (req: Request, res: Response) => {
+    const organization = await organizationService.create(
+      req.user!.id,
+      req.body
+    );
+
+    res.status(201).json(
+      success(organization, {
+        message: 'Organization created successfully',
+      })
+    );
+  });
+
+  /**
+   * List the current user's organizations
+   * GET /api/orgs
+   */
+  list = asyncHandler(async (req: Request, res: Response) => {
+    const organizations = await organizationService.listForUser(req.user!.id);
+
+    res.json(success(organizations));
+  });
+
+  /**
+   * Get the active organization
+   * GET /api/orgs/:orgId
+   */
+  getById = asyncHandler(async (req: Request, res: Response) => {
+    const organization = await organizationService.getById(
+      req.organization!.id
+    );
+
+    res.json(
+      success({ ...organization.toJSON(), role: req.organization!.role })
+    );
+  });
+
+  /**
+   * Update the active organization
+   * PATCH /api/orgs/:orgId
+   */
+  update = asyncHandler(async (req: Request, res: Response) => {
+    const organization = await organizationService.update(
+      req.organization!.id,
+      req.user!.id,
+      req.body
+    );
+
+    res.json(
+      success(organization, {
+        message: 'Organization updated successfully',
+      })
+    );
+  });
+
+  /**
+   * Delete the active organization
+   * DELETE /api/orgs/:orgId
+   */
+  delete = asyncHandler(async (req: Request, res: Response) => {
+    await organizationService.delete(req.organization!.id, req.user!.id);
+
+    res.json(deleted('Organization deleted successfully'));
+  });
+
+  /**
+   * List members
+   * GET /api/orgs/:orgId/members
+   */
+  listMembers = asyncHandler(async (req: Request, res: Response) => {
+    const members = await organizationService.listMembers(req.organization!.id);
+
+    res.json(success(members));
+  });
+
+  /**
+   * Change a member's role
+   * PATCH /api/orgs/:orgId/members/:userId
+   */
+  updateMember = asyncHandler(async (req: Request, res: Response) => {
+    const membership = await organizationService.updateMemberRole(
+      req.organization!.id,
+      { userId: req.user!.id, role: req.organization!.role },
+      req.params['userId'] as string,
+      req.body.role
+    );
+
+    res.json(
+      success(membership, {
+        message: 'Member updated successfully',
+      })
+    );
+  });
+
+  /**
+   * Remove a member
+   * DELETE /api/orgs/:orgId/members/:userId
+   */
+  removeMember = asyncHandler(async (req: Request, res: Response) => {
+    await organizationService.removeMember(
+      req.organization!.id,
+      { userId: req.user!.id, role: req.organization!.role },
+      req.params['userId'] as string
+    );
+
+    res.json(deleted('Member removed successfully'));
+  });
+
+  /**
+   * Leave the organization
+   * POST /api/orgs/:orgId/leave
+   */
+  leave = asyncHandler(async (req: Request, res: Response) => {
+    await organizationService.leave(req.organization!.id, req.user!.id);
+
+    res.json(deleted('You left the organization'));
+  });
+
+  /**
+   * List pending invitations
+   * GET /api/orgs/:orgId/invitations
+   */
+  listInvitations = asyncHandler(async (req: Request, res: Response) => {
+    const invitations = await organizationService.listInvitations(
+      req.organization!.id
+    );
+
+    res.json(success(invitations));
+  });
+
+  /**
+   * Invite a user by email
+   * POST /api/orgs/:orgId/invitations
+   */
+  invite = asyncHandler(async (req: Request, res: Response) => {
+    const invitation = await organizationService.invite(
+      req.organization!.id,
+      { userId: req.user!.id, role: req.organization!.role },
+      req.body
+    );
+
+    res.status(201).json(
+      success(invitation, {
+        message: 'Invitation sent successfully',
+      })
+    );
+  });
+
+  /**
+   * Revoke a pending invitation
+   * DELETE /api/orgs/:orgId/invitations/:invitationId
+   */
+  revokeInvitation = asyncHandler(async (req: Request, res: Response) => {
+    await organizationService.revokeInvitation(
+      req.organization!.id,
+      req.params['invitationId'] as string,
+      req.user!.id
+    );
+
+    res.json(deleted('Invitation revoked successfully'));
+  });
+
+  /**
+   * Accept an invitation
+   * POST /api/orgs/invitations/accept
+   */
+  acceptInvitation = asyncHandler(async (req: Request, res: Response) => {
+    const membership = await organizationService.acceptInvitation(
+      req.body.token,
+      req.user!
+    );
+
+    res.json(
+      success(membership, {
+        message: 'Invitation accepted',
+      })
+    );
+  });
+}
+
+// Export singleton instance
+export const organizationController = new OrganizationController();
@@ -0,0 +1,139 @@
+import { Organization } from '../../database/mongodb/models/Organization';
+import { Membership } from '../../database/mongodb/models/Membership';
+import { Invitation } from '../../database/mongodb/models/Invitation';
+import { OrgRole } from '../../core/types';
+import { logger } from '../../core/config/logger';
+import {
+  registerErasureHook,
+  registerExportContributor,
+} from '../../modules/privacy/registry';
+
+/**
+ * Role a successor is picked from when the erased user was the last owner,
+ * in order of preference
+ */
+const SUCCESSOR_ROLES = [OrgRole.ADMIN, OrgRole.MEMBER];
+
+/**
+ * Remove an erased user from their organizations. Organizations they were
+ * the last owner of go to their longest-standing admin (or member), or are
+ * deleted when nobody else is left.
+ */
+registerErasureHook({
+  name: 'organizations',
+
+  async softDelete(ctx) {
+    const memberships = await Membership.findByUser(ctx.userId);
+
+    for (const membership of memberships) {
+      const { organizationId } = membership;
+
+      if (
+        membership.role !== OrgRole.OWNER ||
+        (await Membership.countOwners(organizationId)) > 1
+      ) {
+        continue;
+      }
+
+      let successor = null;
+      for (const role of SUCCESSOR_ROLES) {
+        successor = await Membership.findOne({ organizationId, role }).sort({
+          createdAt: 1,
+        });
+        if (successor) break;
+      }
+
+      if (successor) {
+        successor.role = OrgRole.OWNER;
+        await successor.save();
+        logger.info('Organization ownership transferred on erasure', {
+          organizationId,
+          newOwnerId: successor.userId,
+        });
+        continue;
+      }
+
+      const organization = await Organization.findById(organizationId);
+      if (organization) {
+        await organization.softDelete();
+      }
+      await Invitation.updateMany(
+        { organizationId, acceptedAt: null, revokedAt: null },
+        { revokedAt: new Date() }
+      );
+    }
+
+    const [removed, revoked] = await Promise.all([
+      Membership.deleteMany({ userId: ctx.userId }),
+      ctx.email
+        ? Invitation.updateMany(
+            { email: ctx.email, acceptedAt: null, revokedAt: null },
+            { revokedAt: new Date() }
+          )
+        : null,
+    ]);
+
+    return removed.deletedCount + (revoked?.modifiedCount ?? 0);
+  },
+
+  async hardDelete(ctx) {
+    const [received, sent, accepted] = await Promise.all([
+      ctx.email ? Invitation.deleteMany({ email: ctx.email }) : null,
+      Invitation.updateMany(
+        { invitedBy: ctx.userId },
+        { invitedBy: ctx.pseudonym }
+      ),
+      Invitation.updateMany(
+        { acceptedBy: ctx.userId },
+        { acceptedBy: ctx.pseudonym }
+      ),
+    ]);
+
+    return (
+      (received?.deletedCount ?? 0) +
+      sent.modifiedCount +
+      accepted.modifiedCount
+    );
+  },
+});
+
+/**
+ * The user's memberships, and the invitations sent to their email address
+ */
+registerExportContributor({
+  name: 'organizations',
+
+  async collect(ctx) {
+    const memberships = await Membership.findByUser(ctx.userId);
+    const organizations = await Organization.find({
+      _id: { $in: memberships.map((membership) => membership.organizationId) },
+    });
+    const names = new Map(
+      organizations.map((organization) => [
+        (organization._id as unknown as string).toString(),
+        organization.name,
+      ])
+    );
+
+    const invitations = ctx.email
+      ? await Invitation.find({ email: ctx.email }).sort({ createdAt: 1 })
+      : [];
+
+    return {
+      memberships: memberships.map((membership) => ({
+        organizationId: membership.organizationId,
+        organizationName: names.get(membership.organizationId),
+        role: membership.role,
+        joinedAt: membership.createdAt,
+      })),
+      invitations: invitations.map((invitation) => ({
+        organizationId: invitation.organizationId,
+        role: invitation.role,
+        createdAt: invitation.createdAt,
+        acceptedAt: invitation.acceptedAt,
+        revokedAt: invitation.revokedAt,
+        expiresAt: invitation.expiresAt,
+      })),
+    };
+  },
+});
@@ -0,0 +1,148 @@
+import { Router } from 'express';
+import { organizationController } from './organization.controller';
+import { validate } from '../../core/middleware/validate';
+import {
+  createOrganizationSchema,
+  updateOrganizationSchema,
+  orgIdParamSchema,
+  memberParamSchema,
+  invitationParamSchema,
+  updateMemberSchema,
+  createInvitationSchema,
+  acceptInvitationSchema,
+} from './organization.schema';
+import {
+  requireAuth,
+  requireOrgRole,
+  requirePermission,
+} from '../../modules/auth/middleware';
+import { resolveOrganization } from '../../modules/auth/organization';
+import { requireEntitlement } from '../../modules/payments/entitlements';
+import { strictLimiter } from '../../core/middleware/rateLimiter';
+import { OrgRole } from '../../core/types';
+
+const router = Router();
+
+/**
+ * All organization routes require authentication
+ */
+router.use(requireAuth);
+
+// Accept an invitation (declared before /:orgId routes)
+router.post(
+  '/invitations/accept',
+  strictLimiter,
+  validate(acceptInvitationSchema, 'body'),
+  organizationController.acceptInvitation
+);
+
+// List the user's organizations
+router.get('/', organizationController.list);
+
+// Create an organization
+router.post(
+  '/',
+  requireEntitlement('organizations'),
+  strictLimiter,
+  validate(createOrganizationSchema, 'body'),
+  organizationController.create
+);
+
+/**
+ * Organization scoped routes - the caller must be a member
+ */
+
+// Get organization
+router.get(
+  '/:orgId',
+  validate(orgIdParamSchema, 'params'),
+  resolveOrganization(),
+  requirePermission('org:read'),
+  organizationController.getById
+);
+
+// Update organization
+router.patch(
+  '/:orgId',
+  validate(orgIdParamSchema, 'params'),
+  resolveOrganization(),
+  requirePermission('org:update'),
+  validate(updateOrganizationSchema, 'body'),
+  organizationController.update
+);
+
+// Delete organization (owners only)
+router.delete(
+  '/:orgId',
+  validate(orgIdParamSchema, 'params'),
+  resolveOrganization(),
+  requireOrgRole(OrgRole.OWNER),
+  organizationController.delete
+);
+
+// Leave organization
+router.post(
+  '/:orgId/leave',
+  validate(orgIdParamSchema, 'params'),
+  resolveOrganization(),
+  organizationController.leave
+);
+
+// List members
+router.get(
+  '/:orgId/members',
+  validate(orgIdParamSchema, 'params'),
+  resolveOrganization(),
+  requirePermission('members:read'),
+  organizationController.listMembers
+);
+
+// Change a member's role
+router.patch(
+  '/:orgId/members/:userId',
+  validate(memberParamSchema, 'params'),
+  resolveOrganization(),
+  requirePermission('members:update'),
+  validate(updateMemberSchema, 'body'),
+  organizationController.updateMember
+);
+
+// Remove a member
+router.delete(
+  '/:orgId/members/:userId',
+  validate(memberParamSchema, 'params'),
+  resolveOrganization(),
+  requirePermission('members:delete'),
+  organizationController.removeMember
+);
+
+// List pending invitations
+router.get(
+  '/:orgId/invitations',
+  validate(orgIdParamSchema, 'params'),
+  resolveOrganization(),
+  requirePermission('invitations:read'),
+  organizationController.listInvitations
+);
+
+// Invite a user
+router.post(
+  '/:orgId/invitations',
+  strictLimiter,
+  validate(orgIdParamSchema, 'params'),
+  resolveOrganization(),
+  requirePermission('invitations:create'),
+  validate(createInvitationSchema, 'body'),
+  organizationController.invite
+);
+
+// Revoke an invitation
+router.delete(
+  '/:orgId/invitations/:invitationId',
+  validate(invitationParamSchema, 'params'),
+  resolveOrganization(),
+  requirePermission('invitations:delete'),
+  organizationController.revokeInvitation
+);
+
+export default router;
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { commonSchemas } from '../../core/middleware/validate';
+import { OrgRole } from '../../core/types';
+
+/**
+ * Membership role enum
+ */
+export const OrgRoleSchema = z.nativeEnum(OrgRole);
+
+/**
+ * Create organization schema
+ */
+export const createOrganizationSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Name is required')
+    .max(100, 'Name cannot exceed 100 characters')
+    .trim(),
+  metadata: z.record(z.any()).optional(),
+});
+
+/**
+ * Update organization schema (partial)
+ */
+export const updateOrganizationSchema = createOrganizationSchema.partial();
+
+/**
+ * Organization ID param schema
+ */
+export const orgIdParamSchema = z.object({
+  orgId: commonSchemas.objectId,
+});
+
+/**
+ * Member param schema
+ */
+export const memberParamSchema = z.object({
+  orgId: commonSchemas.objectId,
+  userId: z.string().min(1),
+});
+
+/**
+ * Invitation param schema
+ */
+export const invitationParamSchema = z.object({
+  orgId: commonSchemas.objectId,
+  invitationId: commonSchemas.objectId,
+});
+
+/**
+ * Update member role schema
+ */
+export const updateMemberSchema = z.object({
+  role: OrgRoleSchema,
+});
+
+/**
+ * Create invitation schema
+ */
+export const createInvitationSchema = z.object({
+  email: commonSchemas.email.toLowerCase().trim(),
+  role: OrgRoleSchema.default(OrgRole.MEMBER),
+});
+
+/**
+ * Accept invitation schema
+ */
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+/**
+ * Type exports
+ */
+export type CreateOrganizationInput = z.infer<typeof createOrganizationSchema>;
+export type UpdateOrganizationInput = z.infer<typeof updateOrganizationSchema>;
+export type UpdateMemberInput = z.infer<typeof updateMemberSchema>;
+export type CreateInvitationInput = z.infer<typeof createInvitationSchema>;
@@ -0,0 +1,505 @@
+import {
+  Organization,
+  IOrganization,
+} from '../../database/mongodb/models/Organization';
+import {
+  Membership,
+  IMembership,
+} from '../../database/mongodb/models/Membership';
+import {
+  Invitation,
+  IInvitation,
+  INVITATION_TTL_DAYS,
+} from '../../database/mongodb/models/Invitation';
+import { User } from '../../database/mongodb/models/User';
+import { AuditLog } from '../../database/mongodb/models/AuditLog';
+import {
+  CreateOrganizationInput,
+  UpdateOrganizationInput,
+  CreateInvitationInput,
+} from './organization.schema';
+import {
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+  ValidationError,
+} from '../../core/types/errors';
+import { OrgRole } from '../../core/types';
+import { env } from '../../core/config/env';
+import { logger } from '../../core/config/logger';
+import { getEmailQueue } from '../../modules/jobs/queue';
+import { sendEmail } from '../../modules/email/service';
+import { serialize } from '../../modules/rbac/serializers';
+import { userSerializer } from '../user/user.serializer';
+
+/**
+ * Maximum number of organizations a user can create
+ */
+const MAX_OWNED_ORGANIZATIONS = 10;
+
+/**
+ * Organization service - Business logic layer
+ */
+export class OrganizationService {
+  /**
+   * Create an organization owned by the user
+   */
+  async create(
+    userId: string,
+    data: CreateOrganizationInput
+  ): Promise<IOrganization> {
+    const owned = await Organization.countDocuments({ ownerId: userId });
+    if (owned >= MAX_OWNED_ORGANIZATIONS) {
+      throw new ConflictError(
+        `You can own at most ${MAX_OWNED_ORGANIZATIONS} organizations`
+      );
+    }
+
+    const organization = await Organization.create({
+      ...data,
+      slug: await Organization.generateSlug(data.name),
+      ownerId: userId,
+    });
+    const organizationId = (organization._id as unknown as string).toString();
+
+    await Membership.create({
+      organizationId,
+      userId,
+      role: OrgRole.OWNER,
+    });
+
+    await AuditLog.log({
+      userId,
+      action: 'create',
+      resource: 'organization',
+      resourceId: organizationId,
+      metadata: { name: organization.name, slug: organization.slug },
+    });
+
+    logger.info('Organization created', { userId, organizationId });
+
+    return organization;
+  }
+
+  /**
+   * List the organizations a user belongs to, with their membership role
+   */
+  async listForUser(
+    userId: string
+  ): Promise<Array<Record<string, any> & { role: OrgRole }>> {
+    const memberships = await Membership.findByUser(userId);
+    const organizations = await Organization.find({
+      _id: { $in: memberships.map((m) => m.organizationId) },
+    });
+
+    const byId = new Map(
+      organizations.map((org) => [
+        (org._id as unknown as string).toString(),
+        org,
+      ])
+    );
+
+    return memberships
+      .filter((m) => byId.has(m.organizationId))
+      .map((m) => ({
+        ...byId.get(m.organizationId)!.toJSON(),
+        role: m.role,
+      }));
+  }
+
+  /**
+   * Get an organization by ID
+   */
+  async getById(organizationId: string): Promise<IOrganization> {
+    const organization = await Organization.findById(organizationId);
+
+    if (!organization) {
+      throw new NotFoundError('Organization not found');
+    }
+
+    return organization;
+  }
+
+  /**
+   * Update an organization
+   */
+  async update(
+    organizationId: string,
+    userId: string,
+    data: UpdateOrganizationInput
+  ): Promise<IOrganization> {
+    const organization = await this.getById(organizationId);
+    const before = organization.toObject();
+
+    Object.assign(organization, data);
+    await organization.save();
+
+    await AuditLog.log({
+      userId,
+      action: 'update',
+      resource: 'organization',
+      resourceId: organizationId,
+      changes: { before, after: organization.toObject() },
+    });
+
+    return organization;
+  }
+
+  /**
+   * Soft delete an organization and remove its memberships and invitations
+   */
+  async delete(organizationId: string, userId: string): Promise<void> {
+    const organization = await this.getById(organizationId);
+
+    await organization.softDelete();
+    await Promise.all([
+      Membership.deleteMany({ organizationId }),
+      Invitation.updateMany(
+        { organizationId, acceptedAt: null, revokedAt: null },
+        { revokedAt: new Date() }
+      ),
+    ]);
+
+    await AuditLog.log({
+      userId,
+      action: 'delete',
+      resource: 'organization',
+      resourceId: organizationId,
+    });
+
+    logger.info('Organization deleted', { userId, organizationId });
+  }
+
+  /**
+   * List members of an organization with basic user details
+   */
+  async listMembers(organizationId: string): Promise<Record<string, any>[]> {
+    const memberships = await Membership.find({ organizationId }).sort({
+      createdAt: 1,
+    });
+    const users = await User.find({
+      _id: { $in: memberships.map((m) => m.userId) },
+    }).select('email name profileImage');
+
+    const byId = new Map(
+      users.map((user) => [(user._id as unknown as string).toString(), user])
+    );
+
+    return memberships.map((membership) => {
+      const user = byId.get(membership.userId);
+      return {
+        ...membership.toJSON(),
+        // Fellow members see each other's member fields
+        user: user ? serialize(userSerializer, user, 'member') : null,
+      };
+    });
+  }
+
+  /**
+   * Change a member's role. Only owners can grant or remove ownership.
+   */
+  async updateMemberRole(
+    organizationId: string,
+    actor: { userId: string; role: string },
+    memberId: string,
+    role: OrgRole
+  ): Promise<IMembership> {
+    const membership = await this.getMembership(organizationId, memberId);
+
+    if (
+      (role === OrgRole.OWNER || membership.role === OrgRole.OWNER) &&
+      actor.role !== OrgRole.OWNER
+    ) {
+      throw new ForbiddenError('Only owners can change ownership');
+    }
+
+    if (membership.role === OrgRole.OWNER && role !== OrgRole.OWNER) {
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    const previousRole = membership.role;
+    membership.role = role;
+    await membership.save();
+
+    await AuditLog.log({
+      userId: actor.userId,
+      action: 'update',
+      resource: 'membership',
+      resourceId: (membership._id as unknown as string).toString(),
+      changes: { before: { role: previousRole }, after: { role } },
+      metadata: { organizationId, memberId },
+    });
+
+    return membership;
+  }
+
+  /**
+   * Remove a member from an organization
+   */
+  async removeMember(
+    organizationId: string,
+    actor: { userId: string; role: string },
+    memberId: string
+  ): Promise<void> {
+    const membership = await this.getMembership(organizationId, memberId);
+
+    if (membership.role === OrgRole.OWNER) {
+      if (actor.role !== OrgRole.OWNER) {
+        throw new ForbiddenError('Only owners can remove an owner');
+      }
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    await membership.deleteOne();
+
+    await AuditLog.log({
+      userId: actor.userId,
+      action: 'delete',
+      resource: 'membership',
+      resourceId: (membership._id as unknown as string).toString(),
+      metadata: { organizationId, memberId, role: membership.role },
+    });
+  }
+
+  /**
+   * Leave an organization
+   */
+  async leave(organizationId: string, userId: string): Promise<void> {
+    const membership = await this.getMembership(organizationId, userId);
+
+    if (membership.role === OrgRole.OWNER) {
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    await membership.deleteOne();
+
+    await AuditLog.log({
+      userId,
+      action: 'leave',
+      resource: 'membership',
+      resourceId: (membership._id as unknown as string).toString(),
+      metadata: { organizationId },
+    });
+  }
+
+  /**
+   * List pending invitations of an organization
+   */
+  async listInvitations(organizationId: string): Promise<IInvitation[]> {
+    return Invitation.find({
+      organizationId,
+      acceptedAt: null,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Invite someone to an organization by email
+   */
+  async invite(
+    organizationId: string,
+    actor: { userId: string; role: string },
+    data: CreateInvitationInput
+  ): Promise<IInvitation> {
+    if (data.role === OrgRole.OWNER && actor.role !== OrgRole.OWNER) {
+      throw new ForbiddenError('Only owners can invite owners');
+    }
+
+    const organization = await this.getById(organizationId);
+
+    const existingUser = await User.findByEmail(data.email);
+    if (existingUser) {
+      const existingMembership = await Membership.findMembership(
+        organizationId,
+        (existingUser._id as unknown as string).toString()
+      );
+      if (existingMembership) {
+        throw new ConflictError('User is already a member');
+      }
+    }
+
+    // Replace any pending invitation for the same email
+    await Invitation.updateMany(
+      { organizationId, email: data.email, acceptedAt: null, revokedAt: null },
+      { revokedAt: new Date() }
+    );
+
+    const { invitation, token } = await Invitation.generate({
+      organizationId,
+      email: data.email,
+      role: data.role,
+      invitedBy: actor.userId,
+    });
+
+    await this.sendInvitationEmail(organization, data.email, token);
+
+    await AuditLog.log({
+      userId: actor.userId,
+      action: 'invite',
+      resource: 'invitation',
+      resourceId: (invitation._id as unknown as string).toString(),
+      metadata: { organizationId, email: data.email, role: data.role },
+    });
+
+    return invitation;
+  }
+
+  /**
+   * Revoke a pending invitation
+   */
+  async revokeInvitation(
+    organizationId: string,
+    invitationId: string,
+    userId: string
+  ): Promise<void> {
+    const invitation = await Invitation.findOne({
+      _id: invitationId,
+      organizationId,
+    });
+
+    if (!invitation || !invitation.isPending) {
+      throw new NotFoundError('Invitation not found');
+    }
+
+    invitation.revokedAt = new Date();
+    await invitation.save();
+
+    await AuditLog.log({
+      userId,
+      action: 'revoke',
+      resource: 'invitation',
+      resourceId: invitationId,
+      metadata: { organizationId },
+    });
+  }
+
+  /**
+   * Accept an invitation. The invitation must have been sent to the
+   * authenticated user's email address, and the user must have verified it.
+   */
+  async acceptInvitation(
+    token: string,
+    user: { id: string; email: string }
+  ): Promise<IMembership> {
+    const invitation = await Invitation.findPendingByToken(token);
+
+    if (!invitation) {
+      throw new NotFoundError('Invitation not found or expired');
+    }
+
+    if (invitation.email !== user.email.toLowerCase()) {
+      throw new ForbiddenError('This invitation was sent to another email');
+    }
+
+    // Anyone can sign up with an address; only a verified one proves the
+    // invitation reached them
+    const account = await User.findById(user.id).select('emailVerified');
+    if (!account?.emailVerified) {
+      throw new ForbiddenError(
+        'Verify your email address before accepting the invitation'
+      );
+    }
+
+    const organization = await Organization.findById(invitation.organizationId);
+    if (!organization) {
+      throw new NotFoundError('Organization not found');
+    }
+
+    if (await Membership.findMembership(invitation.organizationId, user.id)) {
+      throw new ConflictError('You are already a member');
+    }
+
+    const membership = await Membership.create({
+      organizationId: invitation.organizationId,
+      userId: user.id,
+      role: invitation.role,
+      invitedBy: invitation.invitedBy,
+    });
+
+    invitation.acceptedAt = new Date();
+    invitation.acceptedBy = user.id;
+    await invitation.save();
+
+    await AuditLog.log({
+      userId: user.id,
+      action: 'accept',
+      resource: 'invitation',
+      resourceId: (invitation._id as unknown as string).toString(),
+      metadata: {
+        organizationId: invitation.organizationId,
+        role: invitation.role,
+      },
+    });
+
+    return membership;
+  }
+
+  /**
+   * Get a membership or throw
+   */
+  private async getMembership(
+    organizationId: string,
+    userId: string
+  ): Promise<IMembership> {
+    const membership = await Membership.findMembership(organizationId, userId);
+
+    if (!membership) {
+      throw new NotFoundError('Member not found');
+    }
+
+    return membership;
+  }
+
+  /**
+   * Every organization must keep at least one owner
+   */
+  private async assertNotLastOwner(organizationId: string): Promise<void> {
+    if ((await Membership.countOwners(organizationId)) <= 1) {
+      throw new ValidationError('An organization must have at least one owner');
+    }
+  }
+
+  /**
+   * Email the invitation link, through the job queue when available
+   */
+  private async sendInvitationEmail(
+    organization: IOrganization,
+    email: string,
+    token: string
+  ): Promise<void> {
+    const baseUrl = env.FRONTEND_URL.split(',')[0]!.trim();
+    const link = `${baseUrl}/invitations/accept?token=${encodeURIComponent(token)}`;
+    const name = organization.name.replace(
+      /[&<>"']/g,
+      (char) => `&#${char.charCodeAt(0)};`
+    );
+    const payload = {
+      to: email,
+      // The organization's owner is billed for its emails
+      userId: organization.ownerId,
+      subject: `You're invited to join ${organization.name}`,
+      html: `<p>You've been invited to join <strong>${name}</strong>.</p><p><a href="${link}">Accept the invitation</a>. The link expires in ${INVITATION_TTL_DAYS} days.</p>`,
+      text: `You've been invited to join ${organization.name}. Accept the invitation: ${link} (expires in ${INVITATION_TTL_DAYS} days)`,
+    };
+
+    try {
+      const emailQueue = getEmailQueue();
+      if (emailQueue) {
+        await emailQueue.add('organization-invitation', payload);
+      } else {
+        await sendEmail(payload);
+      }
+    } catch (error) {
+      // The invitation stays valid; it can be re-sent by inviting again
+      logger.error('Failed to send invitation email', {
+        error,
+        organizationId: organization._id,
+        email,
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const organizationService = new OrganizationService();
@@ -0,0 +1,120 @@
+import { Router } from 'express';
+import { userController } from './user.controller';
+import { validate } from '../../core/middleware/validate';
+import {
+  listUsersQuerySchema,
+  userIdParamSchema,
+  changeRoleSchema,
+  suspendUserSchema,
+  restrictUserSchema,
+  userActionSchema,
+} from './user.schema';
+import {
+  requireAuth,
+  requirePlatformRole,
+  rejectApiKeyPrincipal,
+} from '../../modules/auth/middleware';
+import { disallowImpersonation } from '../../modules/auth/impersonation';
+
+const router = Router();
+
+/**
+ * User administration is limited to platform admins acting as themselves
+ */
+router.use(requireAuth, requirePlatformRole('admin'));
+
+// List and search users
+router.get(
+  '/',
+  validate(listUsersQuerySchema, 'query'),
+  userController.listUsers
+);
+
+// User counts by status, role and subscription
+router.get('/stats', userController.getStats);
+
+// Get a user, including soft-deleted ones
+router.get(
+  '/:userId',
+  validate(userIdParamSchema, 'params'),
+  userController.getUser
+);
+
+/**
+ * Account changes are made by signed-in admins only
+ */
+router.use(rejectApiKeyPrincipal, disallowImpersonation);
+
+// Change a user's platform role
+router.patch(
+  '/:userId/role',
+  validate(userIdParamSchema, 'params'),
+  validate(changeRoleSchema, 'body'),
+  userController.changeRole
+);
+
+// Suspend a user
+router.post(
+  '/:userId/suspend',
+  validate(userIdParamSchema, 'params'),
+  validate(suspendUserSchema, 'body'),
+  userController.suspendUser
+);
+
+// Lift a user's suspension
+router.post(
+  '/:userId/unsuspend',
+  validate(userIdParamSchema, 'params'),
+  validate(userActionSchema, 'body'),
+  userController.unsuspendUser
+);
+
+// Ban a user
+router.post(
+  '/:userId/ban',
+  validate(userIdParamSchema, 'params'),
+  validate(restrictUserSchema, 'body'),
+  userController.banUser
+);
+
+// Lift a user's ban
+router.post(
+  '/:userId/unban',
+  validate(userIdParamSchema, 'params'),
+  validate(userActionSchema, 'body'),
+  userController.unbanUser
+);
+
+// Make a user's account read-only (e.g. billing hold)
+router.post(
+  '/:userId/read-only',
+  validate(userIdParamSchema, 'params'),
+  validate(restrictUserSchema, 'body'),
+  userController.setReadOnly
+);
+
+// Restore a read-only user's write access
+router.delete(
+  '/:userId/read-only',
+  validate(userIdParamSchema, 'params'),
+  validate(userActionSchema, 'body'),
+  userController.clearReadOnly
+);
+
+// Soft-delete a user
+router.delete(
+  '/:userId',
+  validate(userIdParamSchema, 'params'),
+  validate(userActionSchema, 'body'),
+  userController.deleteUser
+);
+
+// Restore a soft-deleted user
+router.post(
+  '/:userId/restore',
+  validate(userIdParamSchema, 'params'),
+  validate(userActionSchema, 'body'),
+  userController.restoreUser
+);
+
+export default router;
@@ -0,0 +1,355 @@
+import { Request, Response } from 'express';
+import { userService } from './user.service';
+import {
+  accepted,
+  success,
+  paginated,
+  updated,
+  deleted,
+} from '../../core/utils/apiResponse';
+import { ListSessionsQuery, ListUsersQuery } from './user.schema';
+import { asyncHandler } from '../../core/middleware/asyncHandler';
+import { getPolicySubject } from '../../modules/auth/middleware';
+import { serializeFor, serializeAllFor } from '../../modules/rbac/serializers';
+import { userSerializer } from './user.serializer';
+import { IDataExport } from '../../database/mongodb/models/DataExport';
+
+/**
+ * Send an export bundle as a file download
+ */
+function sendExportBundle(res: Response, dataExport: IDataExport): void {
+  const date = (dataExport.completedAt ?? new Date())
+    .toISOString()
+    .slice(0, 10);
+  const extension = dataExport.format === 'zip' ? 'zip' : 'json';
+
+  res
+    .status(200)
+    .set({
+      'Content-Type':
+        dataExport.format === 'zip' ? 'application/zip' : 'application/json',
+      'Content-Disposition': `attachment; filename="data-export-${date}.${extension}"`,
+      'Cache-Control': 'no-store',
+    })
+    .send(dataExport.data);
+}
+
+/**
+ * User controller - HTTP request handlers
+ */
+export class UserController {
+  /**
+   * Get the current user's profile
+   * GET /api/users/me
+   */
+  getMe = asyncHandler(async (req: Request, res: Response) => {
+    const user = await userService.getProfile(req.user!.id);
+
+    res.json(success(serializeFor(req, userSerializer, user)));
+  });
+
+  /**
+   * Get the current user's resolved permissions, roles and plan
+   * GET /api/users/me/permissions
+   */
+  getMyPermissions = asyncHandler(async (req: Request, res: Response) => {
+    const permissions = await userService.getPermissions(getPolicySubject(req));
+
+    res.json(success(permissions));
+  });
+
+  /**
+   * Update the current user's profile
+   * PATCH /api/users/me
+   */
+  updateMe = asyncHandler(async (req: Request, res: Response) => {
+    const user = await userService.updateProfile(req.user!.id, req.body);
+
+    res.json(updated(serializeFor(req, userSerializer, user)));
+  });
+
+  /**
+   * List the current user's sessions
+   * GET /api/users/me/sessions
+   */
+  listSessions = asyncHandler(async (req: Request, res: Response) => {
+    const result = await userService.listSessions(
+      req.user!.id,
+      req.user!.sessionId,
+      req.query as unknown as ListSessionsQuery
+    );
+
+    res.json(paginated(result.data, result.total, result.page, result.limit));
+  });
+
+  /**
+   * End one of the current user's sessions
+   * DELETE /api/users/me/sessions/:sessionId
+   */
+  revokeSession = asyncHandler(async (req: Request, res: Response) => {
+    await userService.revokeSession(req.user!.id, req.params['sessionId']!);
+
+    res.json(deleted('Session ended successfully'));
+  });
+
+  /**
+   * Delete the current user's account
+   * DELETE /api/users/me
+   */
+  deleteMe = asyncHandler(async (req: Request, res: Response) => {
+    const request = await userService.requestDeletion(req.user!.id);
+
+    res
+      .status(202)
+      .json(
+        accepted(
+          'Account deletion scheduled',
+          (request._id as unknown as string).toString()
+        )
+      );
+  });
+
+  /**
+   * Request a copy of the current user's data
+   * POST /api/users/me/export
+   */
+  requestExport = asyncHandler(async (req: Request, res: Response) => {
+    const dataExport = await userService.requestExport(req.user!.id, req.body);
+
+    res
+      .status(202)
+      .json(
+        accepted(
+          'Data export started, you will be emailed when it is ready',
+          (dataExport._id as unknown as string).toString()
+        )
+      );
+  });
+
+  /**
+   * List the current user's data exports
+   * GET /api/users/me/exports
+   */
+  listExports = asyncHandler(async (req: Request, res: Response) => {
+    const exports = await userService.listExports(req.user!.id);
+
+    res.json(success(exports));
+  });
+
+  /**
+   * Download one of the current user's exports
+   * GET /api/users/me/exports/:exportId/download
+   */
+  downloadExport = asyncHandler(async (req: Request, res: Response) => {
+    const dataExport = await userService.getExport(
+      req.user!.id,
+      req.params['exportId']!
+    );
+
+    sendExportBundle(res, dataExport);
+  });
+
+  /**
+   * Download an export through the emailed link
+   * GET /api/users/exports/download?token=
+   */
+  downloadExportByToken = asyncHandler(async (req: Request, res: Response) => {
+    const dataExport = await userService.getExportByToken(
+      req.query['token'] as string
+    );
+
+    sendExportBundle(res, dataExport);
+  });
+
+  /**
+   * List users
+   * GET /api/admin/users
+   */
+  listUsers = asyncHandler(async (req: Request, res: Response) => {
+    const result = await userService.list(
+      req.query as unknown as ListUsersQuery
+    );
+
+    res.json(
+      paginated(
+        serializeAllFor(req, userSerializer, result.data),
+        result.total,
+        result.page,
+        result.limit
+      )
+    );
+  });
+
+  /**
+   * Get user statistics
+   * GET /api/admin/users/stats
+   */
+  getStats = asyncHandler(async (_req: Request, res: Response) => {
+    const stats = await userService.getStats();
+
+    res.json(success(stats));
+  });
+
+  /**
+   * Get a user
+   * GET /api/admin/users/:userId
+   */
+  getUser = asyncHandler(async (req: Request, res: Response) => {
+    const user = await userService.getById(req.params['userId']!);
+
+    res.json(success(serializeFor(req, userSerializer, user)));
+  });
+
+  /**
+   * Change a user's role
+   * PATCH /api/admin/users/:userId/role
+   */
+  changeRole = asyncHandler(async (req: Request, res: Response) => {
+    const user = await userService.changeRole(
+      req.user!,
+      req.params['userId']!,
+      req.body
+    );
+
+    res.json(updated(serializeFor(req, userSerializer, user)));
+  });
+
+  /**
+   * Suspend a user
+   * POST /api/admin/users/:userId/suspend
+   */
+  suspendUser = asyncHandler(async (req: Request, res: Response) => {
+    const user = await userService.suspend(
+      req.user!,
+      req.params['userId']!,
+      req.body
+    );
+
+    res.json(
+      success(serializeFor(req, userSerializer, user), {
+        message: 'User suspended',
+      })
+    );
+  });
+
+  /**
+   * Lift a user's suspension
+   * POST /api/admin/users/:userId/unsuspend
+   */
+  unsuspendUser = asyncHandler(async (req: Request, res: Response) => {
+    const user = await userService.unsuspend(
+      req.user!,
+      req.params['userId']!,
+      req.body
+    );
+
+    res.json(
+      success(serializeFor(req, userSerializer, user), {
+        message: 'User unsuspended',
+      })
+    );
+  });
+
+  /**
+   * Ban a user
+   * POST /api/admin/users/:userId/ban
+   */
+  banUser = asyncHandler(async (req: Request, res: Response) => {
+    const user = await userService.ban(
+      req.user!,
+      req.params['userId']!,
+      req.body
+    );
+
+    res.json(
+      success(serializeFor(req, userSerializer, user), {
+        message: 'User banned',
+      })
+    );
+  });
+
+  /**
+   * Lift a user's ban
+   * POST /api/admin/users/:userId/unban
+   */
+  unbanUser = asyncHandler(async (req: Request, res: Response) => {
+    const user = await userService.unban(
+      req.user!,
+      req.params['userId']!,
+      req.body
+    );
+
+    res.json(
+      success(serializeFor(req, userSerializer, user), {
+        message: 'User unbanned',
+      })
+    );
+  });
+
+  /**
+   * Make a user's account read-only
+   * POST /api/admin/users/:userId/read-only
+   */
+  setReadOnly = asyncHandler(async (req: Request, res: Response) => {
+    const user = await userService.setReadOnly(
+      req.user!,
+      req.params['userId']!,
+      req.body
+    );
+
+    res.json(
+      success(serializeFor(req, userSerializer, user), {
+        message: 'User is now read-only',
+      })
+    );
+  });
+
+  /**
+   * Restore a read-only user's write access
+   * DELETE /api/admin/users/:userId/read-only
+   */
+  clearReadOnly = asyncHandler(async (req: Request, res: Response) => {
+    const user = await userService.clearReadOnly(
+      req.user!,
+      req.params['userId']!,
+      req.body
+    );
+
+    res.json(
+      success(serializeFor(req, userSerializer, user), {
+        message: 'User write access restored',
+      })
+    );
+  });
+
+  /**
+   * Soft-delete a user
+   * DELETE /api/admin/users/:userId
+   */
+  deleteUser = asyncHandler(async (req: Request, res: Response) => {
+    await userService.softDelete(req.user!, req.params['userId']!, req.body);
+
+    res.json(deleted('User deleted successfully'));
+  });
+
+  /**
+   * Restore a soft-deleted user
+   * POST /api/admin/users/:userId/restore
+   */
+  restoreUser = asyncHandler(async (req: Request, res: Response) => {
+    const user = await userService.restore(
+      req.user!,
+      req.params['userId']!,
+      req.body
+    );
+
+    res.json(
+      success(serializeFor(req, userSerializer, user), {
+        message: 'User restored',
+      })
+    );
+  });
+}
+
+// Export singleton instance
+export const userController = new UserController();
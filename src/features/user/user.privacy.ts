@@ -0,0 +1,14 @@
+import { User } from '../../database/mongodb/models/User';
+import { registerExportContributor } from '../../modules/privacy/registry';
+
+/**
+ * The user's profile, including the billing references stored on it
+ */
+registerExportContributor({
+  name: 'profile',
+
+  async collect(ctx) {
+    const user = await User.findById(ctx.userId);
+    return user?.toJSON() ?? null;
+  },
+});
@@ -0,0 +1,102 @@
+import { Router } from 'express';
+import { userController } from './user.controller';
+import { validate } from '../../core/middleware/validate';
+import {
+  updateProfileSchema,
+  listSessionsQuerySchema,
+  sessionIdParamSchema,
+  createDataExportSchema,
+  exportIdParamSchema,
+  downloadExportQuerySchema,
+} from './user.schema';
+import {
+  requireAuth,
+  rejectApiKeyPrincipal,
+} from '../../modules/auth/middleware';
+import { disallowImpersonation } from '../../modules/auth/impersonation';
+import { requireRecentAuth } from '../../modules/auth/stepUp';
+import { strictLimiter } from '../../core/middleware/rateLimiter';
+import { publicRoute } from '../../core/utils/routeManifest';
+
+const router = Router();
+
+// Download an export through the emailed link; the token is the credential
+// (declared before requireAuth)
+router.get(
+  '/exports/download',
+  publicRoute('The emailed download token is the credential'),
+  strictLimiter,
+  validate(downloadExportQuerySchema, 'query'),
+  userController.downloadExportByToken
+);
+
+/**
+ * All other user routes require authentication
+ */
+router.use(requireAuth);
+
+// Get the current user's profile
+router.get('/me', userController.getMe);
+
+// Get the current user's resolved permissions, roles and plan
+router.get('/me/permissions', userController.getMyPermissions);
+
+// Update the current user's name, metadata or preferences
+router.patch(
+  '/me',
+  rejectApiKeyPrincipal,
+  disallowImpersonation,
+  validate(updateProfileSchema, 'body'),
+  userController.updateMe
+);
+
+// List the devices the current user is signed in on (and login history)
+router.get(
+  '/me/sessions',
+  disallowImpersonation,
+  validate(listSessionsQuerySchema, 'query'),
+  userController.listSessions
+);
+
+// Sign one of the current user's devices out
+router.delete(
+  '/me/sessions/:sessionId',
+  rejectApiKeyPrincipal,
+  disallowImpersonation,
+  validate(sessionIdParamSchema, 'params'),
+  userController.revokeSession
+);
+
+// Delete the current user's account (GDPR erasure); needs a recent sign-in
+router.delete(
+  '/me',
+  rejectApiKeyPrincipal,
+  disallowImpersonation,
+  requireRecentAuth(),
+  strictLimiter,
+  userController.deleteMe
+);
+
+// Request a copy of the current user's data (GDPR access request)
+router.post(
+  '/me/export',
+  rejectApiKeyPrincipal,
+  disallowImpersonation,
+  strictLimiter,
+  validate(createDataExportSchema, 'body'),
+  userController.requestExport
+);
+
+// List the current user's data exports
+router.get('/me/exports', disallowImpersonation, userController.listExports);
+
+// Download one of the current user's data exports
+router.get(
+  '/me/exports/:exportId/download',
+  rejectApiKeyPrincipal,
+  disallowImpersonation,
+  validate(exportIdParamSchema, 'params'),
+  userController.downloadExport
+);
+
+export default router;
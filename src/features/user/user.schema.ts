@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { commonSchemas } from '../../core/middleware/validate';
+import { roleNameSchema } from '../../modules/rbac/schema';
+
+/**
+ * Largest serialised size of the metadata and preferences objects
+ */
+const MAX_RECORD_BYTES = 8 * 1024;
+
+/**
+ * Free-form settings object. Keys set to null are removed on update.
+ */
+const recordPatchSchema = z
+  .record(z.any())
+  .refine(
+    (record) => JSON.stringify(record).length <= MAX_RECORD_BYTES,
+    `Cannot exceed ${MAX_RECORD_BYTES} bytes`
+  );
+
+/**
+ * Update the current user's profile
+ */
+export const updateProfileSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, 'Name cannot be empty')
+      .max(100, 'Name cannot exceed 100 characters')
+      .trim(),
+    metadata: recordPatchSchema,
+    preferences: recordPatchSchema,
+  })
+  .partial()
+  .strict()
+  .refine(
+    (data) => Object.keys(data).length > 0,
+    'At least one field is required'
+  );
+
+/**
+ * Query params schema for the current user's sessions
+ */
+export const listSessionsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  includeEnded: z
+    .string()
+    .transform((val) => val === 'true')
+    .optional(),
+});
+
+/**
+ * Session ID param schema
+ */
+export const sessionIdParamSchema = z.object({
+  sessionId: commonSchemas.objectId,
+});
+
+/**
+ * Query params schema for the admin user list
+ */
+export const listUsersQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  search: z.string().trim().min(1).max(100).optional(),
+  role: roleNameSchema.optional(),
+  status: z
+    .enum(['active', 'suspended', 'banned', 'read_only', 'deleted'])
+    .optional(),
+  sortBy: z.enum(['createdAt', 'lastLoginAt', 'email']).default('createdAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+});
+
+/**
+ * User ID param schema
+ */
+export const userIdParamSchema = z.object({
+  userId: commonSchemas.objectId,
+});
+
+/**
+ * Change a user's platform role (a built-in or custom role)
+ */
+export const changeRoleSchema = z.object({
+  role: roleNameSchema,
+});
+
+/**
+ * Reason given for an admin action on an account
+ */
+const reasonSchema = z
+  .string()
+  .max(500, 'Reason cannot exceed 500 characters')
+  .trim();
+
+/**
+ * Suspend a user, optionally until a date
+ */
+export const suspendUserSchema = z.object({
+  reason: reasonSchema.min(3, 'A reason is required'),
+  until: z.coerce
+    .date()
+    .refine(
+      (date) => date.getTime() > Date.now(),
+      'Suspension end must be in the future'
+    )
+    .optional(),
+});
+
+/**
+ * Ban a user or make their account read-only
+ */
+export const restrictUserSchema = z.object({
+  reason: reasonSchema.min(3, 'A reason is required'),
+});
+
+/**
+ * Delete, restore or unsuspend a user
+ */
+export const userActionSchema = z.object({
+  reason: reasonSchema.optional(),
+});
+
+/**
+ * Request a personal data export
+ */
+export const createDataExportSchema = z.object({
+  format: z.enum(['json', 'zip']).default('zip'),
+});
+
+/**
+ * Export ID param schema
+ */
+export const exportIdParamSchema = z.object({
+  exportId: commonSchemas.objectId,
+});
+
+/**
+ * Download an export through the emailed link
+ */
+export const downloadExportQuerySchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+// Type exports
+export type CreateDataExportInput = z.infer<typeof createDataExportSchema>;
+export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
+export type ListSessionsQuery = z.infer<typeof listSessionsQuerySchema>;
+export type ListUsersQuery = z.infer<typeof listUsersQuerySchema>;
+export type ChangeRoleInput = z.infer<typeof changeRoleSchema>;
+export type SuspendUserInput = z.infer<typeof suspendUserSchema>;
+export type RestrictUserInput = z.infer<typeof restrictUserSchema>;
+export type UserActionInput = z.infer<typeof userActionSchema>;
@@ -0,0 +1,50 @@
+import { IUser } from '../../database/mongodb/models/User';
+import { defineSerializer } from '../../modules/rbac/serializers';
+
+/**
+ * Fields of a user account each audience sees. Members of a shared
+ * organization see who someone is; the user sees their own account;
+ * provider and billing ids and moderation history are for admins.
+ */
+export const userSerializer = defineSerializer<IUser>({
+  name: 'user',
+
+  ownerId: (user) => (user._id as unknown as string).toString(),
+
+  adminPermission: 'users:update',
+
+  fields: {
+    id: 'public',
+    name: 'public',
+    profileImage: 'public',
+    email: 'member',
+    role: 'owner',
+    subscription: 'owner',
+    metadata: 'owner',
+    preferences: 'owner',
+    emailVerified: 'owner',
+    lastLoginAt: 'owner',
+    suspendedUntil: 'owner',
+    suspensionReason: 'owner',
+    readOnlyReason: 'owner',
+    isSuspended: 'owner',
+    isReadOnly: 'owner',
+    isActive: 'owner',
+    isPro: 'owner',
+    isAdmin: 'owner',
+    createdAt: 'owner',
+    updatedAt: 'owner',
+    clerkId: 'admin',
+    stripeCustomerId: 'admin',
+    suspendedAt: 'admin',
+    suspendedBy: 'admin',
+    bannedAt: 'admin',
+    banReason: 'admin',
+    bannedBy: 'admin',
+    readOnlyAt: 'admin',
+    readOnlyBy: 'admin',
+    deletedAt: 'admin',
+    isDeleted: 'admin',
+    isBanned: 'admin',
+  },
+});
@@ -0,0 +1,707 @@
+import { User, IUser } from '../../database/mongodb/models/User';
+import { AuditLog } from '../../database/mongodb/models/AuditLog';
+import {
+  LoginSession,
+  ILoginSession,
+} from '../../database/mongodb/models/LoginSession';
+import {
+  ErasureRequest,
+  IErasureRequest,
+} from '../../database/mongodb/models/ErasureRequest';
+import { IDataExport } from '../../database/mongodb/models/DataExport';
+import { AuthenticatedUser } from '../../core/types';
+import {
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+} from '../../core/types/errors';
+import { logger } from '../../core/config/logger';
+import { invalidateIdentity } from '../../modules/auth/identityCache';
+import { revokeUserSessions } from '../../modules/auth/revocation';
+import { assertRoleExists } from '../../modules/rbac/roles';
+import {
+  ensureRolesLoaded,
+  getInheritedRoles,
+} from '../../modules/rbac/roleCache';
+import {
+  getGrantedPermissions,
+  getOrganizationPermissions,
+  PolicySubject,
+} from '../../modules/rbac/policy';
+import { disconnectUser } from '../../modules/realtime/server';
+import {
+  listLoginSessions,
+  revokeLoginSession,
+} from '../../modules/auth/sessions';
+import { requestErasure } from '../../modules/privacy/erasure';
+import { getPlan } from '../../modules/payments/plans';
+import {
+  requestDataExport,
+  listDataExports,
+  getExportBundle,
+} from '../../modules/privacy/export';
+import {
+  CreateDataExportInput,
+  UpdateProfileInput,
+  ListSessionsQuery,
+  ListUsersQuery,
+  ChangeRoleInput,
+  SuspendUserInput,
+  RestrictUserInput,
+  UserActionInput,
+} from './user.schema';
+
+/**
+ * Fields recorded in the audit trail of account changes
+ */
+const AUDITED_FIELDS = [
+  'name',
+  'metadata',
+  'preferences',
+  'role',
+  'suspendedAt',
+  'suspendedUntil',
+  'suspensionReason',
+  'bannedAt',
+  'banReason',
+  'readOnlyAt',
+  'readOnlyReason',
+  'deletedAt',
+] as const;
+
+/**
+ * Copy the audited fields of a user, for before/after audit changes
+ */
+function snapshot(user: IUser): Record<string, unknown> {
+  const data = user.toObject();
+  return Object.fromEntries(
+    AUDITED_FIELDS.map((field) => [field, data[field] ?? null])
+  );
+}
+
+/**
+ * Apply a partial update to a settings object: keys set to null are
+ * removed, other keys are replaced
+ */
+function mergeRecord(
+  current: Record<string, any> | undefined,
+  patch: Record<string, any>
+): Record<string, any> {
+  const merged = { ...(current ?? {}) };
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete merged[key];
+    } else {
+      merged[key] = value;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Escape a string for use in a regular expression
+ */
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * User service - Business logic layer for user accounts
+ */
+export class UserService {
+  /**
+   * Get the current user's profile
+   */
+  async getProfile(userId: string): Promise<IUser> {
+    const user = await User.findById(userId);
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    return user;
+  }
+
+  /**
+   * What the current user may do: their role and the roles it inherits,
+   * the resolved platform permission set (role and own permissions), the
+   * permissions their membership grants within the active organization, and
+   * their plan with its features and limits. Permissions of API keys are
+   * further limited to `scopes`.
+   */
+  async getPermissions(subject: PolicySubject): Promise<{
+    role: string;
+    inheritedRoles: string[];
+    organizationRole?: string;
+    permissions: string[];
+    organizationPermissions?: string[];
+    scopes?: string[];
+    plan: {
+      subscription: string;
+      id: string;
+      features: string[];
+      limits: Record<string, number | null>;
+    };
+  }> {
+    const user = await this.getProfile(subject.id!);
+    const plan = getPlan(user.subscription);
+    await ensureRolesLoaded();
+
+    return {
+      role: subject.role,
+      inheritedRoles: getInheritedRoles(subject.role),
+      ...(subject.organizationRole && {
+        organizationRole: subject.organizationRole,
+      }),
+      permissions: [...new Set(getGrantedPermissions(subject))].sort(),
+      ...(subject.organizationRole && {
+        organizationPermissions: [
+          ...getOrganizationPermissions(subject),
+        ].sort(),
+      }),
+      ...(subject.scopes && { scopes: subject.scopes }),
+      plan: {
+        subscription: user.subscription,
+        id: plan.id,
+        features: plan.features,
+        limits: plan.limits,
+      },
+    };
+  }
+
+  /**
+   * Update the current user's name, metadata or preferences. Metadata and
+   * preferences are merged into the stored objects.
+   */
+  async updateProfile(
+    userId: string,
+    data: UpdateProfileInput
+  ): Promise<IUser> {
+    const user = await this.getProfile(userId);
+    const before = snapshot(user);
+
+    if (data.name !== undefined) user.name = data.name;
+    if (data.metadata) {
+      user.metadata = mergeRecord(user.metadata, data.metadata);
+    }
+    if (data.preferences) {
+      user.preferences = mergeRecord(user.preferences, data.preferences);
+    }
+
+    await user.save();
+    // The cached identity carries the user's metadata
+    await invalidateIdentity(user.clerkId);
+
+    await AuditLog.log({
+      userId,
+      userEmail: user.email,
+      action: 'update',
+      resource: 'user',
+      resourceId: userId,
+      changes: { before, after: snapshot(user) },
+    });
+
+    return user;
+  }
+
+  /**
+   * List the devices the user is signed in on, flagging the session of the
+   * current request. Ended sessions are included on request (login history).
+   */
+  async listSessions(
+    userId: string,
+    currentSessionId: string | undefined,
+    query: ListSessionsQuery
+  ): Promise<{
+    data: (Record<string, any> & { current: boolean })[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const { page, limit, includeEnded } = query;
+
+    const { data, total } = await listLoginSessions(userId, {
+      includeEnded: includeEnded ?? false,
+      limit,
+      skip: (page - 1) * limit,
+    });
+
+    return {
+      data: data.map((session: ILoginSession) => ({
+        ...session.toJSON(),
+        current: session.sessionId === currentSessionId,
+      })),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Sign one of the user's devices out
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    await revokeLoginSession(userId, sessionId);
+  }
+
+  /**
+   * Schedule the erasure of the user's account and data. Access is cut as
+   * soon as the erasure job runs; data is purged after the grace period.
+   */
+  async requestDeletion(userId: string): Promise<IErasureRequest> {
+    return requestErasure({ userId, source: 'self', requestedBy: userId });
+  }
+
+  /**
+   * Start a personal data export. The user is emailed a download link when
+   * the bundle is ready.
+   */
+  async requestExport(
+    userId: string,
+    data: CreateDataExportInput
+  ): Promise<IDataExport> {
+    return requestDataExport(userId, data.format);
+  }
+
+  /**
+   * List the user's data exports
+   */
+  async listExports(userId: string): Promise<IDataExport[]> {
+    return listDataExports(userId);
+  }
+
+  /**
+   * Get one of the user's ready exports with its bundle
+   */
+  async getExport(userId: string, exportId: string): Promise<IDataExport> {
+    return getExportBundle({ userId, exportId });
+  }
+
+  /**
+   * Get a ready export with its bundle from an emailed download token
+   */
+  async getExportByToken(token: string): Promise<IDataExport> {
+    return getExportBundle({ token });
+  }
+
+  /**
+   * List users with search, filters and pagination (admins)
+   */
+  async list(query: ListUsersQuery): Promise<{
+    data: IUser[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const { page, limit, search, role, status, sortBy, order } = query;
+
+    const filter: Record<string, any> = {
+      deletedAt: status === 'deleted' ? { $ne: null } : null,
+    };
+
+    const conditions: Record<string, any>[] = [];
+    const suspended = {
+      suspendedAt: { $ne: null },
+      $or: [{ suspendedUntil: null }, { suspendedUntil: { $gt: new Date() } }],
+    };
+
+    if (role) filter['role'] = role;
+    if (status === 'active') {
+      filter['bannedAt'] = null;
+      conditions.push({ $nor: [suspended] });
+    }
+    if (status === 'suspended') conditions.push(suspended);
+    if (status === 'banned') filter['bannedAt'] = { $ne: null };
+    if (status === 'read_only') filter['readOnlyAt'] = { $ne: null };
+
+    if (search) {
+      const pattern = new RegExp(escapeRegex(search), 'i');
+      conditions.push({ $or: [{ email: pattern }, { name: pattern }] });
+    }
+
+    if (conditions.length > 0) filter['$and'] = conditions;
+
+    const [data, total] = await Promise.all([
+      User.find(filter)
+        .setOptions({ includeDeleted: true } as any)
+        .sort({ [sortBy]: order === 'asc' ? 1 : -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      User.countDocuments(filter),
+    ]);
+
+    return { data, total, page, limit };
+  }
+
+  /**
+   * Get any user, including soft-deleted ones (admins)
+   */
+  async getById(userId: string): Promise<IUser> {
+    const user = await User.findById(userId).setOptions({
+      includeDeleted: true,
+    } as any);
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    return user;
+  }
+
+  /**
+   * User counts by status, role and subscription (admins)
+   */
+  async getStats(): Promise<any> {
+    return User.getStats();
+  }
+
+  /**
+   * Change a user's platform role (admins)
+   */
+  async changeRole(
+    admin: AuthenticatedUser,
+    userId: string,
+    data: ChangeRoleInput
+  ): Promise<IUser> {
+    this.assertNotSelf(admin, userId, 'change the role of');
+
+    const user = await this.getActiveUser(userId);
+    if (user.role === data.role) {
+      return user;
+    }
+
+    await assertRoleExists(data.role);
+
+    const before = snapshot(user);
+    user.role = data.role;
+    user.roleAssignedAt = new Date();
+    await user.save();
+
+    // The new role applies from the next request
+    await invalidateIdentity(user.clerkId);
+
+    await this.audit(admin, 'role_change', user, before);
+
+    logger.info('User role changed', {
+      userId,
+      role: data.role,
+      by: admin.id,
+    });
+
+    return user;
+  }
+
+  /**
+   * Suspend a user, until a date or until lifted. Their sessions are
+   * revoked and they cannot sign in or use their API keys meanwhile
+   * (admins).
+   */
+  async suspend(
+    admin: AuthenticatedUser,
+    userId: string,
+    data: SuspendUserInput
+  ): Promise<IUser> {
+    this.assertNotSelf(admin, userId, 'suspend');
+
+    const user = await this.getActiveUser(userId);
+    if (user.isSuspended) {
+      throw new ConflictError('User is already suspended');
+    }
+
+    const before = snapshot(user);
+    user.set({
+      suspendedAt: new Date(),
+      suspendedUntil: data.until,
+      suspensionReason: data.reason,
+      suspendedBy: admin.id,
+    });
+    await user.save();
+
+    await this.endSessions(user);
+    await this.audit(admin, 'suspend', user, before, data.reason);
+
+    logger.info('User suspended', {
+      userId,
+      until: data.until,
+      by: admin.id,
+    });
+
+    return user;
+  }
+
+  /**
+   * Lift a user's suspension (admins)
+   */
+  async unsuspend(
+    admin: AuthenticatedUser,
+    userId: string,
+    data: UserActionInput
+  ): Promise<IUser> {
+    const user = await this.getActiveUser(userId);
+    if (!user.suspendedAt) {
+      throw new ConflictError('User is not suspended');
+    }
+
+    const before = snapshot(user);
+    user.set({
+      suspendedAt: null,
+      suspendedUntil: undefined,
+      suspensionReason: undefined,
+      suspendedBy: undefined,
+    });
+    await user.save();
+
+    await invalidateIdentity(user.clerkId);
+    await this.audit(admin, 'unsuspend', user, before, data.reason);
+
+    logger.info('User unsuspended', { userId, by: admin.id });
+
+    return user;
+  }
+
+  /**
+   * Ban a user permanently: like a suspension without an end, kept apart so
+   * abuse can be told from temporary measures (admins)
+   */
+  async ban(
+    admin: AuthenticatedUser,
+    userId: string,
+    data: RestrictUserInput
+  ): Promise<IUser> {
+    this.assertNotSelf(admin, userId, 'ban');
+
+    const user = await this.getActiveUser(userId);
+    if (user.bannedAt) {
+      throw new ConflictError('User is already banned');
+    }
+
+    const before = snapshot(user);
+    user.set({
+      bannedAt: new Date(),
+      banReason: data.reason,
+      bannedBy: admin.id,
+    });
+    await user.save();
+
+    await this.endSessions(user);
+    await this.audit(admin, 'ban', user, before, data.reason);
+
+    logger.info('User banned', { userId, by: admin.id });
+
+    return user;
+  }
+
+  /**
+   * Lift a user's ban (admins)
+   */
+  async unban(
+    admin: AuthenticatedUser,
+    userId: string,
+    data: UserActionInput
+  ): Promise<IUser> {
+    const user = await this.getActiveUser(userId);
+    if (!user.bannedAt) {
+      throw new ConflictError('User is not banned');
+    }
+
+    const before = snapshot(user);
+    user.set({
+      bannedAt: null,
+      banReason: undefined,
+      bannedBy: undefined,
+    });
+    await user.save();
+
+    await invalidateIdentity(user.clerkId);
+    await this.audit(admin, 'unban', user, before, data.reason);
+
+    logger.info('User unbanned', { userId, by: admin.id });
+
+    return user;
+  }
+
+  /**
+   * Make a user's account read-only, e.g. during a billing hold: they can
+   * still sign in and read their data (admins)
+   */
+  async setReadOnly(
+    admin: AuthenticatedUser,
+    userId: string,
+    data: RestrictUserInput
+  ): Promise<IUser> {
+    this.assertNotSelf(admin, userId, 'restrict');
+
+    const user = await this.getActiveUser(userId);
+    if (user.readOnlyAt) {
+      throw new ConflictError('User is already read-only');
+    }
+
+    const before = snapshot(user);
+    user.set({
+      readOnlyAt: new Date(),
+      readOnlyReason: data.reason,
+      readOnlyBy: admin.id,
+    });
+    await user.save();
+
+    // Takes effect on the next request
+    await invalidateIdentity(user.clerkId);
+    await this.audit(admin, 'set_read_only', user, before, data.reason);
+
+    logger.info('User made read-only', { userId, by: admin.id });
+
+    return user;
+  }
+
+  /**
+   * Give a read-only user write access again (admins)
+   */
+  async clearReadOnly(
+    admin: AuthenticatedUser,
+    userId: string,
+    data: UserActionInput
+  ): Promise<IUser> {
+    const user = await this.getActiveUser(userId);
+    if (!user.readOnlyAt) {
+      throw new ConflictError('User is not read-only');
+    }
+
+    const before = snapshot(user);
+    user.set({
+      readOnlyAt: null,
+      readOnlyReason: undefined,
+      readOnlyBy: undefined,
+    });
+    await user.save();
+
+    await invalidateIdentity(user.clerkId);
+    await this.audit(admin, 'clear_read_only', user, before, data.reason);
+
+    logger.info('User write access restored', { userId, by: admin.id });
+
+    return user;
+  }
+
+  /**
+   * Soft-delete a user. Their data is kept and the account can be restored;
+   * use the erasure pipeline to remove it (admins).
+   */
+  async softDelete(
+    admin: AuthenticatedUser,
+    userId: string,
+    data: UserActionInput
+  ): Promise<void> {
+    this.assertNotSelf(admin, userId, 'delete');
+
+    const user = await this.getActiveUser(userId);
+    const before = snapshot(user);
+
+    await User.softDelete(userId);
+    await this.endSessions(user);
+
+    await this.audit(
+      admin,
+      'delete',
+      await this.getById(userId),
+      before,
+      data.reason
+    );
+
+    logger.info('User soft-deleted', { userId, by: admin.id });
+  }
+
+  /**
+   * Restore a soft-deleted user (admins)
+   */
+  async restore(
+    admin: AuthenticatedUser,
+    userId: string,
+    data: UserActionInput
+  ): Promise<IUser> {
+    const user = await this.getById(userId);
+    if (!user.deletedAt) {
+      throw new ConflictError('User is not deleted');
+    }
+
+    // Users whose erasure has started cannot come back
+    const erasure = await ErasureRequest.findActiveByUser(userId);
+    if (erasure) {
+      throw new ConflictError('User is being erased and cannot be restored');
+    }
+
+    const before = snapshot(user);
+    await User.restore(userId);
+    const restored = await this.getById(userId);
+
+    await this.audit(admin, 'restore', restored, before, data.reason);
+
+    logger.info('User restored', { userId, by: admin.id });
+
+    return restored;
+  }
+
+  /**
+   * Load a user that is not soft-deleted
+   */
+  private async getActiveUser(userId: string): Promise<IUser> {
+    const user = await User.findById(userId);
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    return user;
+  }
+
+  /**
+   * Admins cannot lock themselves out
+   */
+  private assertNotSelf(
+    admin: AuthenticatedUser,
+    userId: string,
+    verb: string
+  ): void {
+    if (admin.id === userId) {
+      throw new ForbiddenError(`You cannot ${verb} your own account`);
+    }
+  }
+
+  /**
+   * Cut a user's access: revoke their tokens, drop their cached identity and
+   * close their sockets
+   */
+  private async endSessions(user: IUser): Promise<void> {
+    const userId = (user._id as unknown as string).toString();
+
+    await revokeUserSessions(userId);
+    await LoginSession.endUserSessions(userId, 'revoked');
+    await invalidateIdentity(user.clerkId);
+    disconnectUser(userId);
+  }
+
+  /**
+   * Record an admin change to a user account
+   */
+  private async audit(
+    admin: AuthenticatedUser,
+    action: string,
+    user: IUser,
+    before: Record<string, unknown>,
+    reason?: string
+  ): Promise<void> {
+    await AuditLog.log({
+      userId: admin.id,
+      userEmail: admin.email,
+      action,
+      resource: 'user',
+      resourceId: (user._id as unknown as string).toString(),
+      changes: { before, after: snapshot(user) },
+      ...(reason && { metadata: { reason } }),
+    });
+  }
+}
+
+// Export singleton instance
+export const userService = new UserService();
@@ -15,6 +15,7 @@ import { env, features } from './core/config/env';
 import { initializeRedis, closeRedis } from './core/config/redis';
 import { database } from './core/config/database';
 import { notFoundHandler, errorHandler } from './core/middleware/errorHandler';
+import { assertRoutesProtected } from './core/utils/routeManifest';
 
 // Track server instance for graceful shutdown
 let server: Server | null = null;
@@ -40,7 +41,7 @@ async function bootstrap(): Promise<void> {
 
     // Initialize authentication
     if (features.auth) {
-      logger.info('🔐 Clerk authentication enabled');
+      logger.info(`🔐 Authentication enabled (${env.AUTH_PROVIDER})`);
     } else {
       logger.warn('⚠️  Running without authentication (development mode only)');
     }
@@ -57,6 +58,9 @@ async function bootstrap(): Promise<void> {
     // Mount API routes
     await mountRoutes(app);
 
+    // Refuse to start with a mutating route that has no authentication
+    assertRoutesProtected(app);
+
     // Register 404 handler (must be after all routes)
     app.use(notFoundHandler);
 
@@ -66,6 +70,15 @@ async function bootstrap(): Promise<void> {
     // Start server and store reference
     server = (await startServer(app)) as unknown as Server;
 
+    // Seed the built-in roles and load role permissions (needs the database)
+    try {
+      const { initializeRoles } = require('./modules/rbac/roles');
+      await initializeRoles();
+      logger.info('  ✓ Roles loaded');
+    } catch (error) {
+      logger.error('Failed to load roles, using built-in defaults', { error });
+    }
+
     logger.info('✅ Application started successfully');
   } catch (error) {
     logger.error('❌ Failed to start application', { error });
@@ -85,8 +98,56 @@ async function mountRoutes(app: Express): Promise<void> {
   app.use('/api/examples', exampleRoutes);
   logger.info('  ✓ Example routes mounted at /api/examples');
 
+  // Always mount auth routes (API keys work with or without Clerk)
+  const authRoutes = require('./modules/auth/routes').default;
+  app.use('/api/auth', authRoutes);
+  logger.info('  ✓ Auth routes mounted at /api/auth');
+
+  // Always mount organization routes
+  const organizationRoutes =
+    require('./features/organization/organization.routes').default;
+  app.use('/api/orgs', organizationRoutes);
+  logger.info('  ✓ Organization routes mounted at /api/orgs');
+
+  // Always mount user account routes
+  const userRoutes = require('./features/user/user.routes').default;
+  app.use('/api/users', userRoutes);
+  logger.info('  ✓ User routes mounted at /api/users');
+
+  // Always mount user administration
+  const userAdminRoutes = require('./features/user/user.admin.routes').default;
+  app.use('/api/admin/users', userAdminRoutes);
+  logger.info('  ✓ User admin routes mounted at /api/admin/users');
+
+  // Register account erasure hooks and data export contributors
+  require('./features/user/user.privacy');
+  require('./features/example/example.privacy');
+  require('./features/organization/organization.privacy');
+  require('./modules/auth/privacy');
+  require('./modules/jobs/privacy');
+
+  // Always mount role administration
+  const roleAdminRoutes = require('./modules/rbac/routes').default;
+  app.use('/api/admin/roles', roleAdminRoutes);
+  logger.info('  ✓ Role admin routes mounted at /api/admin/roles');
+
+  // Always mount authorization checks for the current user
+  const { authzRouter } = require('./modules/rbac/routes');
+  app.use('/api/authz', authzRouter);
+  logger.info('  ✓ Authorization check routes mounted at /api/authz');
+
+  // Always mount the route security manifest
+  const { routeManifestRouter } = require('./modules/rbac/routes');
+  app.use('/api/admin/routes', routeManifestRouter);
+  logger.info('  ✓ Route manifest mounted at /api/admin/routes');
+
+  // Always mount webhook administration (list and replay stored events)
+  const webhookAdminRoutes = require('./modules/webhooks/routes').default;
+  app.use('/api/admin/webhooks', webhookAdminRoutes);
+  logger.info('  ✓ Webhook admin routes mounted at /api/admin/webhooks');
+
   // Mount authentication webhook (if Clerk is configured)
-  if (features.auth) {
+  if (features.auth && env.AUTH_PROVIDER === 'clerk') {
     try {
       const { handleClerkWebhook } = require('./modules/auth/webhook');
       app.post('/api/webhooks/clerk', handleClerkWebhook);
@@ -99,9 +160,19 @@ async function mountRoutes(app: Express): Promise<void> {
   // Mount payment routes (if Stripe is configured)
   if (features.stripe) {
     try {
-      const paymentRoutes = require('./modules/payments/routes').default;
+      const {
+        default: paymentRoutes,
+        billingRouter,
+        billingAdminRouter,
+      } = require('./modules/payments/routes');
       app.use('/api/payments', paymentRoutes);
       logger.info('  ✓ Payment routes mounted at /api/payments');
+      app.use('/api/billing', billingRouter);
+      logger.info('  ✓ Billing routes mounted at /api/billing');
+      app.use('/api/admin/billing', billingAdminRouter);
+      logger.info('  ✓ Billing admin routes mounted at /api/admin/billing');
+
+      require('./modules/payments/privacy');
 
       const { handleStripeWebhook } = require('./modules/payments/webhook');
       app.post('/api/webhooks/stripe', handleStripeWebhook);
@@ -142,6 +213,11 @@ async function mountRoutes(app: Express): Promise<void> {
     } catch (error) {
       logger.error('Failed to start job workers', { error });
     }
+  } else {
+    // Without workers, erasures past their grace period are purged in-process
+    const { startErasureSweeper } = require('./modules/privacy/erasure');
+    startErasureSweeper();
+    logger.info('  ✓ Account erasure sweeper started');
   }
 
   logger.info('✅ All routes mounted successfully');
@@ -186,6 +262,9 @@ async function cleanup(): Promise<void> {
 
   // Close Redis connection
   if (features.redis) {
+    const { unsubscribeFromRoleChanges } = require('./modules/rbac/roleCache');
+    await unsubscribeFromRoleChanges();
+
     logger.info('Closing Redis connection...');
     await closeRedis();
   }
@@ -0,0 +1,132 @@
+import { IUser } from '../../database/mongodb/models/User';
+import { AccountRestrictedError } from '../../core/types/errors';
+import { AccountRestriction, AuthenticatedUser } from '../../core/types';
+
+/**
+ * Methods a read-only account may use anywhere
+ */
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Routes read-only accounts may still change: resolving a billing hold,
+ * signing devices out, and the user's data protection rights. Entries
+ * without a method match every route under the path.
+ */
+const READ_ONLY_EXEMPT_ROUTES: { method?: string; path: string }[] = [
+  { path: '/api/payments' },
+  { path: '/api/users/me/sessions' },
+  { path: '/api/users/me/export', method: 'POST' },
+  { path: '/api/users/me', method: 'DELETE' },
+];
+
+/**
+ * The restriction in effect for a user, if any. A ban outranks a
+ * suspension, which outranks read-only; expired suspensions are ignored.
+ * A temporary suspension carries the restriction that applies once it
+ * ends, so cached identities stay accurate.
+ */
+export function getAccountRestriction(
+  user: Pick<
+    IUser,
+    | 'bannedAt'
+    | 'banReason'
+    | 'suspendedAt'
+    | 'suspendedUntil'
+    | 'suspensionReason'
+    | 'readOnlyAt'
+    | 'readOnlyReason'
+  >,
+  now: Date = new Date()
+): AccountRestriction | undefined {
+  if (user.bannedAt) {
+    return {
+      state: 'banned',
+      ...(user.banReason && { reason: user.banReason }),
+    };
+  }
+
+  const readOnly: AccountRestriction | undefined = user.readOnlyAt
+    ? {
+        state: 'read_only',
+        ...(user.readOnlyReason && { reason: user.readOnlyReason }),
+      }
+    : undefined;
+
+  if (user.suspendedAt && (!user.suspendedUntil || user.suspendedUntil > now)) {
+    return {
+      state: 'suspended',
+      ...(user.suspensionReason && { reason: user.suspensionReason }),
+      ...(user.suspendedUntil && {
+        until: user.suspendedUntil.toISOString(),
+      }),
+      ...(user.suspendedUntil && readOnly && { afterSuspension: readOnly }),
+    };
+  }
+
+  return readOnly;
+}
+
+/**
+ * Whether a read-only account may make this request
+ */
+function isReadOnlyAllowed(method: string, path: string): boolean {
+  if (SAFE_METHODS.includes(method.toUpperCase())) return true;
+
+  return READ_ONLY_EXEMPT_ROUTES.some(
+    (route) =>
+      (!route.method || route.method === method.toUpperCase()) &&
+      (path === route.path ||
+        (!route.method && path.startsWith(`${route.path}/`)))
+  );
+}
+
+/**
+ * Reject principals whose account is banned or suspended. When the request
+ * is given, read-only accounts are also rejected on mutating methods.
+ * Suspensions that ended since the identity was cached give way to the
+ * restriction underneath them.
+ */
+export function assertAccountUsable(
+  user: AuthenticatedUser,
+  request?: { method: string; path: string },
+  now: Date = new Date()
+): void {
+  let restriction = user.restriction;
+  if (
+    restriction?.state === 'suspended' &&
+    restriction.until &&
+    new Date(restriction.until) <= now
+  ) {
+    restriction = restriction.afterSuspension;
+  }
+  if (!restriction) return;
+
+  const details = {
+    ...(restriction.reason && { reason: restriction.reason }),
+    ...(restriction.until && { until: restriction.until }),
+  };
+
+  switch (restriction.state) {
+    case 'banned':
+      throw new AccountRestrictedError(
+        'ACCOUNT_BANNED',
+        'This account has been banned',
+        details
+      );
+
+    case 'suspended':
+      throw new AccountRestrictedError(
+        'ACCOUNT_SUSPENDED',
+        'This account has been suspended',
+        details
+      );
+
+    case 'read_only':
+      if (!request || isReadOnlyAllowed(request.method, request.path)) return;
+      throw new AccountRestrictedError(
+        'ACCOUNT_READ_ONLY',
+        'This account is read-only',
+        details
+      );
+  }
+}
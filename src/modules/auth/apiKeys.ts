@@ -0,0 +1,178 @@
+import { ApiKey, IApiKey } from '../../database/mongodb/models/ApiKey';
+import { User } from '../../database/mongodb/models/User';
+import { AuditLog } from '../../database/mongodb/models/AuditLog';
+import {
+  AuthError,
+  ConflictError,
+  NotFoundError,
+} from '../../core/types/errors';
+import { AuthenticatedUser } from '../../core/types';
+import { getAccountRestriction } from './accountState';
+import { getPlan } from '../payments/plans';
+import { assertPlanFeature } from '../payments/entitlements';
+import { logger } from '../../core/config/logger';
+import { CreateApiKeyInput } from './schema';
+
+/**
+ * Maximum number of active keys a single user may hold
+ */
+export const MAX_API_KEYS_PER_USER = 25;
+
+/**
+ * Authenticate a request using a plaintext API key and build the principal
+ * that is attached to `req.user`. The owner's plan must include API keys.
+ */
+export async function authenticateApiKey(
+  key: string
+): Promise<AuthenticatedUser> {
+  const apiKey = await ApiKey.findByKey(key);
+
+  if (!apiKey) {
+    throw new AuthError('Invalid or expired API key');
+  }
+
+  const user = await User.findById(apiKey.userId);
+
+  if (!user) {
+    throw new AuthError('API key owner not found');
+  }
+
+  // Keys stop working when the owner's plan no longer includes them, and
+  // work again after an upgrade
+  assertPlanFeature(getPlan(user.subscription), 'api-keys');
+
+  await apiKey.markUsed();
+
+  const restriction = getAccountRestriction(user);
+
+  return {
+    id: (user._id as unknown as string).toString(),
+    email: user.email,
+    role: user.role,
+    clerkId: user.clerkId,
+    metadata: user.metadata ?? {},
+    ...(restriction && { restriction }),
+    scopes: apiKey.scopes,
+    apiKeyId: (apiKey._id as unknown as string).toString(),
+  };
+}
+
+/**
+ * List a user's active keys
+ */
+export async function listApiKeys(userId: string): Promise<IApiKey[]> {
+  return ApiKey.findActiveByUser(userId);
+}
+
+/**
+ * Create a new key for a user
+ */
+export async function createApiKey(
+  userId: string,
+  input: CreateApiKeyInput
+): Promise<{ apiKey: IApiKey; key: string }> {
+  const activeCount = await ApiKey.countDocuments({ userId, revokedAt: null });
+
+  if (activeCount >= MAX_API_KEYS_PER_USER) {
+    throw new ConflictError(
+      `You can have at most ${MAX_API_KEYS_PER_USER} active API keys`
+    );
+  }
+
+  const result = await ApiKey.generate({
+    userId,
+    name: input.name,
+    scopes: input.scopes,
+    ...(input.expiresAt && { expiresAt: input.expiresAt }),
+  });
+
+  await AuditLog.log({
+    userId,
+    action: 'create',
+    resource: 'api_key',
+    resourceId: (result.apiKey._id as unknown as string).toString(),
+    metadata: { name: input.name, scopes: input.scopes },
+  });
+
+  logger.info('API key created', {
+    userId,
+    apiKeyId: result.apiKey._id,
+    prefix: result.apiKey.prefix,
+  });
+
+  return result;
+}
+
+/**
+ * Rotate a key: revoke it and issue a replacement with the same name,
+ * scopes and lifetime
+ */
+export async function rotateApiKey(
+  id: string,
+  userId: string
+): Promise<{ apiKey: IApiKey; key: string }> {
+  const existing = await findOwnedKey(id, userId);
+
+  let expiresAt: Date | undefined;
+  if (existing.expiresAt) {
+    const lifetime =
+      existing.expiresAt.getTime() - existing.createdAt.getTime();
+    expiresAt = new Date(Date.now() + lifetime);
+  }
+
+  await existing.revoke();
+
+  const result = await ApiKey.generate({
+    userId,
+    name: existing.name,
+    scopes: existing.scopes,
+    ...(expiresAt && { expiresAt }),
+  });
+
+  await AuditLog.log({
+    userId,
+    action: 'rotate',
+    resource: 'api_key',
+    resourceId: (result.apiKey._id as unknown as string).toString(),
+    metadata: { previousKeyId: id },
+  });
+
+  logger.info('API key rotated', {
+    userId,
+    previousKeyId: id,
+    apiKeyId: result.apiKey._id,
+  });
+
+  return result;
+}
+
+/**
+ * Revoke a key
+ */
+export async function revokeApiKey(id: string, userId: string): Promise<void> {
+  const apiKey = await findOwnedKey(id, userId);
+
+  await apiKey.revoke();
+
+  await AuditLog.log({
+    userId,
+    action: 'revoke',
+    resource: 'api_key',
+    resourceId: id,
+  });
+
+  logger.info('API key revoked', { userId, apiKeyId: id });
+}
+
+/**
+ * Load an active key and make sure it belongs to the given user
+ */
+async function findOwnedKey(id: string, userId: string): Promise<IApiKey> {
+  const apiKey = await ApiKey.findOne({ _id: id, userId, revokedAt: null });
+
+  if (!apiKey) {
+    throw new NotFoundError('API key not found');
+  }
+
+  return apiKey;
+}
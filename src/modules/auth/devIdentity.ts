@@ -0,0 +1,185 @@
+import fs from 'fs';
+import path from 'path';
+import { Request } from 'express';
+import { User } from '../../database/mongodb/models/User';
+import { AuthError } from '../../core/types/errors';
+import { AuthenticatedUser, UserRole } from '../../core/types';
+import { env, features } from '../../core/config/env';
+import { logger } from '../../core/config/logger';
+import { getAccountRestriction } from './accountState';
+
+/**
+ * Headers used to pick a development identity
+ */
+export const DEV_USER_HEADER = 'x-dev-user';
+export const DEV_ROLE_HEADER = 'x-dev-role';
+
+/**
+ * A development identity, as declared in the fixtures file
+ */
+export interface DevIdentity {
+  email: string;
+  name?: string;
+  role: UserRole;
+}
+
+/**
+ * Fixtures file format (`DEV_IDENTITIES_FILE`)
+ */
+interface DevIdentityFixtures {
+  /**
+   * Identity used in development when no X-Dev-User header is sent
+   */
+  default?: string;
+  identities: Record<string, DevIdentity>;
+}
+
+/**
+ * Identities available without a fixtures file
+ */
+const BUILT_IN_FIXTURES: DevIdentityFixtures = {
+  default: 'admin',
+  identities: {
+    admin: {
+      email: 'dev@example.com',
+      name: 'Dev Admin',
+      role: UserRole.ADMIN,
+    },
+    moderator: {
+      email: 'moderator@example.com',
+      name: 'Dev Moderator',
+      role: UserRole.MODERATOR,
+    },
+    user: { email: 'user@example.com', name: 'Dev User', role: UserRole.USER },
+  },
+};
+
+const IDENTITY_KEY_PATTERN = /^[a-z0-9_-]{1,64}$/;
+
+let fixtures: DevIdentityFixtures | null = null;
+
+/**
+ * Dev identities only exist when no auth provider is configured, and never
+ * outside development and test
+ */
+export function isDevIdentityEnabled(): boolean {
+  return (
+    !features.auth &&
+    (env.NODE_ENV === 'development' || env.NODE_ENV === 'test')
+  );
+}
+
+/**
+ * Load the fixtures file once, merged over the built-in identities
+ */
+function getFixtures(): DevIdentityFixtures {
+  if (fixtures) return fixtures;
+
+  fixtures = BUILT_IN_FIXTURES;
+
+  if (env.DEV_IDENTITIES_FILE) {
+    const filePath = path.resolve(process.cwd(), env.DEV_IDENTITIES_FILE);
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+
+    fixtures = {
+      default: parsed.default ?? BUILT_IN_FIXTURES.default,
+      identities: {
+        ...BUILT_IN_FIXTURES.identities,
+        ...parsed.identities,
+      },
+    };
+    logger.info(`Loaded development identities from ${filePath}`);
+  }
+
+  return fixtures;
+}
+
+function isUserRole(role: unknown): role is UserRole {
+  return Object.values(UserRole).includes(role as UserRole);
+}
+
+/**
+ * Resolve the development identity of a request from the X-Dev-User and
+ * X-Dev-Role headers, and upsert the matching User document so ownership
+ * and permission checks run against real records.
+ *
+ * The fixture role is only applied when the user is created; X-Dev-Role
+ * overrides the role of the returned principal without being persisted.
+ * Deleted dev users are rejected rather than brought back.
+ *
+ * Unknown identity keys become `<key>@dev.local` users. In development a
+ * request without X-Dev-User uses the default identity; in test it stays
+ * anonymous. Returns null when dev identities are disabled.
+ */
+export async function resolveDevIdentity(
+  req: Request
+): Promise<AuthenticatedUser | null> {
+  if (!isDevIdentityEnabled()) {
+    return null;
+  }
+
+  const { default: defaultKey, identities } = getFixtures();
+  const header = req.headers[DEV_USER_HEADER];
+  const key =
+    typeof header === 'string' && header
+      ? header.toLowerCase()
+      : env.NODE_ENV === 'development'
+        ? defaultKey
+        : undefined;
+
+  if (!key) {
+    return null;
+  }
+
+  if (!IDENTITY_KEY_PATTERN.test(key)) {
+    throw new AuthError('Invalid X-Dev-User header');
+  }
+
+  const roleHeader = req.headers[DEV_ROLE_HEADER];
+  if (roleHeader !== undefined && !isUserRole(roleHeader)) {
+    throw new AuthError('Invalid X-Dev-Role header');
+  }
+
+  const identity = identities[key];
+  const email = identity?.email ?? `${key}@dev.local`;
+  const clerkId = `dev_${key}`;
+
+  // Deleted accounts stay deleted until their erasure is purged
+  const deleted = await User.exists({
+    clerkId,
+    deletedAt: { $ne: null },
+  }).setOptions({ includeDeleted: true } as any);
+  if (deleted) {
+    throw new AuthError('This account has been deleted');
+  }
+
+  // The fixture role only seeds new users, so role changes made by an
+  // admin are kept
+  const user = await User.findOneAndUpdate(
+    { clerkId },
+    {
+      $set: {
+        email,
+        emailVerified: true,
+        ...(identity?.name && { name: identity.name }),
+      },
+      $setOnInsert: {
+        role: identity?.role ?? UserRole.USER,
+        deletedAt: null,
+      },
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  ).setOptions({ includeDeleted: true } as any);
+
+  const restriction = getAccountRestriction(user);
+
+  return {
+    id: (user._id as unknown as string).toString(),
+    email: user.email,
+    // X-Dev-Role applies to this request only and is never stored
+    role: (roleHeader as UserRole | undefined) ?? user.role,
+    clerkId: user.clerkId,
+    metadata: user.metadata ?? {},
+    ...(restriction && { restriction }),
+  };
+}
@@ -0,0 +1,88 @@
+import { get, set, del } from '../../core/config/redis';
+import { env, features } from '../../core/config/env';
+import { logger } from '../../core/config/logger';
+import { AuthenticatedUser } from '../../core/types';
+
+/**
+ * Redis key prefix of cached identities
+ */
+const KEY_PREFIX = 'auth:identity:';
+
+/**
+ * Least-recently-used in-memory cache, used when Redis is not configured.
+ * Map iteration order is insertion order, so re-inserting on read keeps the
+ * most recently used entries at the end.
+ */
+const memoryCache = new Map<
+  string,
+  { user: AuthenticatedUser; expiresAt: number }
+>();
+
+function isEnabled(): boolean {
+  return env.IDENTITY_CACHE_TTL > 0;
+}
+
+/**
+ * Get the cached identity of a token subject
+ */
+export async function getCachedIdentity(
+  subject: string
+): Promise<AuthenticatedUser | null> {
+  if (!isEnabled()) return null;
+
+  if (features.redis) {
+    return get<AuthenticatedUser>(`${KEY_PREFIX}${subject}`);
+  }
+
+  const entry = memoryCache.get(subject);
+  if (!entry) return null;
+
+  memoryCache.delete(subject);
+  if (entry.expiresAt <= Date.now()) {
+    return null;
+  }
+
+  memoryCache.set(subject, entry);
+  return entry.user;
+}
+
+/**
+ * Cache the identity resolved for a token subject
+ */
+export async function cacheIdentity(
+  subject: string,
+  user: AuthenticatedUser
+): Promise<void> {
+  if (!isEnabled()) return;
+
+  if (features.redis) {
+    await set(`${KEY_PREFIX}${subject}`, user, env.IDENTITY_CACHE_TTL);
+    return;
+  }
+
+  memoryCache.delete(subject);
+  memoryCache.set(subject, {
+    user,
+    expiresAt: Date.now() + env.IDENTITY_CACHE_TTL * 1000,
+  });
+
+  // Evict the least recently used entries
+  while (memoryCache.size > env.IDENTITY_CACHE_MAX) {
+    const oldest = memoryCache.keys().next().value as string;
+    memoryCache.delete(oldest);
+  }
+}
+
+/**
+ * Drop the cached identity of a token subject (Clerk user id). Call this
+ * whenever the user's profile or role changes.
+ */
+export async function invalidateIdentity(subject: string): Promise<void> {
+  memoryCache.delete(subject);
+
+  if (features.redis) {
+    await del(`${KEY_PREFIX}${subject}`);
+  }
+
+  logger.debug('Identity cache invalidated', { subject });
+}
@@ -0,0 +1,213 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { User, IUser } from '../../database/mongodb/models/User';
+import { AuditLog } from '../../database/mongodb/models/AuditLog';
+import {
+  AuthError,
+  ForbiddenError,
+  NotFoundError,
+  ServiceUnavailableError,
+} from '../../core/types/errors';
+import {
+  AuthenticatedUser,
+  ImpersonatorContext,
+  UserRole,
+} from '../../core/types';
+import { env, features } from '../../core/config/env';
+import { logger } from '../../core/config/logger';
+import { setRequestContext } from '../../core/utils/requestContext';
+import { describeGuard } from '../../core/utils/routeManifest';
+import { signJwt, verifyJwt, decodeJwt } from './jwt';
+import { assertNotRevoked } from './revocation';
+import { getAccountRestriction } from './accountState';
+import { ensureRolesLoaded, hasRole } from '../rbac/roleCache';
+
+/**
+ * `token_use` claim that marks impersonation tokens
+ */
+const IMPERSONATION_TOKEN_USE = 'impersonation';
+
+/**
+ * Issuer of impersonation tokens, so they can't be confused with tokens from
+ * the configured auth provider
+ */
+const IMPERSONATION_ISSUER = 'impersonation';
+
+/**
+ * Build the request principal from a local user document, with the
+ * account's restriction so impersonated requests are limited like the user's
+ * own
+ */
+function toAuthenticatedUser(user: IUser): AuthenticatedUser {
+  const restriction = getAccountRestriction(user);
+
+  return {
+    id: (user._id as unknown as string).toString(),
+    email: user.email,
+    role: user.role,
+    clerkId: user.clerkId,
+    metadata: user.metadata ?? {},
+    ...(restriction && { restriction }),
+  };
+}
+
+function getSecret(): string {
+  if (!features.impersonation) {
+    throw new ServiceUnavailableError('Impersonation is not configured');
+  }
+  return env.IMPERSONATION_TOKEN_SECRET!;
+}
+
+/**
+ * Whether a bearer token is an impersonation token. Only looks at the
+ * unverified claims to route the token; verification happens separately.
+ */
+export function isImpersonationToken(token: string): boolean {
+  return decodeJwt(token)?.claims['token_use'] === IMPERSONATION_TOKEN_USE;
+}
+
+/**
+ * Issue a short-lived token that authenticates as `targetUserId` on behalf
+ * of an admin. Admins can't be impersonated.
+ */
+export async function issueImpersonationToken(
+  admin: AuthenticatedUser,
+  targetUserId: string,
+  reason: string
+): Promise<{ token: string; expiresAt: Date; user: AuthenticatedUser }> {
+  const secret = getSecret();
+
+  if (targetUserId === admin.id) {
+    throw new ForbiddenError('You cannot impersonate yourself');
+  }
+
+  const target = await User.findById(targetUserId);
+  if (!target) {
+    throw new NotFoundError('User not found');
+  }
+
+  await ensureRolesLoaded();
+  if (hasRole(target.role, UserRole.ADMIN)) {
+    throw new ForbiddenError('Admins cannot be impersonated');
+  }
+
+  const tokenId = crypto.randomUUID();
+  const ttl = env.IMPERSONATION_TOKEN_TTL;
+  const expiresAt = new Date(Date.now() + ttl * 1000);
+
+  const token = signJwt(
+    {
+      sub: targetUserId,
+      jti: tokenId,
+      token_use: IMPERSONATION_TOKEN_USE,
+      act: { sub: admin.id, email: admin.email },
+      reason,
+    },
+    secret,
+    { expiresIn: ttl, issuer: IMPERSONATION_ISSUER }
+  );
+
+  await AuditLog.log({
+    userId: admin.id,
+    userEmail: admin.email,
+    action: 'impersonate',
+    resource: 'user',
+    resourceId: targetUserId,
+    metadata: { tokenId, reason, expiresAt },
+  });
+
+  logger.warn('Impersonation token issued', {
+    adminId: admin.id,
+    targetUserId,
+    tokenId,
+  });
+
+  return { token, expiresAt, user: toAuthenticatedUser(target) };
+}
+
+/**
+ * Verify an impersonation token. The impersonator must still be an admin
+ * when the token is used.
+ */
+export async function authenticateImpersonationToken(token: string): Promise<{
+  user: AuthenticatedUser;
+  impersonator: ImpersonatorContext;
+}> {
+  const claims = verifyJwt(token, {
+    secret: getSecret(),
+    issuer: IMPERSONATION_ISSUER,
+    clockTolerance: 0,
+  });
+
+  if (
+    claims['token_use'] !== IMPERSONATION_TOKEN_USE ||
+    !claims.sub ||
+    !claims.jti ||
+    !claims['act']?.sub
+  ) {
+    throw new AuthError('Invalid impersonation token');
+  }
+
+  const [target, admin] = await Promise.all([
+    User.findById(claims.sub),
+    User.findById(claims['act'].sub),
+  ]);
+
+  await ensureRolesLoaded();
+  if (!admin || !hasRole(admin.role, UserRole.ADMIN)) {
+    throw new AuthError('Impersonation is no longer allowed');
+  }
+
+  if (!target) {
+    throw new AuthError('User not found');
+  }
+
+  // Revoking either the admin or the target ends the impersonation
+  await assertNotRevoked(claims.sub, claims);
+  await assertNotRevoked(claims['act'].sub, { iat: claims.iat });
+
+  return {
+    user: toAuthenticatedUser(target),
+    impersonator: {
+      id: claims['act'].sub,
+      email: admin.email,
+      role: admin.role,
+      tokenId: claims.jti,
+      ...(claims['reason'] && { reason: claims['reason'] }),
+    },
+  };
+}
+
+/**
+ * Authenticate a request with an impersonation token and record the
+ * impersonator for audit logging
+ */
+export async function applyImpersonationToken(
+  req: Request,
+  token: string
+): Promise<void> {
+  const { user, impersonator } = await authenticateImpersonationToken(token);
+
+  req.user = user;
+  req.impersonator = impersonator;
+  setRequestContext({ impersonator });
+}
+
+/**
+ * Reject requests made with an impersonation token. Use on routes support
+ * staff must never act on, such as billing or account deletion.
+ */
+export function disallowImpersonation(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void {
+  if (req.impersonator) {
+    return next(
+      new ForbiddenError('This action is not allowed while impersonating')
+    );
+  }
+  next();
+}
+
+describeGuard(disallowImpersonation);
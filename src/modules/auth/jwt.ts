@@ -0,0 +1,220 @@
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs';
+import { AuthError } from '../../core/types/errors';
+
+/**
+ * Supported signing algorithms
+ */
+export type JwtAlgorithm = 'HS256' | 'RS256';
+
+/**
+ * Standard and custom JWT claims
+ */
+export interface JwtClaims {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  jti?: string;
+  [claim: string]: any;
+}
+
+/**
+ * Public key used to verify RS256 tokens
+ */
+export interface JwtPublicKey {
+  kid?: string;
+  key: KeyObject;
+}
+
+/**
+ * Verification options
+ */
+export interface JwtVerifyOptions {
+  secret?: string;
+  publicKeys?: JwtPublicKey[];
+  issuer?: string;
+  audience?: string;
+  /**
+   * Allowed clock skew in seconds
+   * @default 30
+   */
+  clockTolerance?: number;
+}
+
+/**
+ * Signing options
+ */
+export interface JwtSignOptions {
+  /**
+   * Lifetime in seconds
+   */
+  expiresIn: number;
+  issuer?: string;
+  audience?: string;
+}
+
+function base64UrlJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function parseSegment(segment: string): any {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new AuthError('Malformed authentication token');
+  }
+}
+
+/**
+ * Sign an HS256 token with a shared secret
+ */
+export function signJwt(
+  claims: JwtClaims,
+  secret: string,
+  options: JwtSignOptions
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64UrlJson({ alg: 'HS256', typ: 'JWT' });
+  const payload = base64UrlJson({
+    iat: now,
+    ...claims,
+    exp: now + options.expiresIn,
+    ...(options.issuer && { iss: options.issuer }),
+    ...(options.audience && { aud: options.audience }),
+  });
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${header}.${payload}`)
+    .digest('base64url');
+
+  return `${header}.${payload}.${signature}`;
+}
+
+/**
+ * Decode a token without verifying it. Only use this to route a token to
+ * the right verifier, never to trust its contents.
+ */
+export function decodeJwt(token: string): {
+  header: Record<string, any>;
+  claims: JwtClaims;
+} | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    return { header: parseSegment(parts[0]!), claims: parseSegment(parts[1]!) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify a token's signature and registered claims
+ */
+export function verifyJwt(token: string, options: JwtVerifyOptions): JwtClaims {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new AuthError('Malformed authentication token');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts as [
+    string,
+    string,
+    string,
+  ];
+  const header = parseSegment(encodedHeader);
+  const claims: JwtClaims = parseSegment(encodedPayload);
+  const signingInput = `${encodedHeader}.${encodedPayload}`;
+  const signature = Buffer.from(encodedSignature, 'base64url');
+
+  let valid = false;
+
+  switch (header.alg) {
+    case 'HS256': {
+      if (!options.secret) break;
+      const expected = crypto
+        .createHmac('sha256', options.secret)
+        .update(signingInput)
+        .digest();
+      valid =
+        expected.length === signature.length &&
+        crypto.timingSafeEqual(expected, signature);
+      break;
+    }
+
+    case 'RS256': {
+      const candidates = (options.publicKeys || []).filter(
+        (key) => !header.kid || !key.kid || key.kid === header.kid
+      );
+      valid = candidates.some((candidate) =>
+        crypto.verify(
+          'RSA-SHA256',
+          Buffer.from(signingInput),
+          candidate.key,
+          signature
+        )
+      );
+      break;
+    }
+
+    default:
+      throw new AuthError(`Unsupported token algorithm: ${header.alg}`);
+  }
+
+  if (!valid) {
+    throw new AuthError('Invalid authentication token');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockTolerance ?? 30;
+
+  // Tokens that never expire can't be contained once leaked
+  if (typeof claims.exp !== 'number') {
+    throw new AuthError('Authentication token has no expiry');
+  }
+
+  if (now - tolerance >= claims.exp) {
+    throw new AuthError('Authentication token expired');
+  }
+
+  if (typeof claims.nbf === 'number' && now + tolerance < claims.nbf) {
+    throw new AuthError('Authentication token not yet valid');
+  }
+
+  if (options.issuer && claims.iss !== options.issuer) {
+    throw new AuthError('Invalid token issuer');
+  }
+
+  if (options.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new AuthError('Invalid token audience');
+    }
+  }
+
+  return claims;
+}
+
+/**
+ * Load RS256 public keys from a PEM file
+ */
+export function loadPemPublicKey(filePath: string): JwtPublicKey[] {
+  return [{ key: crypto.createPublicKey(fs.readFileSync(filePath, 'utf8')) }];
+}
+
+/**
+ * Load RS256 public keys from a JWKS file (`{ "keys": [...] }`)
+ */
+export function loadJwksFile(filePath: string): JwtPublicKey[] {
+  const jwks = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+
+  return (jwks.keys || [])
+    .filter((jwk: any) => jwk.kty === 'RSA' && (!jwk.use || jwk.use === 'sig'))
+    .map((jwk: any) => ({
+      ...(jwk.kid && { kid: jwk.kid }),
+      key: crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+    }));
+}
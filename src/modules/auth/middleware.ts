@@ -1,28 +1,114 @@
 import { Request, Response, NextFunction } from 'express';
-import { clerkClient } from '@clerk/clerk-sdk-node';
-import { AuthError, ForbiddenError } from '../../core/types/errors';
+import {
+  AuthError,
+  ForbiddenError,
+  isBaseError,
+} from '../../core/types/errors';
+import { AuthenticatedUser, OrgRole, UserRole } from '../../core/types';
 import { logger } from '../../core/config/logger';
+import { describeGuard } from '../../core/utils/routeManifest';
 import { User } from '../../database/mongodb/models/User';
-import { env, features } from '../../core/config/env';
+import { features } from '../../core/config/env';
+import { authenticateApiKey } from './apiKeys';
+import { getAuthProvider, VerifiedToken } from './providers';
+import { attachOrganizationFromHeader } from './organization';
+import { applyImpersonationToken, isImpersonationToken } from './impersonation';
+import { assertNotRevoked } from './revocation';
+import { trackRequestSession } from './sessions';
+import { getAccountRestriction, assertAccountUsable } from './accountState';
+import {
+  getCachedIdentity,
+  cacheIdentity,
+  invalidateIdentity,
+} from './identityCache';
+import { isDevIdentityEnabled, resolveDevIdentity } from './devIdentity';
+import {
+  authenticateServiceRequest,
+  isServiceRequest,
+  SERVICE_ROLE,
+} from './serviceAuth';
+import { isAllowed, PolicySubject } from '../rbac/policy';
+import { ensureRolesLoaded, hasRole } from '../rbac/roleCache';
+import { trackApiRequest } from '../payments/usage';
+
+/**
+ * Verify a bearer token with the configured auth provider
+ */
+export async function verifyAuthToken(token: string): Promise<VerifiedToken> {
+  return getAuthProvider().verifyToken(token);
+}
 
 /**
  * Verify Clerk JWT token
+ * @deprecated Use verifyAuthToken; this now delegates to the configured provider
  */
-export async function verifyClerkToken(token: string): Promise<any> {
-  try {
-    const decoded = await clerkClient.verifyToken(token);
-    return decoded;
-  } catch (error) {
-    logger.error('Failed to verify Clerk token', { error });
-    throw new AuthError('Invalid authentication token');
+export async function verifyClerkToken(
+  token: string
+): Promise<Record<string, any>> {
+  const { claims } = await verifyAuthToken(token);
+  return claims;
+}
+
+/**
+ * Verify a bearer token and resolve the local user behind it. Shared by the
+ * HTTP middleware and the Socket.IO handshake.
+ */
+export async function authenticateToken(
+  token: string
+): Promise<AuthenticatedUser> {
+  const provider = getAuthProvider();
+  const verified = await provider.verifyToken(token);
+
+  // Skip the provider and database round trips for recently seen users
+  let authenticated = await getCachedIdentity(verified.subject);
+
+  if (!authenticated) {
+    // Get user from the identity provider
+    const profile = await provider.getUser(verified);
+
+    if (!profile) {
+      throw new AuthError('User not found');
+    }
+
+    // Load or create user in our database
+    const user = await provider.syncUser(profile);
+    const restriction = getAccountRestriction(user);
+
+    authenticated = {
+      id: (user._id as unknown as string).toString(),
+      email: user.email,
+      role: user.role,
+      clerkId: verified.subject,
+      metadata: user.metadata ?? {},
+      ...(restriction && { restriction }),
+    };
+
+    await cacheIdentity(verified.subject, authenticated);
   }
+
+  // Reject tokens revoked by an admin (forced logout)
+  await assertNotRevoked(authenticated.id, verified.claims);
+
+  // The session is per token, so it is never part of the cached identity
+  const sessionId = verified.claims['sid'] ?? verified.claims['jti'];
+
+  return typeof sessionId === 'string'
+    ? { ...authenticated, sessionId }
+    : authenticated;
 }
 
 /**
- * Extract token from request
- * AUDIT: Changed return type to string | null and handle undefined authHeader explicitly
+ * Supported Authorization header schemes
  */
-function extractToken(req: Request): string | null {
+type AuthScheme = 'Bearer' | 'ApiKey';
+
+/**
+ * Extract credentials from request
+ * AUDIT: Changed return type to nullable and handle undefined authHeader explicitly
+ */
+function extractCredentials(
+  req: Request
+): { scheme: AuthScheme; credentials: string } | null {
   const authHeader = req.headers.authorization;
 
   if (!authHeader || authHeader === undefined) {
@@ -31,95 +117,134 @@ function extractToken(req: Request): string | null {
 
   const parts = authHeader.split(' ');
 
-  if (parts.length !== 2 || parts[0] !== 'Bearer') {
+  if (parts.length !== 2 || !parts[1]) {
+    return null;
+  }
+
+  if (parts[0] !== 'Bearer' && parts[0] !== 'ApiKey') {
     return null;
   }
 
-  return parts[1] || null;
+  return { scheme: parts[0], credentials: parts[1] };
+}
+
+/**
+ * Method and path of a request, used to enforce read-only accounts
+ */
+function requestTarget(req: Request): { method: string; path: string } {
+  return { method: req.method, path: req.originalUrl.split('?')[0] ?? '' };
 }
 
 /**
  * Require authentication middleware
+ * Uses development identities (see devIdentity.ts) when no auth provider is
+ * configured
  * AUDIT: Prefixed unused res parameter with underscore
- * AUDIT: Added mock authentication for development when Clerk is not configured
  */
 export async function requireAuth(
   req: Request,
   _res: Response,
   next: NextFunction
 ): Promise<void> {
-  // Handle missing Clerk credentials gracefully
-  if (!features.auth) {
-    if (env.NODE_ENV === 'development') {
-      // Mock user for development
-      req.user = {
-        id: 'dev-user-id',
-        email: 'dev@example.com',
-        role: 'admin',
-        clerkId: 'dev-clerk-id',
-        metadata: {},
-      };
+  // Signed service requests are verified locally, like API keys
+  if (features.serviceAuth && isServiceRequest(req)) {
+    try {
+      req.user = await authenticateServiceRequest(req);
       return next();
-    } else {
-      return next(new AuthError('Authentication not configured'));
+    } catch (error) {
+      if (isBaseError(error)) {
+        return next(error);
+      }
+      logger.error('Service authentication error', { error });
+      return next(new AuthError('Authentication failed'));
     }
   }
 
-  try {
-    const token = extractToken(req);
+  const credentials = extractCredentials(req);
 
-    if (!token) {
-      throw new AuthError('No authentication token provided');
+  // API keys are verified locally, so they work with or without Clerk
+  if (credentials?.scheme === 'ApiKey') {
+    try {
+      req.user = await authenticateApiKey(credentials.credentials);
+      assertAccountUsable(req.user, requestTarget(req));
+      await attachOrganizationFromHeader(req);
+      // Billed by usage (api.requests meter)
+      trackApiRequest(req);
+      return next();
+    } catch (error) {
+      if (isBaseError(error)) {
+        return next(error);
+      }
+      logger.error('API key authentication error', { error });
+      return next(new AuthError('Authentication failed'));
     }
+  }
 
-    // Verify token with Clerk
-    const session = await verifyClerkToken(token);
-
-    if (!session || !session.sub) {
-      throw new AuthError('Invalid authentication token');
+  // Impersonation tokens are signed by us, so they work with or without Clerk
+  if (
+    credentials?.scheme === 'Bearer' &&
+    features.impersonation &&
+    isImpersonationToken(credentials.credentials)
+  ) {
+    try {
+      await applyImpersonationToken(req, credentials.credentials);
+      assertAccountUsable(req.user!, requestTarget(req));
+      await attachOrganizationFromHeader(req);
+      return next();
+    } catch (error) {
+      if (isBaseError(error)) {
+        return next(error);
+      }
+      logger.error('Impersonation authentication error', { error });
+      return next(new AuthError('Authentication failed'));
     }
+  }
+
+  // Without an auth provider, development and test use dev identities
+  if (!features.auth) {
+    try {
+      const devUser = await resolveDevIdentity(req);
 
-    // Get user from Clerk
-    const clerkUser = await clerkClient.users.getUser(session.sub);
+      if (!devUser) {
+        throw new AuthError(
+          isDevIdentityEnabled()
+            ? 'No development identity selected (send X-Dev-User)'
+            : 'Authentication not configured'
+        );
+      }
 
-    if (!clerkUser) {
-      throw new AuthError('User not found');
+      req.user = devUser;
+      assertAccountUsable(req.user, requestTarget(req));
+      await attachOrganizationFromHeader(req);
+      return next();
+    } catch (error) {
+      return next(error);
     }
+  }
 
-    // Load or create user in our database
-    const UserModel = User as any;
-    let user = await UserModel.findByClerkId(session.sub);
-
-    if (!user) {
-      // Auto-create user if doesn't exist
-      user = await UserModel.create({
-        clerkId: session.sub,
-        email: clerkUser.emailAddresses[0]?.emailAddress,
-        name:
-          `${clerkUser.firstName || ''} ${clerkUser.lastName || ''}`.trim() ||
-          undefined,
-        emailVerified:
-          clerkUser.emailAddresses[0]?.verification?.status === 'verified',
-        profileImage: clerkUser.imageUrl,
-        lastLoginAt: new Date(),
-      });
-    } else {
-      // Update last login
-      await user.updateLastLogin();
+  try {
+    const token =
+      credentials?.scheme === 'Bearer' ? credentials.credentials : null;
+
+    if (!token) {
+      throw new AuthError('No authentication token provided');
     }
 
-    // Attach user to request
-    req.user = {
-      id: user._id.toString(),
-      email: user.email,
-      role: user.role,
-      clerkId: session.sub,
-      metadata: user.metadata,
-    };
+    // Verify token and attach user to request
+    req.user = await authenticateToken(token);
+
+    // Banned, suspended and read-only accounts
+    assertAccountUsable(req.user, requestTarget(req));
+
+    // Login history: record the device and last activity of the session
+    trackRequestSession(req);
+
+    // Resolve the active organization, if one was selected
+    await attachOrganizationFromHeader(req);
 
     next();
   } catch (error) {
-    if (error instanceof AuthError) {
+    if (isBaseError(error)) {
       next(error);
     } else {
       logger.error('Authentication error', { error });
@@ -128,37 +253,54 @@ export async function requireAuth(
   }
 }
 
+describeGuard(requireAuth, { auth: 'required' });
+
 /**
  * Optional authentication middleware (doesn't fail if no token)
+ * Uses development identities (see devIdentity.ts) when no auth provider is
+ * configured
  * AUDIT: Prefixed unused res parameter with underscore
- * AUDIT: Added mock authentication for development when Clerk is not configured
  */
 export async function optionalAuth(
   req: Request,
   _res: Response,
   next: NextFunction
 ): Promise<void> {
-  // Handle missing Clerk credentials gracefully
+  const credentials = extractCredentials(req);
+
+  // API keys, service signatures and impersonation tokens don't depend on
+  // Clerk being configured
+  if (
+    credentials?.scheme === 'ApiKey' ||
+    (features.serviceAuth && isServiceRequest(req)) ||
+    (credentials?.scheme === 'Bearer' &&
+      features.impersonation &&
+      isImpersonationToken(credentials.credentials))
+  ) {
+    return requireAuth(req, _res, next);
+  }
+
+  // Without an auth provider, development and test use dev identities
   if (!features.auth) {
-    if (env.NODE_ENV === 'development') {
-      // Mock user for development
-      req.user = {
-        id: 'dev-user-id',
-        email: 'dev@example.com',
-        role: 'admin',
-        clerkId: 'dev-clerk-id',
-        metadata: {},
-      };
-      return next();
-    } else {
+    if (!isDevIdentityEnabled()) {
       return next(new AuthError('Authentication not configured'));
     }
+
+    try {
+      const devUser = await resolveDevIdentity(req);
+      if (devUser) {
+        req.user = devUser;
+        assertAccountUsable(req.user, requestTarget(req));
+        await attachOrganizationFromHeader(req);
+      }
+      return next();
+    } catch (error) {
+      return next(error);
+    }
   }
 
   try {
-    const token = extractToken(req);
-
-    if (!token) {
+    if (!credentials) {
       return next();
     }
 
@@ -170,42 +312,50 @@ export async function optionalAuth(
   }
 }
 
+describeGuard(optionalAuth, { auth: 'optional' });
+
 /**
- * Require specific role(s)
+ * Make sure a guard has a user to check. Route guards used without
+ * requireAuth resolve the development identity when no auth provider is
+ * configured.
+ */
+async function resolveGuardUser(req: Request): Promise<void> {
+  if (!req.user && !features.auth) {
+    const devUser = await resolveDevIdentity(req);
+    if (devUser) {
+      req.user = devUser;
+    }
+  }
+}
+
+/**
+ * Require specific platform role(s), or a role inheriting from one. Use
+ * this for platform administration routes; organization membership never
+ * counts.
  * AUDIT: Prefixed unused res parameter with underscore
- * AUDIT: Added mock authentication for development when Clerk is not configured
  */
-export function requireRole(...roles: string[]) {
-  return async (
+export function requirePlatformRole(...roles: string[]) {
+  const guard = async (
     req: Request,
     _res: Response,
     next: NextFunction
   ): Promise<void> => {
-    // Handle missing Clerk credentials gracefully
-    if (!features.auth) {
-      if (env.NODE_ENV === 'development') {
-        // Mock user for development
-        req.user = {
-          id: 'dev-user-id',
-          email: 'dev@example.com',
-          role: 'admin',
-          clerkId: 'dev-clerk-id',
-          metadata: {},
-        };
-        return next();
-      } else {
-        return next(new AuthError('Authentication not configured'));
-      }
-    }
-
     try {
+      // Guards used without requireAuth fall back to the dev identity
+      await resolveGuardUser(req);
+
       // Ensure user is authenticated
       if (!req.user) {
         throw new AuthError('Authentication required');
       }
 
-      // Check if user has one of the required roles
-      if (!roles.includes(req.user.role)) {
+      assertRoleScope(req.user);
+
+      // Platform roles also satisfy the roles they inherit from
+      await ensureRolesLoaded();
+      const role = req.user.role;
+
+      if (!roles.some((required) => hasRole(role, required))) {
         throw new ForbiddenError(
           `Access denied. Required role(s): ${roles.join(', ')}`
         );
@@ -216,55 +366,43 @@ export function requireRole(...roles: string[]) {
       next(error);
     }
   };
+
+  return describeGuard(guard, {
+    name: `requirePlatformRole(${roles.join(', ')})`,
+    auth: 'required',
+    roles,
+  });
 }
 
 /**
- * Require specific permission(s)
- * AUDIT: Prefixed unused res parameter with underscore
- * AUDIT: Added mock authentication for development when Clerk is not configured
+ * Require a membership role in the active organization. Owners pass every
+ * membership role check; platform roles never do.
  */
-export function requirePermission(...permissions: string[]) {
-  return async (
+export function requireOrgRole(...roles: OrgRole[]) {
+  const guard = async (
     req: Request,
     _res: Response,
     next: NextFunction
   ): Promise<void> => {
-    // Handle missing Clerk credentials gracefully
-    if (!features.auth) {
-      if (env.NODE_ENV === 'development') {
-        // Mock user for development
-        req.user = {
-          id: 'dev-user-id',
-          email: 'dev@example.com',
-          role: 'admin',
-          clerkId: 'dev-clerk-id',
-          metadata: {},
-        };
-        return next();
-      } else {
-        return next(new AuthError('Authentication not configured'));
-      }
-    }
-
     try {
+      // Guards used without requireAuth fall back to the dev identity
+      await resolveGuardUser(req);
+
       // Ensure user is authenticated
       if (!req.user) {
         throw new AuthError('Authentication required');
       }
 
-      // Admin bypasses all permission checks
-      if (req.user.role === 'admin') {
-        return next();
-      }
+      assertRoleScope(req.user);
 
-      // Check permissions based on role
-      const hasPermission = permissions.some((permission) => {
-        return checkRolePermission(req.user!.role, permission);
-      });
+      if (!req.organization) {
+        throw new ForbiddenError('An active organization is required');
+      }
 
-      if (!hasPermission) {
+      const role = req.organization.role;
+      if (!(roles as string[]).includes(role) && role !== OrgRole.OWNER) {
         throw new ForbiddenError(
-          `Access denied. Required permission(s): ${permissions.join(', ')}`
+          `Access denied. Required organization role(s): ${roles.join(', ')}`
         );
       }
 
@@ -273,96 +411,117 @@ export function requirePermission(...permissions: string[]) {
       next(error);
     }
   };
+
+  return describeGuard(guard, {
+    name: `requireOrgRole(${roles.join(', ')})`,
+    auth: 'required',
+    roles: roles.map((role) => `org:${role}`),
+  });
+}
+
+/**
+ * API keys only reach role-gated routes when they carry the `*` scope
+ */
+function assertRoleScope(user: AuthenticatedUser): void {
+  if (user.scopes && !user.scopes.includes('*')) {
+    throw new ForbiddenError('API key scopes do not allow this route');
+  }
 }
 
 /**
- * Check if a role has a specific permission
+ * Describe the authenticated principal of a request to the policy engine
  */
-function checkRolePermission(role: string, permission: string): boolean {
-  // Define role-permission mappings
-  const rolePermissions: Record<string, string[]> = {
-    admin: ['*'], // Admin has all permissions
-    moderator: [
-      'users:read',
-      'users:update:own',
-      'content:read',
-      'content:create',
-      'content:update:own',
-      'content:delete:own',
-      'content:moderate',
-    ],
-    user: [
-      'users:read:own',
-      'users:update:own',
-      'content:read',
-      'content:create',
-      'content:update:own',
-      'content:delete:own',
-    ],
+export function getPolicySubject(req: Request): PolicySubject {
+  const user = req.user!;
+
+  return {
+    id: user.id,
+    role: user.role,
+    ...(user.permissions && { permissions: user.permissions }),
+    ...(user.scopes && { scopes: user.scopes }),
+    ...(req.organization && {
+      organizationId: req.organization.id,
+      organizationRole: req.organization.role,
+    }),
   };
+}
+
+/**
+ * Require specific permission(s)
+ * AUDIT: Prefixed unused res parameter with underscore
+ */
+export function requirePermission(...permissions: string[]) {
+  const guard = async (
+    req: Request,
+    _res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      // Guards used without requireAuth fall back to the dev identity
+      await resolveGuardUser(req);
 
-  const permissions = rolePermissions[role] || [];
+      // Ensure user is authenticated
+      if (!req.user) {
+        throw new AuthError('Authentication required');
+      }
 
-  // Check for wildcard permission
-  if (permissions.includes('*')) {
-    return true;
-  }
+      // The platform role and permissions of the principal itself
+      // (services) grant permissions, and so does membership of the active
+      // organization, which is what organization routes act on. API key
+      // scopes must also allow them.
+      await ensureRolesLoaded();
+      const subject = getPolicySubject(req);
+      const hasPermission = permissions.some((permission) =>
+        isAllowed(
+          subject,
+          permission,
+          req.organization && { organizationId: req.organization.id }
+        )
+      );
 
-  // Check for exact permission match
-  if (permissions.includes(permission)) {
-    return true;
-  }
+      if (!hasPermission) {
+        throw new ForbiddenError(
+          `Access denied. Required permission(s): ${permissions.join(', ')}`
+        );
+      }
 
-  // Check for partial wildcard matches (e.g., 'users:*')
-  const permissionParts = permission.split(':');
-  for (let i = permissionParts.length; i > 0; i--) {
-    const wildcardPermission = permissionParts
-      .slice(0, i - 1)
-      .concat('*')
-      .join(':');
-    if (permissions.includes(wildcardPermission)) {
-      return true;
+      next();
+    } catch (error) {
+      next(error);
     }
-  }
+  };
 
-  return false;
+  return describeGuard(guard, {
+    name: `requirePermission(${permissions.join(', ')})`,
+    auth: 'required',
+    permissions,
+  });
 }
 
 /**
  * Middleware to check resource ownership
  * AUDIT: Prefixed unused res parameter with underscore
- * AUDIT: Added mock authentication for development when Clerk is not configured
+ * @deprecated Only compares an id taken from the request. Use
+ * authorizeResource (modules/rbac/resources.ts), which checks the stored
+ * resource against its policy.
  */
 export function requireOwnership(resourceUserIdPath: string = 'userId') {
-  return async (
+  const guard = async (
     req: Request,
     _res: Response,
     next: NextFunction
   ): Promise<void> => {
-    // Handle missing Clerk credentials gracefully
-    if (!features.auth) {
-      if (env.NODE_ENV === 'development') {
-        // Mock user for development
-        req.user = {
-          id: 'dev-user-id',
-          email: 'dev@example.com',
-          role: 'admin',
-          clerkId: 'dev-clerk-id',
-          metadata: {},
-        };
-        return next();
-      } else {
-        return next(new AuthError('Authentication not configured'));
-      }
-    }
-
     try {
+      // Guards used without requireAuth fall back to the dev identity
+      await resolveGuardUser(req);
+
       if (!req.user) {
         throw new AuthError('Authentication required');
       }
 
-      // Admin can access everything
-      if (req.user.role === 'admin') {
+      // Admins (and roles inheriting from admin) can access everything
+      await ensureRolesLoaded();
+      if (hasRole(req.user.role, UserRole.ADMIN)) {
         return next();
       }
 
@@ -387,8 +546,33 @@ export function requireOwnership(resourceUserIdPath: string = 'userId') {
       next(error);
     }
   };
+
+  return describeGuard(guard, {
+    name: `requireOwnership(${resourceUserIdPath})`,
+    auth: 'required',
+  });
 }
 
+/**
+ * Reject requests authenticated with an API key or a service signature, for
+ * account-level actions that need the user's own session (managing keys,
+ * deleting the account)
+ */
+export function rejectApiKeyPrincipal(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void {
+  if (req.user?.apiKeyId || req.user?.role === SERVICE_ROLE) {
+    return next(
+      new ForbiddenError('This action requires a signed-in user session')
+    );
+  }
+  next();
+}
+
+describeGuard(rejectApiKeyPrincipal);
+
 /**
  * Extract user ID from token without full authentication
  */
@@ -396,39 +580,40 @@ export async function getUserIdFromToken(
   token: string
 ): Promise<string | null> {
   try {
-    const session = await verifyClerkToken(token);
-    return session?.sub || null;
+    const { subject } = await verifyAuthToken(token);
+    return subject;
   } catch {
     return null;
   }
 }
 
 /**
- * Refresh user data from Clerk
+ * Refresh user data from the identity provider
  */
 export async function refreshUserData(clerkId: string): Promise<void> {
   try {
-    const clerkUser = await clerkClient.users.getUser(clerkId);
+    const profile = await getAuthProvider().getUser({
+      subject: clerkId,
+      claims: {},
+    });
 
-    if (!clerkUser) {
-      logger.warn(`Clerk user not found: ${clerkId}`);
+    if (!profile) {
+      logger.warn(`Provider user not found: ${clerkId}`);
       return;
     }
 
-    const UserModel = User as any;
-    const user = await UserModel.findByClerkId(clerkId);
+    const user = await User.findByClerkId(clerkId);
 
     if (user) {
-      user.email = clerkUser.emailAddresses[0]?.emailAddress;
-      user.name =
-        `${clerkUser.firstName || ''} ${clerkUser.lastName || ''}`.trim() ||
-        undefined;
-      user.emailVerified =
-        clerkUser.emailAddresses[0]?.verification?.status === 'verified';
-      user.profileImage = clerkUser.imageUrl;
+      user.email = profile.email;
+      if (profile.name) user.name = profile.name;
+      user.emailVerified = profile.emailVerified;
+      if (profile.profileImage) user.profileImage = profile.profileImage;
       await user.save();
     }
 
+    await invalidateIdentity(clerkId);
+
     logger.info(`User data refreshed for ${clerkId}`);
   } catch (error) {
     logger.error(`Failed to refresh user data for ${clerkId}`, { error });
@@ -0,0 +1,100 @@
+import { Request, Response, NextFunction } from 'express';
+import { Organization } from '../../database/mongodb/models/Organization';
+import { Membership } from '../../database/mongodb/models/Membership';
+import {
+  AuthError,
+  ForbiddenError,
+  NotFoundError,
+} from '../../core/types/errors';
+import { OrganizationContext } from '../../core/types';
+import { describeGuard } from '../../core/utils/routeManifest';
+
+/**
+ * Header used to select the active organization
+ */
+export const ORGANIZATION_HEADER = 'x-organization-id';
+
+/**
+ * Load the organization and the user's membership in it
+ */
+export async function loadOrganizationContext(
+  userId: string,
+  organizationId: string
+): Promise<OrganizationContext> {
+  if (!/^[0-9a-fA-F]{24}$/.test(organizationId)) {
+    throw new NotFoundError('Organization not found');
+  }
+
+  const [organization, membership] = await Promise.all([
+    Organization.findById(organizationId),
+    Membership.findMembership(organizationId, userId),
+  ]);
+
+  if (!organization) {
+    throw new NotFoundError('Organization not found');
+  }
+
+  if (!membership) {
+    throw new ForbiddenError('You are not a member of this organization');
+  }
+
+  return {
+    id: organizationId,
+    slug: organization.slug,
+    name: organization.name,
+    role: membership.role,
+  };
+}
+
+/**
+ * Resolve the organization selected with the X-Organization-Id header for an
+ * authenticated request. No-op when the header is absent.
+ */
+export async function attachOrganizationFromHeader(
+  req: Request
+): Promise<void> {
+  const organizationId = req.headers[ORGANIZATION_HEADER];
+
+  if (!req.user || typeof organizationId !== 'string' || !organizationId) {
+    return;
+  }
+
+  req.organization = await loadOrganizationContext(req.user.id, organizationId);
+}
+
+/**
+ * Resolve the active organization from a route param (falling back to the
+ * X-Organization-Id header). Must run after requireAuth.
+ */
+export function resolveOrganization(param: string = 'orgId') {
+  const guard = async (
+    req: Request,
+    _res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AuthError('Authentication required');
+      }
+
+      const header = req.headers[ORGANIZATION_HEADER];
+      const organizationId =
+        req.params[param] || (typeof header === 'string' ? header : undefined);
+
+      if (!organizationId) {
+        throw new NotFoundError('No organization selected');
+      }
+
+      req.organization = await loadOrganizationContext(
+        req.user.id,
+        organizationId
+      );
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  return describeGuard(guard, { name: `resolveOrganization(${param})` });
+}
@@ -0,0 +1,79 @@
+import { ApiKey } from '../../database/mongodb/models/ApiKey';
+import { LoginSession } from '../../database/mongodb/models/LoginSession';
+import { features } from '../../core/config/env';
+import {
+  registerErasureHook,
+  registerExportContributor,
+} from '../privacy/registry';
+import { getAuthProvider } from './providers';
+
+/**
+ * Revoke an erased user's API keys, and delete them after the grace period
+ */
+registerErasureHook({
+  name: 'api-keys',
+
+  async softDelete(ctx) {
+    const result = await ApiKey.updateMany(
+      { userId: ctx.userId, revokedAt: null },
+      { revokedAt: new Date() }
+    );
+    return result.modifiedCount;
+  },
+
+  async hardDelete(ctx) {
+    const result = await ApiKey.deleteMany({ userId: ctx.userId });
+    return result.deletedCount;
+  },
+});
+
+/**
+ * Delete the user at the identity provider so they can't sign in again
+ */
+registerErasureHook({
+  name: 'identity-provider',
+
+  async softDelete(ctx) {
+    const provider = features.auth ? getAuthProvider() : null;
+    if (!provider?.deleteUser || !ctx.clerkId) return 0;
+
+    await provider.deleteUser(ctx.clerkId);
+    return 1;
+  },
+});
+
+/**
+ * Delete an erased user's login history (IP addresses and devices)
+ */
+registerErasureHook({
+  name: 'login-sessions',
+
+  async softDelete(ctx) {
+    const result = await LoginSession.deleteMany({ userId: ctx.userId });
+    return result.deletedCount;
+  },
+});
+
+// Key metadata only: the key hash is never exported
+registerExportContributor({
+  name: 'api-keys',
+
+  async collect(ctx) {
+    const apiKeys = await ApiKey.find({ userId: ctx.userId }).sort({
+      createdAt: 1,
+    });
+    return apiKeys.map((apiKey) => apiKey.toJSON());
+  },
+});
+
+// Login history: devices, IP addresses and activity of each session
+registerExportContributor({
+  name: 'login-sessions',
+
+  async collect(ctx) {
+    const sessions = await LoginSession.find({ userId: ctx.userId }).sort({
+      firstSeenAt: 1,
+    });
+    return sessions.map((session) => session.toJSON());
+  },
+});
@@ -0,0 +1,74 @@
+import { clerkClient } from '@clerk/clerk-sdk-node';
+import { AuthError } from '../../../core/types/errors';
+import { logger } from '../../../core/config/logger';
+import { IUser } from '../../../database/mongodb/models/User';
+import { AuthProvider, ProviderUser, VerifiedToken } from './types';
+import { syncUserFromProfile } from './sync';
+
+/**
+ * Clerk-hosted authentication
+ */
+export class ClerkAuthProvider implements AuthProvider {
+  readonly name = 'clerk';
+
+  async verifyToken(token: string): Promise<VerifiedToken> {
+    let claims: Record<string, any>;
+
+    try {
+      claims = await clerkClient.verifyToken(token);
+    } catch (error) {
+      logger.error('Failed to verify Clerk token', { error });
+      throw new AuthError('Invalid authentication token');
+    }
+
+    if (!claims || !claims['sub']) {
+      throw new AuthError('Invalid authentication token');
+    }
+
+    return { subject: claims['sub'], claims };
+  }
+
+  async getUser(token: VerifiedToken): Promise<ProviderUser | null> {
+    const clerkUser = await clerkClient.users.getUser(token.subject);
+
+    if (!clerkUser) {
+      return null;
+    }
+
+    const name =
+      `${clerkUser.firstName || ''} ${clerkUser.lastName || ''}`.trim();
+    const primaryEmail = clerkUser.emailAddresses[0];
+
+    return {
+      subject: clerkUser.id,
+      email: primaryEmail?.emailAddress || '',
+      ...(name && { name }),
+      emailVerified: primaryEmail?.verification?.status === 'verified',
+      ...(clerkUser.imageUrl && { profileImage: clerkUser.imageUrl }),
+    };
+  }
+
+  async syncUser(profile: ProviderUser): Promise<IUser> {
+    return syncUserFromProfile(profile);
+  }
+
+  async deleteUser(subject: string): Promise<void> {
+    try {
+      await clerkClient.users.deleteUser(subject);
+    } catch (error: any) {
+      // Already deleted, e.g. when the erasure started from Clerk
+      if (error?.status === 404) return;
+      throw error;
+    }
+  }
+
+  async revokeSession(sessionId: string): Promise<void> {
+    try {
+      await clerkClient.sessions.revokeSession(sessionId);
+    } catch (error: any) {
+      // Already ended or removed
+      if (error?.status === 404) return;
+      throw error;
+    }
+  }
+}
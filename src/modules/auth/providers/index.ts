@@ -0,0 +1,54 @@
+import { env } from '../../../core/config/env';
+import { logger } from '../../../core/config/logger';
+import { loadJwksFile, loadPemPublicKey, JwtPublicKey } from '../jwt';
+import { AuthProvider } from './types';
+import { ClerkAuthProvider } from './clerk';
+import { JwtAuthProvider } from './jwt';
+
+export * from './types';
+export { ClerkAuthProvider } from './clerk';
+export { JwtAuthProvider } from './jwt';
+
+let provider: AuthProvider | null = null;
+
+/**
+ * Build the provider selected by `AUTH_PROVIDER`
+ */
+function createAuthProvider(): AuthProvider {
+  if (env.AUTH_PROVIDER === 'jwt') {
+    const publicKeys: JwtPublicKey[] = [
+      ...(env.AUTH_JWT_PUBLIC_KEY_FILE
+        ? loadPemPublicKey(env.AUTH_JWT_PUBLIC_KEY_FILE)
+        : []),
+      ...(env.AUTH_JWKS_FILE ? loadJwksFile(env.AUTH_JWKS_FILE) : []),
+    ];
+
+    return new JwtAuthProvider({
+      ...(env.AUTH_JWT_SECRET && { secret: env.AUTH_JWT_SECRET }),
+      ...(publicKeys.length > 0 && { publicKeys }),
+      ...(env.AUTH_JWT_ISSUER && { issuer: env.AUTH_JWT_ISSUER }),
+      ...(env.AUTH_JWT_AUDIENCE && { audience: env.AUTH_JWT_AUDIENCE }),
+    });
+  }
+
+  return new ClerkAuthProvider();
+}
+
+/**
+ * Get the active auth provider (lazy initialization)
+ */
+export function getAuthProvider(): AuthProvider {
+  if (!provider) {
+    provider = createAuthProvider();
+    logger.info(`Auth provider initialized: ${provider.name}`);
+  }
+
+  return provider;
+}
+
+/**
+ * Replace the active provider (tests, custom providers)
+ */
+export function setAuthProvider(authProvider: AuthProvider | null): void {
+  provider = authProvider;
+}
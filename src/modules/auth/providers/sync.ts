@@ -0,0 +1,65 @@
+import { User, IUser } from '../../../database/mongodb/models/User';
+import { env } from '../../../core/config/env';
+import { AuthError } from '../../../core/types/errors';
+import { ensureRolesLoaded, isKnownRole } from '../../rbac/roleCache';
+import { ProviderUser } from './types';
+
+/**
+ * Create or update the local user for a provider profile and record the
+ * login. The profile's role, when it names a known role, is applied unless
+ * an admin assigned one. `lastLoginAt` is written at most once per
+ * LAST_LOGIN_UPDATE_INTERVAL. Shared by all providers.
+ */
+export async function syncUserFromProfile(
+  profile: ProviderUser
+): Promise<IUser> {
+  // Only roles we know (built-in or stored) are taken from the claim
+  await ensureRolesLoaded();
+  const role =
+    profile.role && isKnownRole(profile.role) ? profile.role : undefined;
+
+  const user = await User.findByClerkId(profile.subject);
+
+  if (!user) {
+    // Deleted accounts stay deleted until their erasure is purged
+    const deleted = await User.exists({ clerkId: profile.subject }).setOptions({
+      includeDeleted: true,
+    } as any);
+    if (deleted) {
+      throw new AuthError('This account has been deleted');
+    }
+
+    // Auto-create user if doesn't exist
+    return User.create({
+      clerkId: profile.subject,
+      email: profile.email,
+      name: profile.name,
+      emailVerified: profile.emailVerified,
+      profileImage: profile.profileImage,
+      ...(role && { role }),
+      lastLoginAt: new Date(),
+    });
+  }
+
+  user.email = profile.email;
+  if (profile.name) user.name = profile.name;
+  user.emailVerified = profile.emailVerified;
+  if (profile.profileImage) user.profileImage = profile.profileImage;
+  // A role an admin assigned wins over the provider's claim
+  if (role && !user.roleAssignedAt) user.role = role;
+
+  const now = Date.now();
+  if (
+    !user.lastLoginAt ||
+    now - user.lastLoginAt.getTime() >= env.LAST_LOGIN_UPDATE_INTERVAL * 1000
+  ) {
+    user.lastLoginAt = new Date(now);
+  }
+
+  // Only writes when the profile or the login timestamp changed
+  if (user.isModified()) {
+    await user.save();
+  }
+
+  return user;
+}
@@ -0,0 +1,65 @@
+import { IUser } from '../../../database/mongodb/models/User';
+
+/**
+ * Result of a successful token verification
+ */
+export interface VerifiedToken {
+  /**
+   * Identity of the user at the provider (stored as `User.clerkId`)
+   */
+  subject: string;
+  /**
+   * Full set of verified claims
+   */
+  claims: Record<string, any>;
+}
+
+/**
+ * User profile as known by the identity provider
+ */
+export interface ProviderUser {
+  subject: string;
+  email: string;
+  name?: string;
+  emailVerified: boolean;
+  profileImage?: string;
+  /**
+   * Role asserted by the provider. Only set by providers whose tokens are
+   * issued by us, so the claim can be trusted.
+   */
+  role?: string;
+}
+
+/**
+ * Identity provider used by the auth middleware and Socket.IO handshake
+ */
+export interface AuthProvider {
+  readonly name: string;
+
+  /**
+   * Verify a bearer token, throwing `AuthError` when it is not valid
+   */
+  verifyToken(token: string): Promise<VerifiedToken>;
+
+  /**
+   * Load the user profile behind a verified token
+   */
+  getUser(token: VerifiedToken): Promise<ProviderUser | null>;
+
+  /**
+   * Create or update the local `User` document for a provider profile
+   */
+  syncUser(profile: ProviderUser): Promise<IUser>;
+
+  /**
+   * Delete the user at the provider, used by account erasure. Providers
+   * that don't store users leave this out.
+   */
+  deleteUser?(subject: string): Promise<void>;
+
+  /**
+   * End a session at the provider so it can't mint new tokens. Providers
+   * without server-side sessions leave this out.
+   */
+  revokeSession?(sessionId: string): Promise<void>;
+}
@@ -0,0 +1,118 @@
+import { get, set } from '../../core/config/redis';
+import { env, features } from '../../core/config/env';
+import { logger } from '../../core/config/logger';
+import { AuthError } from '../../core/types/errors';
+
+/**
+ * Redis key prefixes of the deny-list
+ */
+const USER_KEY_PREFIX = 'auth:revoked:user:';
+const TOKEN_KEY_PREFIX = 'auth:revoked:token:';
+
+/**
+ * Claims used to match a token against the deny-list
+ */
+export interface RevocableToken {
+  iat?: number | undefined;
+  jti?: string | undefined;
+  /**
+   * Clerk session id
+   */
+  sid?: string | undefined;
+}
+
+/**
+ * In-memory deny-list used when Redis is not configured (single instance
+ * deployments and development)
+ */
+const memoryStore = new Map<string, { value: string; expiresAt: number }>();
+
+async function store(key: string, value: string, ttl: number): Promise<void> {
+  if (features.redis && (await set(key, value, ttl))) {
+    return;
+  }
+  memoryStore.set(key, { value, expiresAt: Date.now() + ttl * 1000 });
+}
+
+async function load(key: string): Promise<string | null> {
+  if (features.redis) {
+    const value = await get<string | number>(key);
+    if (value !== null) return String(value);
+  }
+
+  const entry = memoryStore.get(key);
+  if (!entry) return null;
+  if (entry.expiresAt <= Date.now()) {
+    memoryStore.delete(key);
+    return null;
+  }
+  return entry.value;
+}
+
+/**
+ * Revoke every token issued to a user up to now. Tokens issued afterwards
+ * (after signing in again) keep working.
+ */
+export async function revokeUserSessions(userId: string): Promise<void> {
+  const revokedBefore = Math.floor(Date.now() / 1000);
+
+  await store(
+    `${USER_KEY_PREFIX}${userId}`,
+    String(revokedBefore),
+    env.AUTH_REVOCATION_TTL
+  );
+
+  logger.info('User sessions revoked', { userId, revokedBefore });
+}
+
+/**
+ * Revoke a single token by its id (`jti`), or every token of a session by
+ * the session id (`sid`)
+ */
+export async function revokeToken(
+  tokenId: string,
+  expiresAt?: Date
+): Promise<void> {
+  const ttl = expiresAt
+    ? Math.max(1, Math.ceil((expiresAt.getTime() - Date.now()) / 1000))
+    : env.AUTH_REVOCATION_TTL;
+
+  await store(`${TOKEN_KEY_PREFIX}${tokenId}`, '1', ttl);
+
+  logger.info('Token revoked', { tokenId });
+}
+
+/**
+ * Check whether a token issued to a user has been revoked
+ */
+export async function isRevoked(
+  userId: string,
+  claims: RevocableToken
+): Promise<boolean> {
+  // A token is revoked on its own (jti) or with its whole session (sid)
+  for (const tokenId of [claims.jti, claims.sid]) {
+    if (tokenId && (await load(`${TOKEN_KEY_PREFIX}${tokenId}`)) !== null) {
+      return true;
+    }
+  }
+
+  const revokedBefore = await load(`${USER_KEY_PREFIX}${userId}`);
+  if (revokedBefore === null) {
+    return false;
+  }
+
+  // Tokens without an issue time can't be told apart, so reject them
+  return typeof claims.iat !== 'number' || claims.iat <= Number(revokedBefore);
+}
+
+/**
+ * Throw if a token issued to a user has been revoked
+ */
+export async function assertNotRevoked(
+  userId: string,
+  claims: RevocableToken
+): Promise<void> {
+  if (await isRevoked(userId, claims)) {
+    throw new AuthError('Session has been revoked');
+  }
+}
@@ -0,0 +1,178 @@
+import { Router } from 'express';
+import {
+  requireAuth,
+  requirePlatformRole,
+  rejectApiKeyPrincipal,
+} from './middleware';
+import { asyncHandler } from '../../core/middleware/asyncHandler';
+import { validate } from '../../core/middleware/validate';
+import { strictLimiter } from '../../core/middleware/rateLimiter';
+import { success, deleted } from '../../core/utils/apiResponse';
+import { NotFoundError, ValidationError } from '../../core/types/errors';
+import { AuditLog } from '../../database/mongodb/models/AuditLog';
+import { User } from '../../database/mongodb/models/User';
+import { LoginSession } from '../../database/mongodb/models/LoginSession';
+import {
+  listApiKeys,
+  createApiKey,
+  rotateApiKey,
+  revokeApiKey,
+} from './apiKeys';
+import {
+  issueImpersonationToken,
+  disallowImpersonation,
+} from './impersonation';
+import { revokeUserSessions, revokeToken } from './revocation';
+import { requireRecentAuth } from './stepUp';
+import { requireEntitlement } from '../payments/entitlements';
+import { disconnectUser } from '../realtime/server';
+import {
+  createApiKeySchema,
+  apiKeyIdParamSchema,
+  impersonateSchema,
+  userIdParamSchema,
+  revokeSessionsSchema,
+} from './schema';
+
+const router = Router();
+
+// List the current user's active keys
+router.get(
+  '/api-keys',
+  requireAuth,
+  rejectApiKeyPrincipal,
+  asyncHandler(async (req, res) => {
+    const apiKeys = await listApiKeys(req.user!.id);
+    res.json(success(apiKeys));
+  })
+);
+
+// Create a key. The plaintext key is only returned in this response.
+router.post(
+  '/api-keys',
+  requireAuth,
+  rejectApiKeyPrincipal,
+  disallowImpersonation,
+  requireEntitlement('api-keys'),
+  requireRecentAuth(),
+  strictLimiter,
+  validate(createApiKeySchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { apiKey, key } = await createApiKey(req.user!.id, req.body);
+    res
+      .status(201)
+      .json(
+        success(
+          { apiKey, key },
+          { message: 'Store this key now, it will not be shown again' }
+        )
+      );
+  })
+);
+
+// Rotate a key: revokes it and returns a replacement
+router.post(
+  '/api-keys/:id/rotate',
+  requireAuth,
+  rejectApiKeyPrincipal,
+  disallowImpersonation,
+  requireEntitlement('api-keys'),
+  requireRecentAuth(),
+  strictLimiter,
+  validate(apiKeyIdParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { apiKey, key } = await rotateApiKey(
+      req.params['id'] as string,
+      req.user!.id
+    );
+    res.json(
+      success(
+        { apiKey, key },
+        { message: 'Store this key now, it will not be shown again' }
+      )
+    );
+  })
+);
+
+// Revoke a key
+router.delete(
+  '/api-keys/:id',
+  requireAuth,
+  rejectApiKeyPrincipal,
+  disallowImpersonation,
+  validate(apiKeyIdParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    await revokeApiKey(req.params['id'] as string, req.user!.id);
+    res.json(deleted('API key revoked successfully'));
+  })
+);
+
+// Start impersonating a user (admins only). Returns a short-lived bearer
+// token that authenticates as the target user.
+router.post(
+  '/impersonate',
+  requireAuth,
+  rejectApiKeyPrincipal,
+  disallowImpersonation,
+  requirePlatformRole('admin'),
+  strictLimiter,
+  validate(impersonateSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { token, expiresAt, user } = await issueImpersonationToken(
+      req.user!,
+      req.body.userId,
+      req.body.reason
+    );
+    res.status(201).json(success({ token, expiresAt, user }));
+  })
+);
+
+// End the current impersonation by revoking its token
+router.post(
+  '/impersonate/stop',
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    if (!req.impersonator) {
+      throw new ValidationError('This request is not impersonating a user');
+    }
+
+    await revokeToken(req.impersonator.tokenId);
+    res.json(success({ stopped: true }));
+  })
+);
+
+// Force logout: revoke every token issued to a user so far and close their
+// live sockets (admins only)
+router.post(
+  '/users/:userId/revoke',
+  requireAuth,
+  rejectApiKeyPrincipal,
+  disallowImpersonation,
+  requirePlatformRole('admin'),
+  validate(userIdParamSchema, 'params'),
+  validate(revokeSessionsSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const userId = req.params['userId'] as string;
+
+    if (!(await User.exists({ _id: userId }))) {
+      throw new NotFoundError('User not found');
+    }
+
+    await revokeUserSessions(userId);
+    await LoginSession.endUserSessions(userId, 'revoked');
+    disconnectUser(userId);
+
+    await AuditLog.log({
+      userId: req.user!.id,
+      userEmail: req.user!.email,
+      action: 'revoke',
+      resource: 'session',
+      resourceId: userId,
+      metadata: { reason: req.body.reason },
+    });
+
+    res.json(success({ revoked: true }));
+  })
+);
+
+export default router;
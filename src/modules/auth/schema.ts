@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { commonSchemas } from '../../core/middleware/validate';
+
+/**
+ * Permission scope, e.g. `content:read` or `content:*`
+ */
+const scopeSchema = z
+  .string()
+  .trim()
+  .regex(/^(\*|[a-z][a-z0-9_-]*(:([a-z][a-z0-9_-]*|\*))*)$/, 'Invalid scope');
+
+/**
+ * Create API key schema
+ */
+export const createApiKeySchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Name is required')
+    .max(100, 'Name cannot exceed 100 characters')
+    .trim(),
+  scopes: z.array(scopeSchema).min(1, 'At least one scope is required').max(50),
+  expiresAt: z.coerce
+    .date()
+    .refine(
+      (date) => date.getTime() > Date.now(),
+      'Expiry must be in the future'
+    )
+    .optional(),
+});
+
+/**
+ * API key ID param schema
+ */
+export const apiKeyIdParamSchema = z.object({
+  id: commonSchemas.objectId,
+});
+
+/**
+ * Start impersonation schema
+ */
+export const impersonateSchema = z.object({
+  userId: commonSchemas.objectId,
+  reason: z
+    .string()
+    .min(3, 'A reason is required')
+    .max(500, 'Reason cannot exceed 500 characters')
+    .trim(),
+});
+
+/**
+ * User ID param schema
+ */
+export const userIdParamSchema = z.object({
+  userId: commonSchemas.objectId,
+});
+
+/**
+ * Revoke sessions schema
+ */
+export const revokeSessionsSchema = z.object({
+  reason: z
+    .string()
+    .max(500, 'Reason cannot exceed 500 characters')
+    .trim()
+    .optional(),
+});
+
+/**
+ * Type exports
+ */
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+export type ImpersonateInput = z.infer<typeof impersonateSchema>;
@@ -0,0 +1,362 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { getRedisClient } from '../../core/config/redis';
+import { AuthError, isBaseError } from '../../core/types/errors';
+import { AuthenticatedUser } from '../../core/types';
+import { env, features } from '../../core/config/env';
+import { logger } from '../../core/config/logger';
+import { describeGuard } from '../../core/utils/routeManifest';
+
+/**
+ * Role of service principals
+ */
+export const SERVICE_ROLE = 'service';
+
+/**
+ * Authorization scheme of signed service requests:
+ * `Authorization: Service <keyId>`
+ */
+export const SERVICE_AUTH_SCHEME = 'Service';
+
+/**
+ * Headers of a signed service request
+ */
+export const SERVICE_TIMESTAMP_HEADER = 'x-service-timestamp';
+export const SERVICE_NONCE_HEADER = 'x-service-nonce';
+export const SERVICE_SIGNATURE_HEADER = 'x-service-signature';
+
+/**
+ * Redis key prefix of nonces already used
+ */
+const NONCE_KEY_PREFIX = 'auth:service-nonce:';
+
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+/**
+ * Service keys file format (`SERVICE_KEYS_FILE`). A key's secret is given
+ * inline or read from an environment variable, so the file can be committed
+ * without secrets.
+ */
+const serviceKeysFileSchema = z.object({
+  services: z.record(
+    z.object({
+      permissions: z.array(z.string().min(1)).default([]),
+      keys: z
+        .array(
+          z
+            .object({
+              id: z.string().min(1),
+              secret: z.string().min(32).optional(),
+              secretEnv: z.string().min(1).optional(),
+              expiresAt: z.coerce.date().optional(),
+            })
+            .refine((key) => key.secret || key.secretEnv, {
+              message: 'Each key needs a secret or a secretEnv',
+            })
+        )
+        .min(1),
+    })
+  ),
+});
+
+/**
+ * A signing key and the service it authenticates
+ */
+export interface ServiceKey {
+  id: string;
+  service: string;
+  secret: string;
+  permissions: string[];
+  expiresAt?: Date;
+}
+
+let serviceKeys: Map<string, ServiceKey> | null = null;
+
+/**
+ * Load the service keys file once
+ */
+function getServiceKeys(): Map<string, ServiceKey> {
+  if (serviceKeys) return serviceKeys;
+
+  serviceKeys = new Map();
+  if (!env.SERVICE_KEYS_FILE) return serviceKeys;
+
+  const filePath = path.resolve(process.cwd(), env.SERVICE_KEYS_FILE);
+  const parsed = serviceKeysFileSchema.parse(
+    JSON.parse(fs.readFileSync(filePath, 'utf8'))
+  );
+
+  for (const [service, config] of Object.entries(parsed.services)) {
+    for (const key of config.keys) {
+      const secret = key.secret ?? process.env[key.secretEnv!];
+      if (!secret || secret.length < 32) {
+        throw new Error(
+          `Service key ${key.id} has no secret of at least 32 characters`
+        );
+      }
+      if (serviceKeys.has(key.id)) {
+        throw new Error(`Duplicate service key id ${key.id}`);
+      }
+
+      serviceKeys.set(key.id, {
+        id: key.id,
+        service,
+        secret,
+        permissions: config.permissions,
+        ...(key.expiresAt && { expiresAt: key.expiresAt }),
+      });
+    }
+  }
+
+  logger.info(`Loaded ${serviceKeys.size} service key(s) from ${filePath}`);
+  return serviceKeys;
+}
+
+/**
+ * SHA-256 digest of a request body (hex). An empty body has the digest of
+ * the empty string.
+ */
+export function digestBody(body: Buffer | string | undefined): string {
+  return crypto
+    .createHash('sha256')
+    .update(body ?? '')
+    .digest('hex');
+}
+
+/**
+ * Compute the signature of a request: HMAC-SHA256 over the method, path
+ * (with query string), timestamp, nonce and body digest, one per line
+ */
+export function computeServiceSignature(
+  secret: string,
+  parts: {
+    method: string;
+    path: string;
+    timestamp: string | number;
+    nonce: string;
+    bodyDigest: string;
+  }
+): string {
+  const canonical = [
+    parts.method.toUpperCase(),
+    parts.path,
+    String(parts.timestamp),
+    parts.nonce,
+    parts.bodyDigest,
+  ].join('\n');
+
+  return crypto.createHmac('sha256', secret).update(canonical).digest('hex');
+}
+
+/**
+ * Build the headers of a signed request. Used by internal clients calling
+ * this API.
+ */
+export function signServiceRequest(options: {
+  keyId: string;
+  secret: string;
+  method: string;
+  path: string;
+  body?: Buffer | string;
+  timestamp?: number;
+  nonce?: string;
+}): Record<string, string> {
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+  const nonce = options.nonce ?? crypto.randomBytes(16).toString('hex');
+
+  const signature = computeServiceSignature(options.secret, {
+    method: options.method,
+    path: options.path,
+    timestamp,
+    nonce,
+    bodyDigest: digestBody(options.body),
+  });
+
+  return {
+    Authorization: `${SERVICE_AUTH_SCHEME} ${options.keyId}`,
+    'X-Service-Timestamp': String(timestamp),
+    'X-Service-Nonce': nonce,
+    'X-Service-Signature': signature,
+  };
+}
+
+/**
+ * Bytes the signature covers: the raw body captured by the body parser, or
+ * the body itself on raw-body routes
+ */
+function getSignedBody(req: Request): Buffer | undefined {
+  if (req.rawBody) return req.rawBody;
+  return Buffer.isBuffer(req.body) ? req.body : undefined;
+}
+
+/**
+ * Check the timestamp and signature of a request signed with `key`.
+ * Replays are checked separately (see `claimNonce`).
+ */
+export function verifyServiceRequest(
+  req: Request,
+  key: ServiceKey,
+  now: number = Date.now()
+): { nonce: string; timestamp: number } {
+  const timestampHeader = req.headers[SERVICE_TIMESTAMP_HEADER];
+  const nonce = req.headers[SERVICE_NONCE_HEADER];
+  const signature = req.headers[SERVICE_SIGNATURE_HEADER];
+
+  if (
+    typeof timestampHeader !== 'string' ||
+    typeof nonce !== 'string' ||
+    typeof signature !== 'string'
+  ) {
+    throw new AuthError('Missing service signature headers');
+  }
+
+  if (!NONCE_PATTERN.test(nonce)) {
+    throw new AuthError('Invalid service request nonce');
+  }
+
+  const timestamp = Number(timestampHeader);
+  if (
+    !Number.isInteger(timestamp) ||
+    Math.abs(now / 1000 - timestamp) > env.SERVICE_AUTH_MAX_SKEW
+  ) {
+    throw new AuthError('Service request timestamp is outside the window');
+  }
+
+  if (key.expiresAt && key.expiresAt.getTime() <= now) {
+    throw new AuthError('Service key has expired');
+  }
+
+  const expected = computeServiceSignature(key.secret, {
+    method: req.method,
+    path: req.originalUrl,
+    timestamp: timestampHeader,
+    nonce,
+    bodyDigest: digestBody(getSignedBody(req)),
+  });
+
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  const signatureBuffer = Buffer.from(signature, 'hex');
+
+  if (
+    signatureBuffer.length !== expectedBuffer.length ||
+    !crypto.timingSafeEqual(signatureBuffer, expectedBuffer)
+  ) {
+    throw new AuthError('Invalid service request signature');
+  }
+
+  return { nonce, timestamp };
+}
+
+/**
+ * Nonces used in this process, when Redis is not configured (single
+ * instance deployments and development)
+ */
+const memoryNonces = new Map<string, number>();
+
+/**
+ * Record a nonce as used. Returns false when it was already used within the
+ * replay window.
+ */
+export async function claimNonce(
+  keyId: string,
+  nonce: string
+): Promise<boolean> {
+  const key = `${NONCE_KEY_PREFIX}${keyId}:${nonce}`;
+  // Covers the whole window a timestamp is accepted in, on both sides
+  const ttl = env.SERVICE_AUTH_MAX_SKEW * 2;
+
+  const client = features.redis ? getRedisClient() : null;
+  if (client) {
+    const result = await client.set(key, '1', 'EX', ttl, 'NX');
+    return result === 'OK';
+  }
+
+  const now = Date.now();
+  for (const [storedKey, expiresAt] of memoryNonces) {
+    if (expiresAt > now) break;
+    memoryNonces.delete(storedKey);
+  }
+
+  const expiresAt = memoryNonces.get(key);
+  if (expiresAt && expiresAt > now) {
+    return false;
+  }
+
+  memoryNonces.set(key, now + ttl * 1000);
+  return true;
+}
+
+/**
+ * Whether a request carries a service signature
+ */
+export function isServiceRequest(req: Request): boolean {
+  return (
+    req.headers.authorization?.startsWith(`${SERVICE_AUTH_SCHEME} `) ?? false
+  );
+}
+
+/**
+ * Authenticate a signed service request and build its principal. Service
+ * principals carry their permissions, so `requirePermission` checks them
+ * like any user.
+ */
+export async function authenticateServiceRequest(
+  req: Request
+): Promise<AuthenticatedUser> {
+  const keyId = req.headers.authorization
+    ?.slice(SERVICE_AUTH_SCHEME.length + 1)
+    .trim();
+
+  const key = keyId ? getServiceKeys().get(keyId) : undefined;
+  if (!key) {
+    throw new AuthError('Unknown service key');
+  }
+
+  const { nonce } = verifyServiceRequest(req, key);
+
+  if (!(await claimNonce(key.id, nonce))) {
+    logger.warn('Replayed service request rejected', {
+      service: key.service,
+      keyId: key.id,
+    });
+    throw new AuthError('Service request has already been used');
+  }
+
+  return {
+    id: `service:${key.service}`,
+    email: `${key.service}@services.internal`,
+    role: SERVICE_ROLE,
+    clerkId: `service:${key.service}`,
+    metadata: { service: key.service, keyId: key.id },
+    permissions: key.permissions,
+  };
+}
+
+/**
+ * Require a signed service request. Use on internal routes that only other
+ * services may call; `requireAuth` also accepts service signatures.
+ */
+export async function requireServiceAuth(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!isServiceRequest(req)) {
+      throw new AuthError('Service authentication required');
+    }
+    req.user = await authenticateServiceRequest(req);
+    next();
+  } catch (error) {
+    if (isBaseError(error)) {
+      return next(error);
+    }
+    logger.error('Service authentication error', { error });
+    next(new AuthError('Authentication failed'));
+  }
+}
+
+describeGuard(requireServiceAuth, { auth: 'required' });
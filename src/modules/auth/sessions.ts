@@ -0,0 +1,286 @@
+import { Request } from 'express';
+import {
+  LoginSession,
+  ILoginSession,
+  LoginSessionEndReason,
+} from '../../database/mongodb/models/LoginSession';
+import { User } from '../../database/mongodb/models/User';
+import { AuditLog } from '../../database/mongodb/models/AuditLog';
+import { NotFoundError } from '../../core/types/errors';
+import { env, features } from '../../core/config/env';
+import { logger } from '../../core/config/logger';
+import { parseUserAgent, deviceKey } from '../../core/utils/userAgent';
+import { getEmailQueue } from '../jobs/queue';
+import { sendEmail } from '../email/service';
+import { getAuthProvider } from './providers';
+import { revokeToken } from './revocation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sessions seen by this process, to throttle lastSeenAt writes
+ */
+const MAX_TRACKED_SESSIONS = 10000;
+const lastTracked = new Map<string, number>();
+
+/**
+ * Activity of a session, reported by a request or a provider webhook
+ */
+export interface SessionActivity {
+  userId: string;
+  sessionId: string;
+  source: 'webhook' | 'request';
+  ipAddress?: string;
+  userAgent?: string;
+  location?: { city?: string; country?: string };
+  at?: Date;
+}
+
+/**
+ * Record that a session was used: creates it on first sight, then updates
+ * its last activity. The device is read from the first user agent seen, and
+ * the user is alerted when it is a device they haven't signed in from.
+ */
+export async function recordSessionActivity(
+  activity: SessionActivity
+): Promise<ILoginSession | null> {
+  const now = activity.at ?? new Date();
+  const expiresAt = new Date(
+    now.getTime() + env.LOGIN_HISTORY_RETENTION_DAYS * DAY_MS
+  );
+  const device = activity.userAgent
+    ? parseUserAgent(activity.userAgent)
+    : undefined;
+
+  let session = await LoginSession.findOne({ sessionId: activity.sessionId });
+  let learnedDevice = false;
+
+  if (!session) {
+    try {
+      session = await LoginSession.create({
+        userId: activity.userId,
+        sessionId: activity.sessionId,
+        source: activity.source,
+        ...(activity.ipAddress && { ipAddress: activity.ipAddress }),
+        ...(activity.userAgent && { userAgent: activity.userAgent }),
+        ...(device && { device, deviceKey: deviceKey(device) }),
+        ...(activity.location && { location: activity.location }),
+        firstSeenAt: now,
+        lastSeenAt: now,
+        expiresAt,
+      });
+    } catch (error: any) {
+      // The webhook and the first request raced to create the session
+      if (error?.code === 11000) return null;
+      throw error;
+    }
+    learnedDevice = device !== undefined;
+  } else {
+    // Ended sessions and sessions of another user are left untouched
+    if (session.revokedAt || session.userId !== activity.userId) {
+      return session;
+    }
+
+    if (now > session.lastSeenAt) {
+      session.lastSeenAt = now;
+      session.expiresAt = expiresAt;
+    }
+    if (activity.ipAddress) session.ipAddress = activity.ipAddress;
+    if (activity.location) session.location = activity.location;
+    if (!session.deviceKey && device) {
+      session.set({
+        userAgent: activity.userAgent,
+        device,
+        deviceKey: deviceKey(device),
+      });
+      learnedDevice = true;
+    }
+
+    await session.save();
+  }
+
+  if (learnedDevice) {
+    await alertIfNewDevice(session);
+  }
+
+  return session;
+}
+
+/**
+ * Record the activity of the session behind an authenticated request. Writes
+ * at most once per SESSION_ACTIVITY_INTERVAL per session and never delays
+ * the request.
+ */
+export function trackRequestSession(req: Request): void {
+  const user = req.user;
+  if (!user?.sessionId) return;
+
+  const now = Date.now();
+  const last = lastTracked.get(user.sessionId);
+  if (last !== undefined && now - last < env.SESSION_ACTIVITY_INTERVAL * 1000) {
+    return;
+  }
+
+  lastTracked.delete(user.sessionId);
+  lastTracked.set(user.sessionId, now);
+  if (lastTracked.size > MAX_TRACKED_SESSIONS) {
+    const oldest = lastTracked.keys().next().value;
+    if (oldest !== undefined) lastTracked.delete(oldest);
+  }
+
+  const userAgent = req.headers['user-agent'];
+
+  recordSessionActivity({
+    userId: user.id,
+    sessionId: user.sessionId,
+    source: 'request',
+    ...(req.ip && { ipAddress: req.ip }),
+    ...(userAgent && { userAgent }),
+  }).catch((error) => {
+    logger.error('Failed to record session activity', {
+      error,
+      userId: user.id,
+    });
+  });
+}
+
+/**
+ * Email the user when a session comes from a device none of their other
+ * sessions used. The first session of a user is not reported.
+ */
+async function alertIfNewDevice(session: ILoginSession): Promise<void> {
+  if (!env.NEW_DEVICE_ALERTS || !session.deviceKey || !session.device) return;
+
+  const [seen, hasOtherSessions] = await Promise.all([
+    LoginSession.hasSeenDevice(
+      session.userId,
+      session.deviceKey,
+      session.sessionId
+    ),
+    LoginSession.exists({
+      userId: session.userId,
+      sessionId: { $ne: session.sessionId },
+    }),
+  ]);
+  if (seen || !hasOtherSessions) return;
+
+  const user = await User.findById(session.userId);
+  if (!user) return;
+
+  const { browser, os } = session.device;
+  const where = [session.location?.city, session.location?.country]
+    .filter(Boolean)
+    .join(', ');
+  const from = [session.ipAddress, where].filter(Boolean).join(' - ');
+  const details = `${browser} on ${os}${from ? ` (${from})` : ''}`;
+
+  await AuditLog.log({
+    userId: session.userId,
+    userEmail: user.email,
+    action: 'new_device_login',
+    resource: 'session',
+    resourceId: (session._id as unknown as string).toString(),
+    ...(session.ipAddress && { ipAddress: session.ipAddress }),
+    ...(session.userAgent && { userAgent: session.userAgent }),
+    metadata: { device: session.device },
+  });
+
+  const payload = {
+    to: user.email,
+    userId: session.userId,
+    subject: 'New sign-in to your account',
+    html: `<p>Your account was just signed in to from a new device: ${details}.</p><p>If this wasn't you, end the session from your account settings and change your password.</p>`,
+    text: `Your account was just signed in to from a new device: ${details}. If this wasn't you, end the session from your account settings and change your password.`,
+  };
+
+  try {
+    const emailQueue = getEmailQueue();
+    if (emailQueue) {
+      await emailQueue.add('new-device-login', payload);
+    } else {
+      await sendEmail(payload);
+    }
+  } catch (error) {
+    logger.error('Failed to send new device alert', {
+      error,
+      userId: session.userId,
+    });
+  }
+}
+
+/**
+ * List a user's sessions, most recently used first. Ended sessions are
+ * included when `includeEnded` is set (login history).
+ */
+export async function listLoginSessions(
+  userId: string,
+  options: { includeEnded: boolean; limit: number; skip: number }
+): Promise<{ data: ILoginSession[]; total: number }> {
+  const filter = {
+    userId,
+    ...(!options.includeEnded && { revokedAt: null }),
+  };
+
+  const [data, total] = await Promise.all([
+    LoginSession.find(filter)
+      .sort({ lastSeenAt: -1 })
+      .skip(options.skip)
+      .limit(options.limit),
+    LoginSession.countDocuments(filter),
+  ]);
+
+  return { data, total };
+}
+
+/**
+ * End one of a user's sessions: its tokens are rejected from now on and the
+ * provider stops refreshing it
+ */
+export async function revokeLoginSession(
+  userId: string,
+  id: string
+): Promise<ILoginSession> {
+  const session = await LoginSession.findOne({ _id: id, userId });
+
+  if (!session) {
+    throw new NotFoundError('Session not found');
+  }
+
+  if (session.revokedAt) {
+    return session;
+  }
+
+  await revokeToken(session.sessionId);
+
+  const provider = features.auth ? getAuthProvider() : null;
+  if (provider?.revokeSession) {
+    await provider.revokeSession(session.sessionId);
+  }
+
+  session.revokedAt = new Date();
+  session.endReason = 'revoked';
+  await session.save();
+
+  await AuditLog.log({
+    userId,
+    action: 'revoke',
+    resource: 'session',
+    resourceId: id,
+    metadata: { device: session.device },
+  });
+
+  return session;
+}
+
+/**
+ * Mark a session ended by the provider (sign-out, expiry, removal)
+ */
+export async function endLoginSession(
+  sessionId: string,
+  reason: LoginSessionEndReason
+): Promise<void> {
+  await LoginSession.updateOne(
+    { sessionId, revokedAt: null },
+    { revokedAt: new Date(), endReason: reason }
+  );
+}
@@ -0,0 +1,142 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  AuthError,
+  ForbiddenError,
+  StepUpRequiredError,
+  isBaseError,
+} from '../../core/types/errors';
+import { env, features } from '../../core/config/env';
+import { logger } from '../../core/config/logger';
+import { describeGuard } from '../../core/utils/routeManifest';
+import { verifyAuthToken } from './middleware';
+import { SERVICE_ROLE } from './serviceAuth';
+
+/**
+ * `amr` values that mean a second factor was used
+ */
+const MFA_METHODS = ['mfa', 'otp', 'totp', 'sms', 'hwk', 'swk'];
+
+/**
+ * Seconds since the user last authenticated, from the token's `auth_time`
+ * claim or, for Clerk session tokens, the first entry of `fva` (minutes
+ * since the last first-factor verification, -1 when unknown). Undefined
+ * when the token carries neither.
+ */
+export function getAuthAge(
+  claims: Record<string, any>,
+  now: Date = new Date()
+): number | undefined {
+  if (typeof claims['auth_time'] === 'number') {
+    return Math.max(0, Math.floor(now.getTime() / 1000) - claims['auth_time']);
+  }
+
+  const fva = claims['fva'];
+  if (Array.isArray(fva) && typeof fva[0] === 'number' && fva[0] >= 0) {
+    return fva[0] * 60;
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether the user verified a second factor within `maxAgeSeconds`. Clerk
+ * reports it in the second entry of `fva`; other providers list the methods
+ * used in `amr`, which only describes the original sign-in.
+ */
+export function hasRecentMfa(
+  claims: Record<string, any>,
+  maxAgeSeconds: number,
+  now: Date = new Date()
+): boolean {
+  const fva = claims['fva'];
+  if (Array.isArray(fva) && typeof fva[1] === 'number') {
+    return fva[1] >= 0 && fva[1] * 60 <= maxAgeSeconds;
+  }
+
+  const amr = claims['amr'];
+  if (!Array.isArray(amr) || !amr.some((m) => MFA_METHODS.includes(m))) {
+    return false;
+  }
+
+  const authAge = getAuthAge(claims, now);
+  return authAge !== undefined && authAge <= maxAgeSeconds;
+}
+
+/**
+ * Require the user to have signed in (or, with `mfa`, verified a second
+ * factor) within `maxAgeSeconds`. Use after requireAuth on sensitive routes;
+ * stale sessions get a 401 STEP_UP_REQUIRED error whose details tell the
+ * frontend how recent the sign-in must be.
+ *
+ * API keys and impersonation can't re-authenticate, so they are rejected.
+ * Service principals and development identities pass.
+ */
+export function requireRecentAuth(
+  maxAgeSeconds: number = env.STEP_UP_MAX_AGE,
+  options: { mfa?: boolean } = {}
+) {
+  const mfa = options.mfa ?? false;
+
+  const guard = async (
+    req: Request,
+    _res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const user = req.user;
+
+    if (!user) {
+      return next(new AuthError('Authentication required'));
+    }
+
+    if (user.role === SERVICE_ROLE || !features.auth) {
+      return next();
+    }
+
+    if (user.apiKeyId || req.impersonator) {
+      return next(
+        new ForbiddenError('This action requires a signed-in user session')
+      );
+    }
+
+    const header = req.headers.authorization;
+    const token = header?.startsWith('Bearer ') ? header.slice(7) : undefined;
+
+    if (!token) {
+      return next(new AuthError('No authentication token provided'));
+    }
+
+    try {
+      const { claims } = await verifyAuthToken(token);
+      const authAge = getAuthAge(claims);
+      const recent =
+        authAge !== undefined &&
+        authAge <= maxAgeSeconds &&
+        (!mfa || hasRecentMfa(claims, maxAgeSeconds));
+
+      if (!recent) {
+        throw new StepUpRequiredError(
+          {
+            maxAge: maxAgeSeconds,
+            mfa,
+            ...(authAge !== undefined && { authAge }),
+          },
+          mfa
+            ? 'Verify your second factor again to continue'
+            : 'Sign in again to continue'
+        );
+      }
+
+      next();
+    } catch (error) {
+      if (isBaseError(error)) {
+        return next(error);
+      }
+      logger.error('Step-up authentication error', { error });
+      next(new AuthError('Authentication failed'));
+    }
+  };
+
+  return describeGuard(guard, {
+    name: `requireRecentAuth(${maxAgeSeconds}s${mfa ? ', mfa' : ''})`,
+  });
+}
@@ -1,9 +1,14 @@
-import { Request, Response } from 'express';
+import { Request } from 'express';
 import { Webhook } from 'svix';
 import { env } from '../../core/config/env';
 import { logger } from '../../core/config/logger';
 import { User } from '../../database/mongodb/models/User';
-import { asyncHandler } from '../../core/middleware/asyncHandler';
+import { LoginSessionEndReason } from '../../database/mongodb/models/LoginSession';
+import { invalidateIdentity } from './identityCache';
+import { recordSessionActivity, endLoginSession } from './sessions';
+import { requestErasure } from '../privacy/erasure';
+import { createWebhookHandler } from '../webhooks/processor';
+import { VerifiedWebhookEvent, WebhookProvider } from '../webhooks/types';
 
 /**
  * Clerk webhook event types
@@ -17,7 +22,7 @@ interface ClerkWebhookEvent {
 /**
  * Verify Clerk webhook signature
  */
-function verifyWebhookSignature(req: Request): ClerkWebhookEvent {
+function verifyWebhookSignature(req: Request): VerifiedWebhookEvent {
   const webhookSecret = env.CLERK_WEBHOOK_SECRET;
 
   if (!webhookSecret) {
@@ -35,8 +40,9 @@ function verifyWebhookSignature(req: Request): ClerkWebhookEvent {
   const body = req.body;
   const wh = new Webhook(webhookSecret);
 
+  let event: ClerkWebhookEvent;
   try {
-    return wh.verify(body, {
+    event = wh.verify(body, {
       'svix-id': svixId,
       'svix-timestamp': svixTimestamp,
       'svix-signature': svixSignature,
@@ -45,54 +51,38 @@ function verifyWebhookSignature(req: Request): ClerkWebhookEvent {
     logger.error('Webhook verification failed', { error });
     throw new Error('Invalid webhook signature');
   }
+
+  return {
+    // svix-id stays the same across retries of a delivery
+    id: svixId,
+    type: event.type,
+    data: event.data,
+    occurredAt: new Date(Number(svixTimestamp) * 1000),
+  };
 }
 
 /**
- * Handle Clerk webhook events
+ * Clerk webhook provider
  */
-export const handleClerkWebhook = asyncHandler(
-  async (req: Request, res: Response) => {
-    try {
-      const event = verifyWebhookSignature(req);
-
-      logger.info('Clerk webhook received', {
-        type: event.type,
-        id: event.data.id,
-      });
-
-      // Handle different event types
-      switch (event.type) {
-        case 'user.created':
-          await handleUserCreated(event.data);
-          break;
-
-        case 'user.updated':
-          await handleUserUpdated(event.data);
-          break;
+export const clerkWebhookProvider: WebhookProvider = {
+  name: 'clerk',
+  verify: verifyWebhookSignature,
+  handlers: {
+    'user.created': handleUserCreated,
+    'user.updated': handleUserUpdated,
+    'user.deleted': handleUserDeleted,
+    'email.created': handleEmailCreated,
+    'session.created': handleSessionCreated,
+    'session.ended': (data) => handleSessionEnded(data, 'signed_out'),
+    'session.revoked': (data) => handleSessionEnded(data, 'revoked'),
+    'session.removed': (data) => handleSessionEnded(data, 'removed'),
+  },
+};
 
-        case 'user.deleted':
-          await handleUserDeleted(event.data);
-          break;
-
-        case 'email.created':
-          await handleEmailCreated(event.data);
-          break;
-
-        case 'session.created':
-          await handleSessionCreated(event.data);
-          break;
-
-        default:
-          logger.info(`Unhandled webhook event type: ${event.type}`);
-      }
-
-      res.status(200).json({ received: true });
-    } catch (error) {
-      logger.error('Webhook processing error', { error });
-      res.status(400).json({ error: 'Webhook processing failed' });
-    }
-  }
-);
+/**
+ * Handle Clerk webhook events
+ */
+export const handleClerkWebhook = createWebhookHandler(clerkWebhookProvider);
 
 /**
  * Handle user.created event
@@ -148,6 +138,7 @@ async function handleUserUpdated(userData: any): Promise<void> {
     if (user) {
       Object.assign(user, updates);
       await user.save();
+      await invalidateIdentity(userData.id);
       logger.info(`User updated in MongoDB: ${userData.id}`);
     } else {
       // User doesn't exist, create it
@@ -160,13 +151,28 @@ async function handleUserUpdated(userData: any): Promise<void> {
 }
 
 /**
- * Handle user.deleted event
+ * Handle user.deleted event: erase the user's data
  */
 async function handleUserDeleted(userData: any): Promise<void> {
   try {
-    const UserModel = User as any;
-    await UserModel.softDelete(userData.id);
-    logger.info(`User soft deleted in MongoDB: ${userData.id}`);
+    await invalidateIdentity(userData.id);
+
+    const user = await User.findOne({ clerkId: userData.id }).setOptions({
+      includeDeleted: true,
+    } as any);
+
+    if (!user) {
+      logger.warn(`Deleted Clerk user not found in MongoDB: ${userData.id}`);
+      return;
+    }
+
+    const request = await requestErasure({
+      userId: (user._id as unknown as string).toString(),
+      source: 'clerk',
+    });
+    logger.info(`User erasure requested from Clerk: ${userData.id}`, {
+      erasureRequestId: request._id,
+    });
   } catch (error) {
     logger.error('Error handling user.deleted webhook', { error, userData });
     throw error;
@@ -189,6 +195,7 @@ async function handleEmailCreated(emailData: any): Promise<void> {
         user.email = emailData.email_address;
         user.emailVerified = emailData.verification?.status === 'verified';
         await user.save();
+        await invalidateIdentity(userId);
         logger.info(`User email updated in MongoDB: ${userId}`);
       }
     }
@@ -199,7 +206,7 @@ async function handleEmailCreated(emailData: any): Promise<void> {
 }
 
 /**
- * Handle session.created event (for tracking last login)
+ * Handle session.created event (last login and login history)
  */
 async function handleSessionCreated(sessionData: any): Promise<void> {
   try {
@@ -211,6 +218,21 @@ async function handleSessionCreated(sessionData: any): Promise<void> {
     if (user) {
       await user.updateLastLogin();
       logger.debug(`User last login updated in MongoDB: ${userId}`);
+
+      // The device is filled in from the session's first request
+      const activity = sessionData.latest_activity;
+      await recordSessionActivity({
+        userId: (user._id as unknown as string).toString(),
+        sessionId: sessionData.id,
+        source: 'webhook',
+        ...(activity?.ip_address && { ipAddress: activity.ip_address }),
+        ...((activity?.city || activity?.country) && {
+          location: { city: activity.city, country: activity.country },
+        }),
+        ...(sessionData.created_at && {
+          at: new Date(sessionData.created_at),
+        }),
+      });
     }
   } catch (error) {
     logger.error('Error handling session.created webhook', {
@@ -220,3 +242,22 @@ async function handleSessionCreated(sessionData: any): Promise<void> {
     // Don't throw - this is not critical
   }
 }
+
+/**
+ * Handle session.ended, session.revoked and session.removed events
+ */
+async function handleSessionEnded(
+  sessionData: any,
+  reason: LoginSessionEndReason
+): Promise<void> {
+  try {
+    await endLoginSession(sessionData.id, reason);
+  } catch (error) {
+    logger.error('Error handling session webhook', {
+      error,
+      sessionId: sessionData.id,
+      reason,
+    });
+    // Don't throw - this is not critical
+  }
+}
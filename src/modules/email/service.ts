@@ -1,6 +1,8 @@
+import { randomUUID } from 'crypto';
 import sgMail from '@sendgrid/mail';
 import { env, features } from '../../core/config/env';
 import { logger } from '../../core/config/logger';
+import { recordUsage } from '../payments/usage';
 
 // Only initialize SendGrid if configured
 if (features.sendgrid && env.SENDGRID_API_KEY) {
@@ -8,14 +10,26 @@ if (features.sendgrid && env.SENDGRID_API_KEY) {
   logger.info('SendGrid initialized');
 }
 
-interface EmailPayload {
+export interface EmailPayload {
   to: string;
   subject: string;
   html: string;
   text: string;
+  /**
+   * User the email is sent for; counted towards their `emails.sent` meter
+   */
+  userId?: string;
 }
 
-export async function sendEmail({ to, subject, html, text }: EmailPayload) {
+/**
+ * Send an email. Emails sent for a user are recorded on their
+ * `emails.sent` meter under `usageKey` (a queued job passes its id, so a
+ * retried job is counted once).
+ */
+export async function sendEmail(
+  { to, subject, html, text, userId }: EmailPayload,
+  usageKey: string = `email:${randomUUID()}`
+) {
   if (!features.sendgrid) {
     logger.warn('SendGrid not configured, skipping email send', {
       to,
@@ -31,9 +45,20 @@ export async function sendEmail({ to, subject, html, text }: EmailPayload) {
     html,
     text,
   });
+
+  if (userId) {
+    // The email is out; failing to meter it must not send it again
+    await recordUsage(userId, 'emails.sent', 1, usageKey).catch((error) => {
+      logger.error('Failed to record email usage', { error, userId });
+    });
+  }
 }
 
-export async function sendWelcomeEmail(user: { name?: string; email: string }) {
+export async function sendWelcomeEmail(user: {
+  id?: string;
+  name?: string;
+  email: string;
+}) {
   // FIX: Use bracket notation for 'name' property access
   const name = user['name'] || 'there';
   const html = renderTemplate('welcome', { name });
@@ -43,6 +68,7 @@ export async function sendWelcomeEmail(user: { name?: string; email: string }) {
     subject: 'Welcome!',
     html,
     text,
+    ...(user.id && { userId: user.id }),
   });
 }
 
@@ -1,10 +1,11 @@
 import { getEmailQueue } from '../queue';
 
-export async function enqueueExampleEmail(email: string) {
+export async function enqueueExampleEmail(email: string, userId?: string) {
   const emailQueue = getEmailQueue();
   if (emailQueue) {
     await emailQueue.add('welcome-email', {
       to: email,
+      ...(userId && { userId }),
       subject: 'Welcome!',
       html: '<p>Hello!</p>',
       text: 'Hello!',
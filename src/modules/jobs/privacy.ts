@@ -0,0 +1,35 @@
+import { registerErasureHook } from '../privacy/registry';
+import { getEmailQueue } from './queue';
+
+/**
+ * Drop emails still waiting to be sent to an erased user. Job payloads hold
+ * the address and rendered content, so they count as personal data.
+ */
+registerErasureHook({
+  name: 'queued-emails',
+
+  async softDelete(ctx) {
+    const queue = getEmailQueue();
+    if (!queue || !ctx.email) return 0;
+
+    const jobs = await queue.getJobs(['waiting', 'delayed', 'failed']);
+    const email = ctx.email.toLowerCase();
+    let removed = 0;
+
+    for (const job of jobs) {
+      const to = job?.data?.to;
+      const recipients = Array.isArray(to) ? to : [to];
+      if (
+        recipients.some(
+          (recipient) =>
+            typeof recipient === 'string' && recipient.toLowerCase() === email
+        )
+      ) {
+        await job.remove();
+        removed++;
+      }
+    }
+
+    return removed;
+  },
+});
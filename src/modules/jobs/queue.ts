@@ -5,6 +5,8 @@ import { logger } from '../../core/config/logger';
 
 let emailQueueInstance: Queue | null = null;
 let uploadQueueInstance: Queue | null = null;
+let privacyQueueInstance: Queue | null = null;
+let billingQueueInstance: Queue | null = null;
 
 /**
  * Get email queue instance (lazy initialization)
@@ -64,6 +66,66 @@ export function getUploadQueue(): Queue | null {
   return uploadQueueInstance;
 }
 
+/**
+ * Get privacy queue instance (lazy initialization). Runs account erasure
+ * and data export jobs.
+ */
+export function getPrivacyQueue(): Queue | null {
+  if (!features.redis) {
+    logger.warn('Redis not configured, privacy queue not available');
+    return null;
+  }
+
+  if (!privacyQueueInstance) {
+    const redisClient = getRedisClient();
+    if (redisClient && redisClient.status === 'ready') {
+      // BullMQ needs connection options, not the ioredis client directly
+      const connectionOptions = {
+        host: redisClient.options.host || 'localhost',
+        port: redisClient.options.port || 6379,
+      };
+      privacyQueueInstance = new Queue('privacy', {
+        connection: connectionOptions,
+      });
+    } else {
+      logger.warn('Redis not ready, privacy queue not available');
+      return null;
+    }
+  }
+
+  return privacyQueueInstance;
+}
+
+/**
+ * Get billing queue instance (lazy initialization). Runs the usage rollup
+ * that reports metered usage to Stripe and the Stripe reconciliation.
+ */
+export function getBillingQueue(): Queue | null {
+  if (!features.redis) {
+    logger.warn('Redis not configured, billing queue not available');
+    return null;
+  }
+
+  if (!billingQueueInstance) {
+    const redisClient = getRedisClient();
+    if (redisClient && redisClient.status === 'ready') {
+      // BullMQ needs connection options, not the ioredis client directly
+      const connectionOptions = {
+        host: redisClient.options.host || 'localhost',
+        port: redisClient.options.port || 6379,
+      };
+      billingQueueInstance = new Queue('billing', {
+        connection: connectionOptions,
+      });
+    } else {
+      logger.warn('Redis not ready, billing queue not available');
+      return null;
+    }
+  }
+
+  return billingQueueInstance;
+}
+
 // For backwards compatibility - export getter functions as properties
 export const emailQueue = {
   get instance() {
@@ -3,6 +3,17 @@ import { getRedisClient } from '../../core/config/redis';
 import { logger } from '../../core/config/logger';
 import { features } from '../../core/config/env';
 import { sendEmail } from '../email/service';
+import { getPrivacyQueue, getBillingQueue } from './queue';
+import {
+  processErasure,
+  sweepErasures,
+  ERASURE_PROCESS_JOB,
+  ERASURE_SWEEP_JOB,
+} from '../privacy/erasure';
+import { processDataExport, EXPORT_PROCESS_JOB } from '../privacy/export';
+import { rollupUsage, USAGE_ROLLUP_JOB } from '../payments/usage';
+import { reconcileStripe, STRIPE_RECONCILE_JOB } from '../payments/reconcile';
+import { stripe } from '../payments/service';
 
 // Store worker instances for graceful shutdown
 const workers: Worker[] = [];
@@ -54,7 +65,8 @@ export async function startWorkers() {
     const emailWorker = new Worker(
       'emails',
       async (job) => {
-        await sendEmail(job.data);
+        // Keyed by the job id, so a retried job is metered once
+        await sendEmail(job.data, `email:${job.id}`);
       },
       { connection: connectionOptions }
     );
@@ -70,6 +82,70 @@ export async function startWorkers() {
     );
     workers.push(uploadWorker);
 
+    // Worker for account erasure and data exports
+    const privacyWorker = new Worker(
+      'privacy',
+      async (job) => {
+        switch (job.name) {
+          case ERASURE_PROCESS_JOB:
+            await processErasure(job.data.erasureRequestId);
+            break;
+          case ERASURE_SWEEP_JOB:
+            await sweepErasures();
+            break;
+          case EXPORT_PROCESS_JOB:
+            await processDataExport(job.data.exportId);
+            break;
+          default:
+            logger.warn(`Unknown privacy job: ${job.name}`);
+        }
+      },
+      { connection: connectionOptions }
+    );
+    workers.push(privacyWorker);
+
+    // Purge erasures past their grace period every hour
+    await getPrivacyQueue()?.add(
+      ERASURE_SWEEP_JOB,
+      {},
+      { repeat: { pattern: '0 * * * *' }, jobId: ERASURE_SWEEP_JOB }
+    );
+
+    // Worker reporting usage to Stripe and reconciling with it
+    const billingWorker = new Worker(
+      'billing',
+      async (job) => {
+        switch (job.name) {
+          case USAGE_ROLLUP_JOB:
+            await rollupUsage(stripe);
+            break;
+          case STRIPE_RECONCILE_JOB:
+            await reconcileStripe(stripe);
+            break;
+          default:
+            logger.warn(`Unknown billing job: ${job.name}`);
+        }
+      },
+      { connection: connectionOptions }
+    );
+    workers.push(billingWorker);
+
+    // Report usage to Stripe every hour
+    if (features.stripe) {
+      await getBillingQueue()?.add(
+        USAGE_ROLLUP_JOB,
+        {},
+        { repeat: { pattern: '15 * * * *' }, jobId: USAGE_ROLLUP_JOB }
+      );
+
+      // Fix drift left by lost webhooks every night
+      await getBillingQueue()?.add(
+        STRIPE_RECONCILE_JOB,
+        {},
+        { repeat: { pattern: '30 3 * * *' }, jobId: STRIPE_RECONCILE_JOB }
+      );
+    }
+
     logger.info('Background job workers started successfully');
   } catch (error) {
     logger.error('Failed to start workers', { error });
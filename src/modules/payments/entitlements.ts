@@ -0,0 +1,103 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { AuthError, UpgradeRequiredError } from '../../core/types/errors';
+import { describeGuard } from '../../core/utils/routeManifest';
+import { User } from '../../database/mongodb/models/User';
+import { SERVICE_ROLE } from '../auth/serviceAuth';
+import {
+  Plan,
+  PlanFeature,
+  PlanLimit,
+  getPlan,
+  planHasFeature,
+  isWithinLimit,
+} from './plans';
+
+/**
+ * Plan of a user, from their `User.subscription`. Ids that aren't stored
+ * users (e.g. test identities) get the free plan.
+ */
+export async function getUserPlan(userId: string): Promise<Plan> {
+  if (!mongoose.isValidObjectId(userId)) return getPlan(undefined);
+
+  const user = await User.findById(userId).select('subscription');
+  return getPlan(user?.subscription);
+}
+
+/**
+ * Throw unless a plan includes a feature
+ */
+export function assertPlanFeature(plan: Plan, feature: PlanFeature): void {
+  if (!planHasFeature(plan, feature)) {
+    throw new UpgradeRequiredError(
+      { plan: plan.id, feature },
+      `The ${plan.name} plan does not include ${feature}`
+    );
+  }
+}
+
+/**
+ * Throw unless a user's plan includes a feature
+ */
+export async function assertEntitlement(
+  userId: string,
+  feature: PlanFeature
+): Promise<void> {
+  assertPlanFeature(await getUserPlan(userId), feature);
+}
+
+/**
+ * Throw when `requested` more units would exceed a limit of a user's plan.
+ * `used` is the user's current usage.
+ */
+export async function checkLimit(
+  userId: string,
+  limit: PlanLimit,
+  used: number,
+  requested: number = 1
+): Promise<void> {
+  const plan = await getUserPlan(userId);
+
+  if (!isWithinLimit(plan, limit, used, requested)) {
+    throw new UpgradeRequiredError(
+      {
+        plan: plan.id,
+        limit,
+        max: plan.limits[limit]!,
+        used,
+      },
+      `The ${plan.name} plan allows at most ${plan.limits[limit]} (${limit})`
+    );
+  }
+}
+
+/**
+ * Middleware requiring the caller's plan to include a feature. Use after
+ * requireAuth; service principals act for no user and pass.
+ */
+export function requireEntitlement(feature: PlanFeature) {
+  const guard = async (
+    req: Request,
+    _res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const user = req.user;
+
+    if (!user) {
+      return next(new AuthError('Authentication required'));
+    }
+
+    if (user.role === SERVICE_ROLE) {
+      return next();
+    }
+
+    try {
+      await assertEntitlement(user.id, feature);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  return describeGuard(guard, { name: `requireEntitlement(${feature})` });
+}
@@ -0,0 +1,160 @@
+import { env } from '../../core/config/env';
+import { SubscriptionStatus } from '../../core/types';
+
+export type PlanId =
+  | SubscriptionStatus.FREE
+  | SubscriptionStatus.PRO
+  | SubscriptionStatus.ENTERPRISE;
+
+/**
+ * Features a plan may include (see requireEntitlement)
+ */
+export type PlanFeature =
+  | 'api-keys'
+  | 'organizations'
+  | 'audit-log'
+  | 'priority-support';
+
+/**
+ * Numeric limits of a plan (see checkLimit)
+ */
+export type PlanLimit = 'examples.max' | 'storage.bytes' | 'seats.max';
+
+/**
+ * Usage meters billed by consumption (see usage.ts). A metered Stripe price
+ * bills a meter when its lookup key or `meter` metadata names it.
+ */
+export type PlanMeter = 'api.requests' | 'emails.sent';
+
+export const METERS: Record<PlanMeter, { name: string }> = {
+  'api.requests': { name: 'API requests' },
+  'emails.sent': { name: 'Emails sent' },
+};
+
+/**
+ * Rate limit tier of a plan, as used by subscriptionBasedLimiter
+ */
+export type RateTier = 'free' | 'pro' | 'enterprise';
+
+export interface Plan {
+  id: PlanId;
+  name: string;
+  /**
+   * Stripe prices that subscribe to the plan
+   */
+  stripePriceIds: string[];
+  features: PlanFeature[];
+  /**
+   * Limits of the plan; null means unlimited
+   */
+  limits: Record<PlanLimit, number | null>;
+  /**
+   * Usage included each billing period, per meter; usage above it is billed
+   * through the plan's metered prices. null means unlimited.
+   */
+  quotas: Record<PlanMeter, number | null>;
+  rateTier: RateTier;
+}
+
+const GB = 1024 * 1024 * 1024;
+
+/**
+ * Comma-separated price ids of an env var
+ */
+function priceIds(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Plan catalog, cheapest first
+ */
+export const PLANS: Record<PlanId, Plan> = {
+  [SubscriptionStatus.FREE]: {
+    id: SubscriptionStatus.FREE,
+    name: 'Free',
+    stripePriceIds: [],
+    features: [],
+    limits: {
+      'examples.max': 100,
+      'storage.bytes': 1 * GB,
+      'seats.max': 1,
+    },
+    quotas: {
+      'api.requests': 1000,
+      'emails.sent': 100,
+    },
+    rateTier: 'free',
+  },
+  [SubscriptionStatus.PRO]: {
+    id: SubscriptionStatus.PRO,
+    name: 'Pro',
+    stripePriceIds: priceIds(env.STRIPE_PRO_PRICE_IDS),
+    features: ['api-keys', 'organizations'],
+    limits: {
+      'examples.max': 10000,
+      'storage.bytes': 50 * GB,
+      'seats.max': 10,
+    },
+    quotas: {
+      'api.requests': 100000,
+      'emails.sent': 10000,
+    },
+    rateTier: 'pro',
+  },
+  [SubscriptionStatus.ENTERPRISE]: {
+    id: SubscriptionStatus.ENTERPRISE,
+    name: 'Enterprise',
+    stripePriceIds: priceIds(env.STRIPE_ENTERPRISE_PRICE_IDS),
+    features: ['api-keys', 'organizations', 'audit-log', 'priority-support'],
+    limits: {
+      'examples.max': null,
+      'storage.bytes': 1024 * GB,
+      'seats.max': null,
+    },
+    quotas: {
+      'api.requests': null,
+      'emails.sent': null,
+    },
+    rateTier: 'enterprise',
+  },
+};
+
+/**
+ * Plan of a `User.subscription` value (cancelled and unknown values are
+ * the free plan)
+ */
+export function getPlan(subscription: string | undefined): Plan {
+  return PLANS[subscription as PlanId] ?? PLANS[SubscriptionStatus.FREE];
+}
+
+/**
+ * Plan a Stripe price subscribes to, if it's in the catalog
+ */
+export function getPlanForPrice(priceId: string): Plan | undefined {
+  return Object.values(PLANS).find((plan) =>
+    plan.stripePriceIds.includes(priceId)
+  );
+}
+
+/**
+ * Whether a plan includes a feature
+ */
+export function planHasFeature(plan: Plan, feature: PlanFeature): boolean {
+  return plan.features.includes(feature);
+}
+
+/**
+ * Whether `used` units plus `requested` more stay within a limit of a plan
+ */
+export function isWithinLimit(
+  plan: Plan,
+  limit: PlanLimit,
+  used: number,
+  requested: number = 1
+): boolean {
+  const max = plan.limits[limit];
+  return max === null || used + requested <= max;
+}
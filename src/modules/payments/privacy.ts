@@ -0,0 +1,75 @@
+import {
+  registerErasureHook,
+  registerExportContributor,
+} from '../privacy/registry';
+import {
+  cancelCustomerSubscriptions,
+  deleteCustomer,
+  listCustomerInvoices,
+} from './service';
+import { Subscription } from '../../database/mongodb/models/Subscription';
+import { UsageEvent } from '../../database/mongodb/models/UsageEvent';
+
+/**
+ * Stop billing an erased user right away, and delete their Stripe customer
+ * after the grace period
+ */
+registerErasureHook({
+  name: 'stripe-customer',
+
+  async softDelete(ctx) {
+    if (!ctx.stripeCustomerId) return 0;
+    return cancelCustomerSubscriptions(ctx.stripeCustomerId);
+  },
+
+  async hardDelete(ctx) {
+    if (!ctx.stripeCustomerId) return 0;
+    await deleteCustomer(ctx.stripeCustomerId);
+    return 1;
+  },
+});
+
+/**
+ * Remove the local copies of the user's subscriptions with their customer
+ */
+registerErasureHook({
+  name: 'subscriptions',
+
+  async hardDelete(ctx) {
+    const result = await Subscription.deleteMany({ userId: ctx.userId });
+    return result.deletedCount;
+  },
+});
+
+/**
+ * Remove the user's usage events once the grace period ends (pending usage
+ * is still reported until then)
+ */
+registerErasureHook({
+  name: 'usage-events',
+
+  async hardDelete(ctx) {
+    const result = await UsageEvent.deleteMany({ userId: ctx.userId });
+    return result.deletedCount;
+  },
+});
+
+/**
+ * Billing references: the Stripe customer, its subscriptions and invoices
+ */
+registerExportContributor({
+  name: 'billing',
+
+  async collect(ctx) {
+    if (!ctx.stripeCustomerId) return null;
+
+    return {
+      stripeCustomerId: ctx.stripeCustomerId,
+      subscriptions: await Subscription.findByUser(ctx.userId),
+      invoices: await listCustomerInvoices(ctx.stripeCustomerId),
+      usage: await UsageEvent.find({ userId: ctx.userId })
+        .select('meter quantity occurredAt status')
+        .sort({ occurredAt: -1 }),
+    };
+  },
+});
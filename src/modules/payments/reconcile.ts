@@ -0,0 +1,436 @@
+import Stripe from 'stripe';
+import mongoose from 'mongoose';
+import { logger } from '../../core/config/logger';
+import { SubscriptionStatus } from '../../core/types';
+import { User } from '../../database/mongodb/models/User';
+import { AuditLog } from '../../database/mongodb/models/AuditLog';
+import {
+  Subscription,
+  ISubscription,
+  SubscriptionState,
+} from '../../database/mongodb/models/Subscription';
+import {
+  applySubscriptionEvent,
+  deriveUserSubscription,
+  subscriptionFields,
+  syncUserSubscription,
+  idOf,
+} from './subscriptions';
+import { getPlan } from './plans';
+
+export const STRIPE_RECONCILE_JOB = 'stripe-reconcile';
+
+/**
+ * The parts of the Stripe client reconciliation uses (tests pass a fake)
+ */
+export interface ReconcileStripeClient {
+  customers: {
+    list(
+      params: Stripe.CustomerListParams
+    ): Promise<Stripe.ApiList<Stripe.Customer>>;
+  };
+  subscriptions: {
+    list(
+      params: Stripe.SubscriptionListParams
+    ): Promise<Stripe.ApiList<Stripe.Subscription>>;
+  };
+}
+
+/**
+ * Kind of drift between Stripe and our records:
+ * - `customer_not_linked`: a Stripe customer whose email is the verified
+ *   email of a user that isn't linked to any customer
+ * - `missing_subscription`: a Stripe subscription we have no copy of
+ * - `subscription_mismatch`: our copy differs from Stripe
+ * - `orphaned_subscription`: a live copy of a subscription Stripe doesn't
+ *   have
+ * - `user_plan_mismatch`: `User.subscription` differs from the plan the
+ *   user's Stripe subscriptions give
+ */
+export type DiscrepancyType =
+  | 'customer_not_linked'
+  | 'missing_subscription'
+  | 'subscription_mismatch'
+  | 'orphaned_subscription'
+  | 'user_plan_mismatch';
+
+export interface Discrepancy {
+  type: DiscrepancyType;
+  userId?: string;
+  stripeCustomerId?: string;
+  stripeSubscriptionId?: string;
+  /**
+   * Differing fields, with our value and Stripe's
+   */
+  changes: Record<string, { local: unknown; stripe: unknown }>;
+  fixed: boolean;
+  error?: string;
+}
+
+export interface ReconciliationReport {
+  dryRun: boolean;
+  startedAt: Date;
+  finishedAt: Date;
+  customersChecked: number;
+  subscriptionsChecked: number;
+  discrepancies: Discrepancy[];
+}
+
+/**
+ * A discrepancy and how to fix it
+ */
+interface Correction {
+  discrepancy: Discrepancy;
+  resource: string;
+  resourceId?: string;
+  apply(): Promise<void>;
+}
+
+/**
+ * Subscription fields compared with Stripe
+ */
+const COMPARED_FIELDS = [
+  'stripeCustomerId',
+  'status',
+  'priceId',
+  'plan',
+  'quantity',
+  'currentPeriodStart',
+  'currentPeriodEnd',
+  'trialEnd',
+  'cancelAtPeriodEnd',
+  'cancelAt',
+  'canceledAt',
+  'endedAt',
+] as const;
+
+/**
+ * Statuses after which a subscription never changes again
+ */
+export const FINAL_STATUSES: SubscriptionState[] = [
+  'canceled',
+  'incomplete_expired',
+];
+
+/**
+ * Comparable form of a field value (dates by time, missing as null)
+ */
+function comparable(value: unknown): unknown {
+  return value instanceof Date ? value.getTime() : (value ?? null);
+}
+
+/**
+ * Fields where our copy of a subscription differs from Stripe's
+ */
+export function diffSubscription(
+  local: {
+    [K in (typeof COMPARED_FIELDS)[number]]?: ISubscription[K] | undefined;
+  },
+  data: Stripe.Subscription
+): Record<string, { local: unknown; stripe: unknown }> {
+  const remote = subscriptionFields(data);
+  const changes: Record<string, { local: unknown; stripe: unknown }> = {};
+
+  for (const field of COMPARED_FIELDS) {
+    if (comparable(local[field]) !== comparable(remote[field])) {
+      changes[field] = {
+        local: local[field] ?? null,
+        stripe: remote[field] ?? null,
+      };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Every item of a paginated Stripe list, a page at a time
+ */
+export async function* paginate<T extends { id: string }>(
+  list: (params: {
+    limit: number;
+    starting_after?: string;
+  }) => Promise<{ data: T[]; has_more: boolean }>
+): AsyncGenerator<T> {
+  let startingAfter: string | undefined;
+
+  do {
+    const page = await list({
+      limit: 100,
+      ...(startingAfter && { starting_after: startingAfter }),
+    });
+    yield* page.data;
+    startingAfter = page.has_more ? page.data.at(-1)?.id : undefined;
+  } while (startingAfter);
+}
+
+/**
+ * Compare Stripe customers and subscriptions with our users and
+ * subscription copies. Returns the corrections to make; nothing is written.
+ */
+async function findCorrections(
+  client: ReconcileStripeClient,
+  now: Date
+): Promise<{
+  corrections: Correction[];
+  customersChecked: number;
+  subscriptionsChecked: number;
+}> {
+  const corrections: Correction[] = [];
+  // Our user of each Stripe customer, linked or matched by email
+  const customerUsers = new Map<string, string>();
+  let customersChecked = 0;
+  let subscriptionsChecked = 0;
+
+  // Customers not linked to any user, and how many customers use each email
+  const unlinked: Stripe.Customer[] = [];
+  const emailCounts = new Map<string, number>();
+
+  for await (const customer of paginate((params) =>
+    client.customers.list(params)
+  )) {
+    customersChecked++;
+
+    const email = customer.email?.toLowerCase();
+    if (email) emailCounts.set(email, (emailCounts.get(email) ?? 0) + 1);
+
+    const linked = await User.findByStripeCustomerId(customer.id);
+    if (linked) {
+      customerUsers.set(
+        customer.id,
+        (linked._id as unknown as string).toString()
+      );
+    } else {
+      unlinked.push(customer);
+    }
+  }
+
+  for (const customer of unlinked) {
+    const email = customer.email?.toLowerCase();
+    // Several customers with the email can't be told apart
+    if (!email || emailCounts.get(email)! > 1) continue;
+
+    // Only a verified email proves the user owns the customer; linking gives
+    // them its paid plan. A user linked to another customer is left for an
+    // admin to sort out.
+    const user = await User.findByEmail(email);
+    if (!user || !user.emailVerified || user.stripeCustomerId) continue;
+
+    const userId = (user._id as unknown as string).toString();
+    customerUsers.set(customer.id, userId);
+    corrections.push({
+      discrepancy: {
+        type: 'customer_not_linked',
+        userId,
+        stripeCustomerId: customer.id,
+        changes: { stripeCustomerId: { local: null, stripe: customer.id } },
+        fixed: false,
+      },
+      resource: 'user',
+      resourceId: userId,
+      apply: async () => {
+        await User.findByIdAndUpdate(userId, { stripeCustomerId: customer.id });
+      },
+    });
+  }
+
+  // Plans each user's Stripe subscriptions give, for the user check below
+  const stripePlans = new Map<
+    string,
+    { status: SubscriptionState; plan: string }[]
+  >();
+  const seen = new Set<string>();
+
+  for await (const data of paginate((params) =>
+    client.subscriptions.list({ ...params, status: 'all' })
+  )) {
+    subscriptionsChecked++;
+    seen.add(data.id);
+
+    const local = await Subscription.findByStripeId(data.id);
+    const userId =
+      data.metadata?.['userId'] ??
+      local?.userId ??
+      customerUsers.get(idOf(data.customer)!);
+
+    if (userId) {
+      stripePlans.set(userId, [
+        ...(stripePlans.get(userId) ?? []),
+        { status: data.status, plan: subscriptionFields(data).plan },
+      ]);
+    }
+
+    const changes = diffSubscription(local ?? {}, data);
+    if (Object.keys(changes).length === 0) continue;
+
+    corrections.push({
+      discrepancy: {
+        type: local ? 'subscription_mismatch' : 'missing_subscription',
+        ...(userId && { userId }),
+        stripeCustomerId: idOf(data.customer)!,
+        stripeSubscriptionId: data.id,
+        changes,
+        fixed: false,
+      },
+      resource: 'subscription',
+      ...(local && {
+        resourceId: (local._id as unknown as string).toString(),
+      }),
+      // Stripe's current state is newer than any event applied so far
+      apply: async () => {
+        await applySubscriptionEvent(data, now);
+      },
+    });
+  }
+
+  // Checked in memory: there are far fewer live copies than subscriptions
+  // Stripe has ever had, which would all go in a `$nin` query
+  const live = await Subscription.find({ status: { $nin: FINAL_STATUSES } });
+
+  for (const orphan of live) {
+    if (seen.has(orphan.stripeSubscriptionId)) continue;
+
+    corrections.push({
+      discrepancy: {
+        type: 'orphaned_subscription',
+        userId: orphan.userId,
+        stripeCustomerId: orphan.stripeCustomerId,
+        stripeSubscriptionId: orphan.stripeSubscriptionId,
+        changes: { status: { local: orphan.status, stripe: null } },
+        fixed: false,
+      },
+      resource: 'subscription',
+      resourceId: (orphan._id as unknown as string).toString(),
+      apply: async () => {
+        await orphan.set({ status: 'canceled', endedAt: now }).save();
+        await syncUserSubscription(orphan.userId);
+      },
+    });
+  }
+
+  // Users on a paid plan or with Stripe subscriptions
+  const users = await User.find({
+    $or: [
+      {
+        subscription: {
+          $in: [SubscriptionStatus.PRO, SubscriptionStatus.ENTERPRISE],
+        },
+        stripeCustomerId: { $ne: null },
+      },
+      {
+        _id: {
+          $in: [...stripePlans.keys()].filter((id) =>
+            mongoose.isValidObjectId(id)
+          ),
+        },
+      },
+    ],
+    deletedAt: null,
+  }).select('subscription');
+
+  for (const user of users) {
+    const userId = (user._id as unknown as string).toString();
+    const expected = deriveUserSubscription(stripePlans.get(userId) ?? []);
+    if (getPlan(user.subscription).id === getPlan(expected).id) continue;
+
+    corrections.push({
+      discrepancy: {
+        type: 'user_plan_mismatch',
+        userId,
+        changes: {
+          subscription: { local: user.subscription, stripe: expected },
+        },
+        fixed: false,
+      },
+      resource: 'user',
+      resourceId: userId,
+      // Runs after the subscription fixes, so the copies match Stripe
+      apply: async () => {
+        await syncUserSubscription(userId);
+      },
+    });
+  }
+
+  return { corrections, customersChecked, subscriptionsChecked };
+}
+
+/**
+ * Compare Stripe with our users and subscriptions and fix the drift left
+ * by lost or failed webhooks, logging each correction to the audit log. A
+ * dry run only reports the differences.
+ */
+export async function reconcileStripe(
+  client: ReconcileStripeClient,
+  options: { dryRun?: boolean } = {}
+): Promise<ReconciliationReport> {
+  const dryRun = options.dryRun ?? false;
+  const startedAt = new Date();
+
+  const { corrections, customersChecked, subscriptionsChecked } =
+    await findCorrections(client, startedAt);
+
+  if (!dryRun) {
+    for (const correction of corrections) {
+      const { discrepancy } = correction;
+
+      try {
+        await correction.apply();
+        discrepancy.fixed = true;
+
+        // No actor: the fix is made by the system, not the affected user
+        await AuditLog.log({
+          action: 'update',
+          resource: correction.resource,
+          ...(correction.resourceId && { resourceId: correction.resourceId }),
+          metadata: {
+            source: 'stripe-reconciliation',
+            type: discrepancy.type,
+            affectedUserId: discrepancy.userId,
+            stripeCustomerId: discrepancy.stripeCustomerId,
+            stripeSubscriptionId: discrepancy.stripeSubscriptionId,
+          },
+          changes: {
+            before: Object.fromEntries(
+              Object.entries(discrepancy.changes).map(([field, change]) => [
+                field,
+                change.local,
+              ])
+            ),
+            after: Object.fromEntries(
+              Object.entries(discrepancy.changes).map(([field, change]) => [
+                field,
+                change.stripe,
+              ])
+            ),
+          },
+        });
+      } catch (error) {
+        discrepancy.error = (error as Error).message;
+        logger.error('Failed to apply Stripe reconciliation fix', {
+          error,
+          type: discrepancy.type,
+          userId: discrepancy.userId,
+          stripeSubscriptionId: discrepancy.stripeSubscriptionId,
+        });
+      }
+    }
+  }
+
+  const report: ReconciliationReport = {
+    dryRun,
+    startedAt,
+    finishedAt: new Date(),
+    customersChecked,
+    subscriptionsChecked,
+    discrepancies: corrections.map((correction) => correction.discrepancy),
+  };
+
+  logger.info('Stripe reconciliation finished', {
+    dryRun,
+    customersChecked,
+    subscriptionsChecked,
+    discrepancies: report.discrepancies.length,
+    fixed: report.discrepancies.filter((d) => d.fixed).length,
+  });
+  return report;
+}
@@ -1,15 +1,30 @@
 import { Router } from 'express';
-import { requireAuth } from '../auth/middleware';
+import { requireAuth, requirePlatformRole } from '../auth/middleware';
+import { disallowImpersonation } from '../auth/impersonation';
+import { requireRecentAuth } from '../auth/stepUp';
 import { asyncHandler } from '../../core/middleware/asyncHandler';
-import { createCheckoutSession, createPortalSession } from './service';
+import { validate } from '../../core/middleware/validate';
+import { createCheckoutSession, createPortalSession, stripe } from './service';
 import { success } from '../../core/utils/apiResponse';
 import { handleStripeWebhook } from './webhook';
+import { PLANS } from './plans';
+import { checkoutSchema } from './schema';
+import { getUsageSummary } from './usage';
+import { reconcileStripe } from './reconcile';
 
 const router = Router();
 
+// Plan catalog, for pricing pages
+router.get('/plans', (_req, res) => {
+  res.json(success({ plans: Object.values(PLANS) }));
+});
+
 router.post(
   '/checkout',
   requireAuth,
+  disallowImpersonation,
+  requireRecentAuth(),
+  validate(checkoutSchema, 'body'),
   asyncHandler(async (req, res) => {
     const session = await createCheckoutSession(req.user!.id, req.body.priceId);
     res.json(success({ url: session.url }));
@@ -19,6 +34,8 @@ router.post(
 router.post(
   '/portal',
   requireAuth,
+  disallowImpersonation,
+  requireRecentAuth(),
   asyncHandler(async (req, res) => {
     const user = req.user!;
     // For simplicity, we assume stripeCustomerId exists on user model
@@ -34,4 +51,48 @@ router.post(
 // configure this route separately to use express.raw()
 router.post('/webhook', handleStripeWebhook);
 
+/**
+ * Billing routes, mounted at /api/billing
+ */
+export const billingRouter = Router();
+
+// Current-period usage against the plan's quotas
+billingRouter.get(
+  '/usage',
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    res.json(success(await getUsageSummary(req.user!.id)));
+  })
+);
+
+/**
+ * Billing administration, mounted at /api/admin/billing and limited to
+ * platform admins
+ */
+export const billingAdminRouter = Router();
+
+billingAdminRouter.use(requireAuth, requirePlatformRole('admin'));
+
+// Differences between Stripe and our records, without fixing them
+billingAdminRouter.get(
+  '/reconciliation',
+  asyncHandler(async (_req, res) => {
+    res.json(success(await reconcileStripe(stripe, { dryRun: true })));
+  })
+);
+
+// Fix the differences now instead of waiting for the nightly job
+billingAdminRouter.post(
+  '/reconciliation',
+  requireRecentAuth(),
+  asyncHandler(async (_req, res) => {
+    const report = await reconcileStripe(stripe);
+    res.json(
+      success(report, {
+        message: `${report.discrepancies.filter((d) => d.fixed).length} of ${report.discrepancies.length} discrepancies fixed`,
+      })
+    );
+  })
+);
+
 export default router;
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+/**
+ * Checkout body schema. The price must also be in the plan catalog (see
+ * plans.ts).
+ */
+export const checkoutSchema = z.object({
+  priceId: z.string().trim().min(1).max(255),
+});
+
+/**
+ * Type exports
+ */
+export type CheckoutInput = z.infer<typeof checkoutSchema>;
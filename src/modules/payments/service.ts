@@ -1,13 +1,25 @@
 import Stripe from 'stripe';
 import { env } from '../../core/config/env';
+import { ValidationError } from '../../core/types/errors';
 import { User } from '../../database/mongodb/models/User';
+import { getPlanForPrice } from './plans';
+import { paginate, FINAL_STATUSES } from './reconcile';
 
 // FIX: Updated Stripe API version to match installed SDK version
-const stripe = new Stripe(env.STRIPE_SECRET_KEY || '', {
+export const stripe = new Stripe(env.STRIPE_SECRET_KEY || '', {
   apiVersion: '2023-10-16',
 });
 
+/**
+ * Start a checkout for a price of a paid plan
+ */
 export async function createCheckoutSession(userId: string, priceId: string) {
+  if (!getPlanForPrice(priceId)) {
+    throw new ValidationError('Unknown price', [
+      { field: 'priceId', message: 'Price is not part of any plan' },
+    ]);
+  }
+
   const user = await User.findById(userId);
 
   if (!user) {
@@ -21,6 +33,8 @@ export async function createCheckoutSession(userId: string, priceId: string) {
     success_url: `${env.FRONTEND_URL}/success?session_id={CHECKOUT_SESSION_ID}`,
     cancel_url: `${env.FRONTEND_URL}/pricing`,
     metadata: { userId },
+    // Lets subscription events find the user even before checkout completes
+    subscription_data: { metadata: { userId } },
   });
   return session;
 }
@@ -32,3 +46,63 @@ export async function createPortalSession(customerId: string) {
   });
   return session;
 }
+
+/**
+ * Cancel every live subscription of a customer immediately, including
+ * trialing, past due, unpaid, paused and incomplete ones
+ */
+export async function cancelCustomerSubscriptions(
+  customerId: string
+): Promise<number> {
+  const live: Stripe.Subscription[] = [];
+
+  for await (const subscription of paginate((params) =>
+    stripe.subscriptions.list({
+      ...params,
+      customer: customerId,
+      status: 'all',
+    })
+  )) {
+    if (!FINAL_STATUSES.includes(subscription.status)) {
+      live.push(subscription);
+    }
+  }
+
+  await Promise.all(
+    live.map((subscription) => stripe.subscriptions.cancel(subscription.id))
+  );
+  return live.length;
+}
+
+/**
+ * Delete a customer and the payment details Stripe holds for them
+ */
+export async function deleteCustomer(customerId: string): Promise<void> {
+  try {
+    await stripe.customers.del(customerId);
+  } catch (error: any) {
+    // Already deleted
+    if (error?.code === 'resource_missing') return;
+    throw error;
+  }
+}
+
+/**
+ * Invoice references of a customer, newest first (up to 100)
+ */
+export async function listCustomerInvoices(customerId: string) {
+  const invoices = await stripe.invoices.list({
+    customer: customerId,
+    limit: 100,
+  });
+
+  return invoices.data.map((invoice) => ({
+    id: invoice.id,
+    number: invoice.number,
+    status: invoice.status,
+    total: invoice.total,
+    currency: invoice.currency,
+    createdAt: new Date(invoice.created * 1000),
+    invoicePdf: invoice.invoice_pdf,
+  }));
+}
@@ -0,0 +1,269 @@
+import Stripe from 'stripe';
+import { logger } from '../../core/config/logger';
+import { SubscriptionStatus } from '../../core/types';
+import { User } from '../../database/mongodb/models/User';
+import {
+  Subscription,
+  ISubscription,
+  SubscriptionState,
+  ENTITLED_STATUSES,
+} from '../../database/mongodb/models/Subscription';
+import { getPlanForPrice } from './plans';
+
+/**
+ * Statuses a subscription may move to from each status. Stripe never
+ * revives canceled or expired subscriptions, so an event that would is a
+ * stale delivery.
+ */
+const TRANSITIONS: Record<SubscriptionState, SubscriptionState[]> = {
+  incomplete: [
+    'active',
+    'trialing',
+    'past_due',
+    'incomplete_expired',
+    'canceled',
+  ],
+  incomplete_expired: [],
+  trialing: ['active', 'past_due', 'unpaid', 'paused', 'canceled'],
+  active: ['past_due', 'unpaid', 'paused', 'canceled', 'trialing'],
+  past_due: ['active', 'unpaid', 'paused', 'canceled'],
+  unpaid: ['active', 'past_due', 'paused', 'canceled'],
+  paused: ['active', 'trialing', 'canceled'],
+  canceled: [],
+};
+
+/**
+ * Paid plans, cheapest first
+ */
+const PAID_PLANS: string[] = [
+  SubscriptionStatus.PRO,
+  SubscriptionStatus.ENTERPRISE,
+];
+
+/**
+ * Whether a subscription may go from one status to another (staying in a
+ * status is always allowed, e.g. for period or cancel flag changes)
+ */
+export function canTransition(
+  from: SubscriptionState,
+  to: SubscriptionState
+): boolean {
+  return from === to || TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Whether an event should be applied to a subscription last updated by an
+ * event created at `lastEventAt`. Stripe timestamps have one-second
+ * precision, so events of the same second are applied when the transition
+ * is possible.
+ */
+export function shouldApplyEvent(
+  current: { status: SubscriptionState; lastEventAt: Date } | null,
+  status: SubscriptionState,
+  occurredAt: Date
+): boolean {
+  if (!current) return true;
+  if (occurredAt < current.lastEventAt) return false;
+  if (occurredAt > current.lastEventAt) return true;
+  return canTransition(current.status, status);
+}
+
+/**
+ * Plan of a Stripe price: the catalog plan listing it, else its `plan`
+ * metadata or lookup key when it names a paid plan, otherwise pro
+ */
+export function resolvePlan(price: Stripe.Price | undefined): string {
+  const catalogPlan = price && getPlanForPrice(price.id);
+  if (catalogPlan) return catalogPlan.id;
+
+  const candidates = [price?.metadata?.['plan'], price?.lookup_key];
+  const plan = candidates.find(
+    (candidate): candidate is string =>
+      !!candidate && PAID_PLANS.includes(candidate)
+  );
+
+  if (!plan) {
+    logger.warn('Stripe price has no known plan, assuming pro', {
+      priceId: price?.id,
+    });
+  }
+
+  return plan ?? SubscriptionStatus.PRO;
+}
+
+/**
+ * `User.subscription` for a user's subscriptions: the best plan among
+ * those that entitle the user, otherwise free
+ */
+export function deriveUserSubscription(
+  subscriptions: Pick<ISubscription, 'status' | 'plan'>[]
+): string {
+  const plans = subscriptions
+    .filter((subscription) => ENTITLED_STATUSES.includes(subscription.status))
+    .map((subscription) => subscription.plan);
+
+  return (
+    [...PAID_PLANS].reverse().find((plan) => plans.includes(plan)) ??
+    SubscriptionStatus.FREE
+  );
+}
+
+/**
+ * Optional Stripe timestamp (seconds) as a date
+ */
+function toDate(seconds: number | null | undefined): Date | undefined {
+  return seconds ? new Date(seconds * 1000) : undefined;
+}
+
+/**
+ * Id of an expandable Stripe field
+ */
+export function idOf(
+  value: string | { id: string } | null
+): string | undefined {
+  if (!value) return undefined;
+  return typeof value === 'string' ? value : value.id;
+}
+
+/**
+ * Fields of a local subscription copied from the Stripe subscription
+ */
+export function subscriptionFields(data: Stripe.Subscription) {
+  const item = data.items.data[0];
+
+  return {
+    stripeSubscriptionId: data.id,
+    stripeCustomerId: idOf(data.customer)!,
+    status: data.status,
+    priceId: item?.price.id,
+    plan: resolvePlan(item?.price),
+    quantity: item?.quantity ?? 1,
+    currentPeriodStart: toDate(data.current_period_start),
+    currentPeriodEnd: toDate(data.current_period_end),
+    trialEnd: toDate(data.trial_end),
+    cancelAtPeriodEnd: data.cancel_at_period_end,
+    cancelAt: toDate(data.cancel_at),
+    canceledAt: toDate(data.canceled_at),
+    endedAt: toDate(data.ended_at),
+  };
+}
+
+/**
+ * Find our user id for a Stripe subscription: from its metadata (set at
+ * checkout) or the user linked to its customer
+ */
+async function findUserId(
+  data: Stripe.Subscription,
+  current: ISubscription | null
+): Promise<string> {
+  const userId = data.metadata?.['userId'] ?? current?.userId;
+  if (userId) return userId;
+
+  const user = await User.findByStripeCustomerId(idOf(data.customer)!);
+  if (!user) {
+    // Failing lets Stripe retry once checkout has linked the customer
+    throw new Error(`No user for Stripe customer ${idOf(data.customer)}`);
+  }
+
+  return (user._id as unknown as string).toString();
+}
+
+/**
+ * Recompute `User.subscription` from the user's subscriptions
+ */
+export async function syncUserSubscription(
+  userId: string,
+  stripeCustomerId?: string
+): Promise<string> {
+  const subscription = deriveUserSubscription(
+    await Subscription.find({ userId }).select('status plan')
+  );
+
+  await User.findByIdAndUpdate(userId, {
+    subscription,
+    ...(stripeCustomerId && { stripeCustomerId }),
+  });
+
+  logger.info('User subscription updated from Stripe', {
+    userId,
+    subscription,
+  });
+  return subscription;
+}
+
+/**
+ * Apply a `customer.subscription.*` event. Events older than the last one
+ * applied, and impossible transitions, are skipped.
+ */
+export async function applySubscriptionEvent(
+  data: Stripe.Subscription,
+  occurredAt: Date,
+  eventId?: string
+): Promise<ISubscription | null> {
+  const current = await Subscription.findByStripeId(data.id);
+
+  if (!shouldApplyEvent(current, data.status, occurredAt)) {
+    logger.info('Skipping stale Stripe subscription event', {
+      eventId,
+      subscriptionId: data.id,
+      status: data.status,
+      currentStatus: current?.status,
+    });
+    return null;
+  }
+
+  const fields = {
+    userId: await findUserId(data, current),
+    ...subscriptionFields(data),
+    lastEventAt: occurredAt,
+    lastEventId: eventId,
+  };
+
+  const subscription = current
+    ? await current.set(fields).save()
+    : await Subscription.create(fields);
+
+  await syncUserSubscription(
+    subscription.userId,
+    subscription.stripeCustomerId
+  );
+  return subscription;
+}
+
+/**
+ * Apply an `invoice.*` event to the subscription it bills: the latest
+ * invoice status and when a payment failed. Status changes caused by the
+ * invoice arrive as subscription events.
+ */
+export async function applyInvoiceEvent(
+  data: Stripe.Invoice,
+  type: string,
+  occurredAt: Date
+): Promise<ISubscription | null> {
+  const subscriptionId = idOf(data.subscription);
+  if (!subscriptionId) return null;
+
+  const subscription = await Subscription.findByStripeId(subscriptionId);
+  if (!subscription) {
+    // The subscription events will create it
+    logger.info('Invoice event for an unknown subscription', {
+      invoiceId: data.id,
+      subscriptionId,
+    });
+    return null;
+  }
+
+  const latest = subscription.latestInvoice;
+  if (latest && occurredAt < latest.updatedAt) return null;
+
+  const paymentFailed = type === 'invoice.payment_failed';
+
+  subscription.latestInvoice = {
+    id: data.id,
+    status: paymentFailed ? 'payment_failed' : (data.status ?? 'draft'),
+    ...(paymentFailed && { paymentFailedAt: occurredAt }),
+    updatedAt: occurredAt,
+  };
+
+  return subscription.save();
+}
@@ -0,0 +1,386 @@
+import { randomUUID } from 'crypto';
+import Stripe from 'stripe';
+import { Request } from 'express';
+import { logger } from '../../core/config/logger';
+import { ValidationError } from '../../core/types/errors';
+import {
+  UsageEvent,
+  IUsageEvent,
+} from '../../database/mongodb/models/UsageEvent';
+import {
+  Subscription,
+  ENTITLED_STATUSES,
+} from '../../database/mongodb/models/Subscription';
+import { getUserPlan } from './entitlements';
+import { METERS, Plan, PlanMeter } from './plans';
+
+export const USAGE_ROLLUP_JOB = 'usage-rollup';
+
+/**
+ * The parts of the Stripe client usage reporting uses (tests pass a fake)
+ */
+export interface UsageStripeClient {
+  subscriptions: {
+    retrieve(id: string): Promise<Stripe.Subscription>;
+  };
+  subscriptionItems: {
+    createUsageRecord(
+      id: string,
+      params: Stripe.SubscriptionItemCreateUsageRecordParams,
+      options?: Stripe.RequestOptions
+    ): Promise<Stripe.UsageRecord>;
+  };
+}
+
+/**
+ * Usage of one meter to report to Stripe
+ */
+export interface UsageReport {
+  meter: string;
+  quantity: number;
+  occurredAt: Date;
+  idempotencyKey: string;
+}
+
+/**
+ * Current-period consumption of one meter
+ */
+export interface MeterUsage {
+  meter: PlanMeter;
+  name: string;
+  used: number;
+  // Usage included in the plan; null means unlimited
+  included: number | null;
+  remaining: number | null;
+  overage: number;
+}
+
+/**
+ * Whether a meter is in the catalog
+ */
+export function isMeter(meter: string): meter is PlanMeter {
+  return meter in METERS;
+}
+
+/**
+ * Record usage of a meter by a user. Recording the same idempotency key
+ * again returns the first event, so callers can retry safely.
+ */
+export async function recordUsage(
+  userId: string,
+  meter: string,
+  quantity: number,
+  idempotencyKey: string
+): Promise<{ event: IUsageEvent; duplicate: boolean }> {
+  if (!isMeter(meter)) {
+    throw new ValidationError(`Unknown meter: ${meter}`);
+  }
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new ValidationError('Usage quantity must be a positive integer');
+  }
+  if (!idempotencyKey) {
+    throw new ValidationError('An idempotency key is required');
+  }
+
+  return UsageEvent.record({ userId, meter, quantity, idempotencyKey });
+}
+
+/**
+ * Count a request made with an API key towards the key owner's
+ * `api.requests` meter, keyed by the request id. The request doesn't wait
+ * for the write.
+ */
+export function trackApiRequest(req: Request): void {
+  const user = req.user;
+  if (!user) return;
+
+  recordUsage(
+    user.id,
+    'api.requests',
+    1,
+    `api:${req.requestId ?? randomUUID()}`
+  ).catch((error) => {
+    logger.error('Failed to record API usage', { error, userId: user.id });
+  });
+}
+
+/**
+ * Subscription item of a subscription that bills a meter: a metered price
+ * whose lookup key or `meter` metadata names it
+ */
+export function findMeteredItem(
+  subscription: Stripe.Subscription,
+  meter: string
+): Stripe.SubscriptionItem | undefined {
+  return subscription.items.data.find(
+    (item) =>
+      item.price.recurring?.usage_type === 'metered' &&
+      (item.price.lookup_key === meter ||
+        item.price.metadata?.['meter'] === meter)
+  );
+}
+
+/**
+ * Report usage to the first of the subscriptions billing its meter.
+ * Returns the subscription item reported to, or null when none bills it.
+ */
+export async function reportUsage(
+  client: UsageStripeClient,
+  stripeSubscriptionIds: string[],
+  usage: UsageReport
+): Promise<string | null> {
+  for (const subscriptionId of stripeSubscriptionIds) {
+    const subscription = await client.subscriptions.retrieve(subscriptionId);
+    const item = findMeteredItem(subscription, usage.meter);
+    if (!item) continue;
+
+    await client.subscriptionItems.createUsageRecord(
+      item.id,
+      {
+        quantity: usage.quantity,
+        timestamp: Math.floor(usage.occurredAt.getTime() / 1000),
+        action: 'increment',
+      },
+      { idempotencyKey: usage.idempotencyKey }
+    );
+    return item.id;
+  }
+
+  return null;
+}
+
+/**
+ * A group of usage is given up on, and its events marked failed, after this
+ * many failed reports (e.g. usage Stripe rejects because its billing period
+ * has closed)
+ */
+export const MAX_REPORT_ATTEMPTS = 5;
+
+/**
+ * Part of `quantity` more units that goes beyond a meter's included quota,
+ * given the `used` units earlier in the billing period. A null quota is
+ * unlimited.
+ */
+export function billableQuantity(
+  included: number | null,
+  used: number,
+  quantity: number
+): number {
+  if (included === null) return 0;
+  return Math.max(used + quantity - included, 0) - Math.max(used - included, 0);
+}
+
+/**
+ * Aggregate pending usage per rollup run, user and meter, and report the
+ * part of each total beyond the plan's included quota to the user's metered
+ * subscription item. Events are first claimed by a rollup id, so a failed
+ * group is retried by the next run under the same Stripe idempotency key
+ * instead of being reported twice; after MAX_REPORT_ATTEMPTS it is marked
+ * failed. Usage within the quota is marked included, and usage no
+ * subscription bills unbilled.
+ */
+export async function rollupUsage(
+  client: UsageStripeClient,
+  now: Date = new Date()
+): Promise<{
+  reported: number;
+  included: number;
+  unbilled: number;
+  failed: number;
+}> {
+  await UsageEvent.updateMany(
+    { status: 'pending', rollupId: null, occurredAt: { $lte: now } },
+    { rollupId: randomUUID() }
+  );
+
+  const groups: {
+    _id: { rollupId: string; userId: string; meter: string };
+    quantity: number;
+    firstOccurredAt: Date;
+    occurredAt: Date;
+  }[] = await UsageEvent.aggregate([
+    { $match: { status: 'pending', rollupId: { $ne: null } } },
+    {
+      $group: {
+        _id: { rollupId: '$rollupId', userId: '$userId', meter: '$meter' },
+        quantity: { $sum: '$quantity' },
+        firstOccurredAt: { $min: '$occurredAt' },
+        occurredAt: { $max: '$occurredAt' },
+      },
+    },
+  ]);
+
+  const result = { reported: 0, included: 0, unbilled: 0, failed: 0 };
+  const plans = new Map<string, Plan>();
+  const subscriptionIds = new Map<string, string[]>();
+
+  for (const { _id: group, quantity, firstOccurredAt, occurredAt } of groups) {
+    const events = {
+      status: 'pending',
+      rollupId: group.rollupId,
+      userId: group.userId,
+      meter: group.meter,
+    };
+
+    try {
+      if (!plans.has(group.userId)) {
+        plans.set(group.userId, await getUserPlan(group.userId));
+      }
+      const plan = plans.get(group.userId)!;
+
+      // Usage recorded earlier in the period used up that much of the quota;
+      // it doesn't depend on the order groups are reported in, so a retried
+      // group reports the same quantity under its idempotency key
+      const period = await getBillingPeriod(group.userId, firstOccurredAt);
+      const totals = await UsageEvent.sumByMeter(
+        group.userId,
+        period.start,
+        firstOccurredAt
+      );
+      const billable = billableQuantity(
+        isMeter(group.meter) ? plan.quotas[group.meter] : 0,
+        totals[group.meter] ?? 0,
+        quantity
+      );
+
+      if (billable === 0) {
+        await UsageEvent.updateMany(events, { status: 'included' });
+        result.included++;
+        continue;
+      }
+
+      if (!subscriptionIds.has(group.userId)) {
+        const subscriptions = await Subscription.find({
+          userId: group.userId,
+          status: { $in: ENTITLED_STATUSES },
+        }).select('stripeSubscriptionId');
+        subscriptionIds.set(
+          group.userId,
+          subscriptions.map((subscription) => subscription.stripeSubscriptionId)
+        );
+      }
+
+      const itemId = await reportUsage(
+        client,
+        subscriptionIds.get(group.userId)!,
+        {
+          meter: group.meter,
+          quantity: billable,
+          occurredAt,
+          idempotencyKey: `usage:${group.rollupId}:${group.userId}:${group.meter}`,
+        }
+      );
+
+      await UsageEvent.updateMany(
+        events,
+        itemId
+          ? {
+              status: 'reported',
+              reportedAt: new Date(),
+              stripeSubscriptionItemId: itemId,
+            }
+          : { status: 'unbilled' }
+      );
+
+      if (itemId) result.reported++;
+      else result.unbilled++;
+    } catch (error) {
+      // Left pending for the next run, until it has failed too many times
+      result.failed++;
+      await UsageEvent.updateMany(events, {
+        $inc: { attempts: 1 },
+        error: (error as Error)?.message || String(error),
+      });
+      const abandoned = await UsageEvent.updateMany(
+        { ...events, attempts: { $gte: MAX_REPORT_ATTEMPTS } },
+        { status: 'failed' }
+      );
+
+      logger.error(
+        abandoned.modifiedCount > 0
+          ? 'Gave up reporting usage to Stripe'
+          : 'Failed to report usage to Stripe',
+        {
+          error,
+          userId: group.userId,
+          meter: group.meter,
+          rollupId: group.rollupId,
+        }
+      );
+    }
+  }
+
+  logger.info('Usage rollup finished', result);
+  return result;
+}
+
+/**
+ * Billing period containing a date: the current period of the user's
+ * subscription, otherwise the calendar month (UTC)
+ */
+export async function getBillingPeriod(
+  userId: string,
+  now: Date = new Date()
+): Promise<{ start: Date; end: Date }> {
+  const subscription = await Subscription.findOne({
+    userId,
+    status: { $in: ENTITLED_STATUSES },
+    currentPeriodStart: { $lte: now },
+    currentPeriodEnd: { $gt: now },
+  }).sort({ currentPeriodStart: -1 });
+
+  if (subscription) {
+    return {
+      start: subscription.currentPeriodStart!,
+      end: subscription.currentPeriodEnd!,
+    };
+  }
+
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * Consumption of each meter against the included quota of a plan
+ */
+export function compareToQuotas(
+  quotas: Record<PlanMeter, number | null>,
+  totals: Record<string, number>
+): MeterUsage[] {
+  return (Object.keys(METERS) as PlanMeter[]).map((meter) => {
+    const used = totals[meter] ?? 0;
+    const included = quotas[meter];
+
+    return {
+      meter,
+      name: METERS[meter].name,
+      used,
+      included,
+      remaining: included === null ? null : Math.max(included - used, 0),
+      overage: included === null ? 0 : Math.max(used - included, 0),
+    };
+  });
+}
+
+/**
+ * A user's current-period consumption against their plan's quotas
+ */
+export async function getUsageSummary(userId: string): Promise<{
+  plan: string;
+  period: { start: Date; end: Date };
+  meters: MeterUsage[];
+}> {
+  const [plan, period] = await Promise.all([
+    getUserPlan(userId),
+    getBillingPeriod(userId),
+  ]);
+  const totals = await UsageEvent.sumByMeter(userId, period.start, period.end);
+
+  return {
+    plan: plan.id,
+    period,
+    meters: compareToQuotas(plan.quotas, totals),
+  };
+}
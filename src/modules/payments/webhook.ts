@@ -1,75 +1,105 @@
-import { Request, Response } from 'express';
+import { Request } from 'express';
 import Stripe from 'stripe';
 import { env } from '../../core/config/env';
-import { logger } from '../../core/config/logger';
 import { User } from '../../database/mongodb/models/User';
+import { createWebhookHandler } from '../webhooks/processor';
+import {
+  VerifiedWebhookEvent,
+  WebhookContext,
+  WebhookProvider,
+} from '../webhooks/types';
+import { applySubscriptionEvent, applyInvoiceEvent } from './subscriptions';
 
 // FIX: Updated Stripe API version to match installed SDK version
 const stripe = new Stripe(env.STRIPE_SECRET_KEY || '', {
   apiVersion: '2023-10-16',
 });
 
-// FIX: Added return type to ensure all code paths return a value
-export async function handleStripeWebhook(
-  req: Request,
-  res: Response
-): Promise<Response> {
+/**
+ * Verify the Stripe signature and extract the event
+ */
+function verifyStripeEvent(req: Request): VerifiedWebhookEvent {
   const sig = req.headers['stripe-signature'] as string;
   if (!sig || !env.STRIPE_WEBHOOK_SECRET) {
-    return res.status(400).end();
+    throw new Error('Missing Stripe signature');
   }
-  let event: Stripe.Event;
-  try {
-    event = stripe.webhooks.constructEvent(
-      req.body,
-      sig,
-      env.STRIPE_WEBHOOK_SECRET
-    );
-  } catch (err) {
-    logger.error('Stripe webhook signature verification failed', err as Error);
-    return res.status(400).send(`Webhook Error: ${(err as Error).message}`);
-  }
-  const data: any = event.data.object;
-  const metadata = (data.metadata || {}) as Record<string, string>;
-  // FIX: Use bracket notation for 'userId' property access
-  const userId = metadata['userId'] || data.metadata?.['userId'];
 
-  try {
-    switch (event.type) {
-      case 'checkout.session.completed':
-        if (userId) {
-          const customerId = data.customer as string;
-          await updateSubscription(userId, 'pro', customerId);
-        }
-        break;
-      case 'customer.subscription.updated':
-        // For this example we ignore status changes
-        break;
-      case 'customer.subscription.deleted':
-        if (data.customer && userId) {
-          await updateSubscription(userId, 'free', undefined);
-        }
-        break;
-      case 'invoice.payment_failed':
-        // Could trigger an email
-        break;
-      default:
-        logger.info(`Unhandled Stripe event ${event.type}`);
-    }
-    return res.status(200).json({ received: true });
-  } catch (error) {
-    logger.error('Error processing Stripe webhook', error as Error);
-    return res.status(500).json({ received: false });
+  const event: Stripe.Event = stripe.webhooks.constructEvent(
+    req.body,
+    sig,
+    env.STRIPE_WEBHOOK_SECRET
+  );
+
+  return {
+    id: event.id,
+    type: event.type,
+    data: event.data.object,
+    occurredAt: new Date(event.created * 1000),
+  };
+}
+
+/**
+ * Creation time of the event being handled (now for events stored without
+ * one)
+ */
+function eventTime(context: WebhookContext): Date {
+  return context.occurredAt ?? new Date();
+}
+
+/**
+ * Link the Stripe customer created at checkout to the user. The
+ * subscription itself arrives with the subscription events.
+ */
+async function handleCheckoutCompleted(
+  data: Stripe.Checkout.Session
+): Promise<void> {
+  const userId = data.metadata?.['userId'];
+  const customerId =
+    typeof data.customer === 'string' ? data.customer : data.customer?.id;
+
+  if (userId && customerId) {
+    await User.findByIdAndUpdate(userId, { stripeCustomerId: customerId });
   }
 }
 
-async function updateSubscription(
-  userId: string,
-  subscription: string,
-  customerId?: string
-) {
-  await User.findByIdAndUpdate(userId, {
-    subscription,
-    stripeCustomerId: customerId,
-  });
+async function handleSubscriptionEvent(
+  data: Stripe.Subscription,
+  context: WebhookContext
+): Promise<void> {
+  await applySubscriptionEvent(data, eventTime(context), context.eventId);
+}
+
+async function handleInvoiceEvent(
+  data: Stripe.Invoice,
+  context: WebhookContext
+): Promise<void> {
+  await applyInvoiceEvent(data, context.type, eventTime(context));
 }
+
+/**
+ * Stripe webhook provider
+ */
+export const stripeWebhookProvider: WebhookProvider = {
+  name: 'stripe',
+  verify: verifyStripeEvent,
+  handlers: {
+    'checkout.session.completed': handleCheckoutCompleted,
+    'customer.subscription.created': handleSubscriptionEvent,
+    'customer.subscription.updated': handleSubscriptionEvent,
+    'customer.subscription.deleted': handleSubscriptionEvent,
+    'customer.subscription.paused': handleSubscriptionEvent,
+    'customer.subscription.resumed': handleSubscriptionEvent,
+    'customer.subscription.trial_will_end': handleSubscriptionEvent,
+    'invoice.paid': handleInvoiceEvent,
+    'invoice.payment_failed': handleInvoiceEvent,
+    'invoice.payment_action_required': handleInvoiceEvent,
+    'invoice.finalized': handleInvoiceEvent,
+    'invoice.voided': handleInvoiceEvent,
+    'invoice.marked_uncollectible': handleInvoiceEvent,
+  },
+};
+
+/**
+ * Handle Stripe webhook events
+ */
+export const handleStripeWebhook = createWebhookHandler(stripeWebhookProvider);
@@ -0,0 +1,411 @@
+import {
+  ErasureRequest,
+  IErasureRequest,
+  ErasurePhase,
+} from '../../database/mongodb/models/ErasureRequest';
+import { User } from '../../database/mongodb/models/User';
+import { AuditLog } from '../../database/mongodb/models/AuditLog';
+import { NotFoundError } from '../../core/types/errors';
+import { env } from '../../core/config/env';
+import { logger } from '../../core/config/logger';
+import { getPrivacyQueue } from '../jobs/queue';
+import { revokeUserSessions } from '../auth/revocation';
+import { invalidateIdentity } from '../auth/identityCache';
+import { disconnectUser } from '../realtime/server';
+import { getErasureHooks } from './registry';
+import { ErasureContext } from './types';
+
+/**
+ * Job names on the privacy queue
+ */
+export const ERASURE_PROCESS_JOB = 'erasure.process';
+export const ERASURE_SWEEP_JOB = 'erasure.sweep';
+
+/**
+ * Failed erasures are retried by the sweeper until this many attempts
+ */
+const MAX_ATTEMPTS = 5;
+
+/**
+ * Pending requests older than this were lost (e.g. the process restarted
+ * before an inline run) and are picked up by the sweeper
+ */
+const STALE_PENDING_MS = 10 * 60 * 1000;
+
+/**
+ * Requests left in `processing` longer than this were abandoned by a
+ * crashed worker and may be claimed again
+ */
+export const PROCESSING_LEASE_MS = 30 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start the erasure of a user's account. Idempotent: while an erasure is in
+ * progress for the user, the existing request is returned.
+ */
+export async function requestErasure(data: {
+  userId: string;
+  source: IErasureRequest['source'];
+  requestedBy?: string;
+}): Promise<IErasureRequest> {
+  const existing = await ErasureRequest.findActiveByUser(data.userId);
+  if (existing) {
+    return existing;
+  }
+
+  const user = await User.findById(data.userId).setOptions({
+    includeDeleted: true,
+  } as any);
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  const request = new ErasureRequest({
+    userId: data.userId,
+    clerkId: user.clerkId,
+    source: data.source,
+    ...(data.requestedBy && { requestedBy: data.requestedBy }),
+    purgeAfter: new Date(Date.now() + env.ERASURE_GRACE_DAYS * DAY_MS),
+  });
+  request.pseudonym = `erased:${request._id}`;
+  await request.save();
+
+  await AuditLog.log({
+    userId: data.requestedBy ?? data.userId,
+    action: 'erasure_requested',
+    resource: 'user',
+    resourceId: data.userId,
+    metadata: {
+      erasureRequestId: (request._id as unknown as string).toString(),
+      source: data.source,
+      purgeAfter: request.purgeAfter,
+    },
+  });
+
+  await scheduleErasure((request._id as unknown as string).toString());
+
+  logger.info('Account erasure requested', {
+    erasureRequestId: request._id,
+    userId: data.userId,
+    source: data.source,
+  });
+
+  return request;
+}
+
+/**
+ * Run the erasure on the privacy queue, or in-process when Redis is not
+ * configured
+ */
+async function scheduleErasure(erasureRequestId: string): Promise<void> {
+  const queue = getPrivacyQueue();
+
+  if (queue) {
+    await queue.add(
+      ERASURE_PROCESS_JOB,
+      { erasureRequestId },
+      {
+        jobId: `erasure-${erasureRequestId}`,
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 60000 },
+      }
+    );
+    return;
+  }
+
+  setImmediate(() => {
+    processErasure(erasureRequestId).catch((error) => {
+      logger.error('Account erasure failed', { error, erasureRequestId });
+    });
+  });
+}
+
+/**
+ * Build the hook context from the request and the (possibly soft deleted)
+ * user document
+ */
+async function buildContext(request: IErasureRequest): Promise<ErasureContext> {
+  const user = await User.findById(request.userId).setOptions({
+    includeDeleted: true,
+  } as any);
+
+  const clerkId = user?.clerkId ?? request.clerkId;
+
+  return {
+    erasureRequestId: (request._id as unknown as string).toString(),
+    userId: request.userId,
+    pseudonym: request.pseudonym,
+    ...(clerkId && { clerkId }),
+    ...(user?.email && { email: user.email }),
+    ...(user?.stripeCustomerId && { stripeCustomerId: user.stripeCustomerId }),
+  };
+}
+
+/**
+ * Run every hook of a phase, skipping hooks that completed on an earlier
+ * attempt. Progress is saved after each hook.
+ */
+async function runHooks(
+  request: IErasureRequest,
+  ctx: ErasureContext,
+  phase: ErasurePhase
+): Promise<void> {
+  for (const hook of getErasureHooks()) {
+    const run = phase === 'soft' ? hook.softDelete : hook.hardDelete;
+    if (!run || request.hasCompleted(hook.name, phase)) continue;
+
+    const count = await run.call(hook, ctx);
+
+    request.steps.push({
+      hook: hook.name,
+      phase,
+      ...(typeof count === 'number' && { count }),
+      completedAt: new Date(),
+    });
+    await request.save();
+
+    logger.debug(`Erasure hook ${hook.name} (${phase}) completed`, {
+      erasureRequestId: ctx.erasureRequestId,
+      count,
+    });
+  }
+}
+
+/**
+ * Replace the user's identifiers in audit logs with the request pseudonym.
+ * Entries are kept so the log stays complete, but no longer point to a
+ * person.
+ */
+async function anonymizeAuditLogs(ctx: ErasureContext): Promise<number> {
+  const [asActor, asImpersonator, asResource, byEmail] = await Promise.all([
+    AuditLog.updateMany(
+      { userId: ctx.userId },
+      {
+        $set: { userId: ctx.pseudonym },
+        $unset: { userEmail: '', ipAddress: '', userAgent: '' },
+      }
+    ),
+    AuditLog.updateMany(
+      { impersonatorId: ctx.userId },
+      {
+        $set: { impersonatorId: ctx.pseudonym },
+        $unset: { impersonatorEmail: '' },
+      }
+    ),
+    AuditLog.updateMany(
+      { resource: 'user', resourceId: ctx.userId },
+      { $set: { resourceId: ctx.pseudonym } }
+    ),
+    ctx.email
+      ? AuditLog.updateMany(
+          { 'metadata.email': ctx.email },
+          { $unset: { 'metadata.email': '' } }
+        )
+      : null,
+  ]);
+
+  return (
+    asActor.modifiedCount +
+    asImpersonator.modifiedCount +
+    asResource.modifiedCount +
+    (byEmail?.modifiedCount ?? 0)
+  );
+}
+
+/**
+ * Record a failed attempt; the caller rethrows so the queue retries
+ */
+async function markFailed(
+  request: IErasureRequest,
+  error: unknown
+): Promise<void> {
+  request.status = 'failed';
+  request.error = (error as Error)?.message || String(error);
+  await request.save();
+
+  logger.error('Account erasure step failed', {
+    error,
+    erasureRequestId: request._id,
+    phase: request.phase,
+    attempts: request.attempts,
+  });
+}
+
+/**
+ * Filter matching requests whose worker's lease on them ran out
+ */
+function staleProcessing(now: number = Date.now()) {
+  return {
+    status: 'processing',
+    updatedAt: { $lte: new Date(now - PROCESSING_LEASE_MS) },
+  };
+}
+
+/**
+ * Soft phase: cut the user's access, run the modules' soft delete hooks,
+ * soft delete the user and anonymise their audit trail. The purge follows
+ * right away when there is no grace period.
+ */
+export async function processErasure(erasureRequestId: string): Promise<void> {
+  const request = await ErasureRequest.findOneAndUpdate(
+    {
+      _id: erasureRequestId,
+      phase: 'soft',
+      $or: [{ status: { $in: ['pending', 'failed'] } }, staleProcessing()],
+    },
+    { status: 'processing', $inc: { attempts: 1 } },
+    { new: true }
+  );
+
+  // Already processed, or another worker has it
+  if (!request) return;
+
+  try {
+    const ctx = await buildContext(request);
+
+    await revokeUserSessions(ctx.userId);
+    if (ctx.clerkId) {
+      await invalidateIdentity(ctx.clerkId);
+    }
+    disconnectUser(ctx.userId);
+
+    await runHooks(request, ctx, 'soft');
+
+    await User.softDelete(ctx.userId);
+    await anonymizeAuditLogs(ctx);
+
+    request.status = 'soft_deleted';
+    request.phase = 'purge';
+    request.softDeletedAt = new Date();
+    request.attempts = 0;
+    request.set('error', undefined);
+    await request.save();
+
+    logger.info('Account soft deleted', {
+      erasureRequestId,
+      purgeAfter: request.purgeAfter,
+    });
+  } catch (error) {
+    await markFailed(request, error);
+    throw error;
+  }
+
+  if (request.purgeAfter.getTime() <= Date.now()) {
+    await purgeErasure(erasureRequestId);
+  }
+}
+
+/**
+ * Purge phase, after the grace period: run the hard delete hooks, delete
+ * the user document and write the erasure certificate
+ */
+export async function purgeErasure(erasureRequestId: string): Promise<void> {
+  const request = await ErasureRequest.findOneAndUpdate(
+    {
+      _id: erasureRequestId,
+      phase: 'purge',
+      $or: [{ status: { $in: ['soft_deleted', 'failed'] } }, staleProcessing()],
+      purgeAfter: { $lte: new Date() },
+    },
+    { status: 'processing', $inc: { attempts: 1 } },
+    { new: true }
+  );
+
+  if (!request) return;
+
+  try {
+    const ctx = await buildContext(request);
+
+    await runHooks(request, ctx, 'purge');
+
+    // Entries written during the grace period are anonymised too
+    await anonymizeAuditLogs(ctx);
+    await User.deleteOne({ _id: ctx.userId });
+
+    const completedAt = new Date();
+
+    await AuditLog.log({
+      action: 'erasure_certificate',
+      resource: 'user',
+      resourceId: request.pseudonym,
+      metadata: {
+        erasureRequestId,
+        source: request.source,
+        requestedAt: request.createdAt,
+        softDeletedAt: request.softDeletedAt,
+        completedAt,
+        steps: request.steps.map((step) => ({
+          hook: step.hook,
+          phase: step.phase,
+          count: step.count,
+          completedAt: step.completedAt,
+        })),
+      },
+    });
+
+    request.status = 'completed';
+    request.completedAt = completedAt;
+    request.set('clerkId', undefined);
+    request.set('error', undefined);
+    await request.save();
+
+    logger.info('Account erasure completed', { erasureRequestId });
+  } catch (error) {
+    await markFailed(request, error);
+    throw error;
+  }
+}
+
+/**
+ * Purge erasures whose grace period is over and retry failed or lost ones,
+ * including those a crashed worker left in `processing`.
+ * Run periodically by the privacy worker, or by the in-process sweeper.
+ */
+export async function sweepErasures(): Promise<number> {
+  const now = Date.now();
+  const requests = await ErasureRequest.find({
+    $or: [
+      { status: 'soft_deleted', purgeAfter: { $lte: new Date(now) } },
+      { status: 'failed', attempts: { $lt: MAX_ATTEMPTS } },
+      {
+        status: 'pending',
+        createdAt: { $lte: new Date(now - STALE_PENDING_MS) },
+      },
+      { ...staleProcessing(now), attempts: { $lt: MAX_ATTEMPTS } },
+    ],
+  }).limit(100);
+
+  let processed = 0;
+
+  for (const request of requests) {
+    const id = (request._id as unknown as string).toString();
+    try {
+      if (request.phase === 'soft') {
+        await processErasure(id);
+      } else {
+        await purgeErasure(id);
+      }
+      processed++;
+    } catch {
+      // Already recorded on the request; retried on the next sweep
+    }
+  }
+
+  return processed;
+}
+
+/**
+ * Sweep erasures on a timer. Used when background jobs are disabled; the
+ * privacy worker schedules the sweep otherwise.
+ */
+export function startErasureSweeper(intervalMs: number = 60 * 60 * 1000): void {
+  const timer = setInterval(() => {
+    sweepErasures().catch((error) => {
+      logger.error('Erasure sweep failed', { error });
+    });
+  }, intervalMs);
+
+  // Don't keep the process alive for the sweeper
+  timer.unref();
+}
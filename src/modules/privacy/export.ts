@@ -0,0 +1,333 @@
+import crypto from 'crypto';
+import {
+  DataExport,
+  IDataExport,
+  DataExportFormat,
+} from '../../database/mongodb/models/DataExport';
+import { User } from '../../database/mongodb/models/User';
+import { AuditLog } from '../../database/mongodb/models/AuditLog';
+import { NotFoundError, ValidationError } from '../../core/types/errors';
+import { env } from '../../core/config/env';
+import { logger } from '../../core/config/logger';
+import { createZip } from '../../core/utils/zip';
+import { getEmailQueue, getPrivacyQueue } from '../jobs/queue';
+import { sendEmail } from '../email/service';
+import { getIo } from '../realtime/server';
+import {
+  getExportContributors,
+  registerExportContributor,
+  registerErasureHook,
+} from './registry';
+import { DataExportContext } from './types';
+
+/**
+ * Job name on the privacy queue
+ */
+export const EXPORT_PROCESS_JOB = 'export.process';
+
+/**
+ * Bundles are stored in the export document, which MongoDB caps at 16 MB
+ */
+const MAX_BUNDLE_BYTES = 15 * 1024 * 1024;
+
+/**
+ * Audit entries included in an export
+ */
+const MAX_AUDIT_LOGS = 10000;
+const AUDIT_LOG_PAGE_SIZE = 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// The user's own audit trail is part of every export
+registerExportContributor({
+  name: 'audit-logs',
+
+  async collect(ctx) {
+    const logs = [];
+
+    for (let skip = 0; skip < MAX_AUDIT_LOGS; skip += AUDIT_LOG_PAGE_SIZE) {
+      const page = await AuditLog.getUserLogs(ctx.userId, {
+        limit: AUDIT_LOG_PAGE_SIZE,
+        skip,
+      });
+      logs.push(...page.map((log) => log.toJSON()));
+      if (page.length < AUDIT_LOG_PAGE_SIZE) break;
+    }
+
+    return logs;
+  },
+});
+
+// Exports are copies of the user's data and go with it
+registerErasureHook({
+  name: 'data-exports',
+
+  async softDelete(ctx) {
+    const result = await DataExport.deleteMany({ userId: ctx.userId });
+    return result.deletedCount;
+  },
+});
+
+/**
+ * Start a personal data export. While an export is being built for the
+ * user, that export is returned instead of starting another one.
+ */
+export async function requestDataExport(
+  userId: string,
+  format: DataExportFormat
+): Promise<IDataExport> {
+  const existing = await DataExport.findActiveByUser(userId);
+  if (existing) {
+    return existing;
+  }
+
+  const dataExport = await DataExport.create({
+    userId,
+    format,
+    expiresAt: new Date(Date.now() + env.DATA_EXPORT_TTL_HOURS * HOUR_MS),
+  });
+  const exportId = (dataExport._id as unknown as string).toString();
+
+  await AuditLog.log({
+    userId,
+    action: 'export_requested',
+    resource: 'user',
+    resourceId: userId,
+    metadata: { exportId, format },
+  });
+
+  const queue = getPrivacyQueue();
+  if (queue) {
+    await queue.add(
+      EXPORT_PROCESS_JOB,
+      { exportId },
+      {
+        jobId: `export-${exportId}`,
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 30000 },
+      }
+    );
+  } else {
+    setImmediate(() => {
+      processDataExport(exportId).catch((error) => {
+        logger.error('Data export failed', { error, exportId });
+      });
+    });
+  }
+
+  return dataExport;
+}
+
+/**
+ * Collect every contributor's data. A failing contributor fails the export,
+ * so users never receive an incomplete bundle.
+ */
+async function collect(
+  ctx: DataExportContext
+): Promise<{ name: string; data: unknown }[]> {
+  const sections = [];
+
+  for (const contributor of getExportContributors()) {
+    const data = await contributor.collect(ctx);
+    if (data === null || data === undefined) continue;
+    sections.push({ name: contributor.name, data });
+  }
+
+  return sections;
+}
+
+/**
+ * Serialise the collected sections into the requested bundle format
+ */
+function buildBundle(
+  format: DataExportFormat,
+  manifest: Record<string, unknown>,
+  sections: { name: string; data: unknown }[]
+): Buffer {
+  if (format === 'json') {
+    const data = Object.fromEntries(
+      sections.map((section) => [section.name, section.data])
+    );
+    return Buffer.from(JSON.stringify({ ...manifest, data }, null, 2));
+  }
+
+  return createZip([
+    { name: 'manifest.json', data: JSON.stringify(manifest, null, 2) },
+    ...sections.map((section) => ({
+      name: `${section.name}.json`,
+      data: JSON.stringify(section.data, null, 2),
+    })),
+  ]);
+}
+
+/**
+ * Build an export bundle, store it and notify the user with a download link
+ */
+export async function processDataExport(exportId: string): Promise<void> {
+  const dataExport = await DataExport.findOneAndUpdate(
+    {
+      _id: exportId,
+      status: { $in: ['pending', 'failed'] },
+      expiresAt: { $gt: new Date() },
+    },
+    { status: 'processing', $inc: { attempts: 1 } },
+    { new: true }
+  );
+
+  // Already built, expired, or another worker has it
+  if (!dataExport) return;
+
+  try {
+    const user = await User.findById(dataExport.userId);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    const ctx: DataExportContext = {
+      exportId,
+      userId: dataExport.userId,
+      email: user.email,
+      ...(user.stripeCustomerId && {
+        stripeCustomerId: user.stripeCustomerId,
+      }),
+    };
+
+    const exportedAt = new Date();
+    const sections = await collect(ctx);
+    const contributors = sections.map((section) => ({
+      name: section.name,
+      ...(Array.isArray(section.data) && { count: section.data.length }),
+    }));
+
+    const bundle = buildBundle(
+      dataExport.format,
+      { exportId, userId: ctx.userId, exportedAt, contributors },
+      sections
+    );
+
+    if (bundle.length > MAX_BUNDLE_BYTES) {
+      throw new ValidationError('Export is too large');
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(
+      Date.now() + env.DATA_EXPORT_TTL_HOURS * HOUR_MS
+    );
+
+    dataExport.set({
+      status: 'ready',
+      data: bundle,
+      size: bundle.length,
+      contributors,
+      tokenHash: DataExport.hashToken(token),
+      completedAt: exportedAt,
+      expiresAt,
+      error: undefined,
+    });
+    await dataExport.save();
+
+    logger.info('Data export ready', {
+      exportId,
+      userId: ctx.userId,
+      size: bundle.length,
+    });
+
+    await notifyExportReady(dataExport, user.email, token);
+  } catch (error) {
+    dataExport.status = 'failed';
+    dataExport.error = (error as Error)?.message || String(error);
+    await dataExport.save();
+    throw error;
+  }
+}
+
+/**
+ * Public download link of an export
+ */
+export function getDownloadUrl(token: string): string {
+  const baseUrl = env.PUBLIC_API_URL ?? `http://localhost:${env.PORT}`;
+  return `${baseUrl.replace(/\/$/, '')}/api/users/exports/download?token=${token}`;
+}
+
+/**
+ * Email the download link and tell connected clients the export is ready
+ */
+async function notifyExportReady(
+  dataExport: IDataExport,
+  email: string,
+  token: string
+): Promise<void> {
+  const exportId = (dataExport._id as unknown as string).toString();
+  const link = getDownloadUrl(token);
+  const hours = env.DATA_EXPORT_TTL_HOURS;
+
+  const payload = {
+    to: email,
+    userId: dataExport.userId,
+    subject: 'Your data export is ready',
+    html: `<p>The copy of your data you requested is ready.</p><p><a href="${link}">Download your data</a>. The link expires in ${hours} hours.</p>`,
+    text: `The copy of your data you requested is ready. Download it: ${link} (expires in ${hours} hours)`,
+  };
+
+  try {
+    const emailQueue = getEmailQueue();
+    if (emailQueue) {
+      await emailQueue.add('data-export-ready', payload);
+    } else {
+      await sendEmail(payload);
+    }
+  } catch (error) {
+    // The export can still be downloaded from the account
+    logger.error('Failed to send data export email', { error, exportId });
+  }
+
+  try {
+    getIo().to(`user-${dataExport.userId}`).emit('data-export:ready', {
+      exportId,
+      expiresAt: dataExport.expiresAt,
+    });
+  } catch {
+    // Realtime is not enabled
+  }
+}
+
+/**
+ * List a user's exports, newest first
+ */
+export async function listDataExports(userId: string): Promise<IDataExport[]> {
+  return DataExport.find({ userId }).sort({ createdAt: -1 });
+}
+
+/**
+ * Get a ready export with its bundle, by owner or by download token
+ */
+export async function getExportBundle(
+  lookup: { userId: string; exportId: string } | { token: string }
+): Promise<IDataExport> {
+  const dataExport =
+    'token' in lookup
+      ? await DataExport.findReadyByToken(lookup.token)
+      : await DataExport.findOne({
+          _id: lookup.exportId,
+          userId: lookup.userId,
+          status: 'ready',
+          expiresAt: { $gt: new Date() },
+        }).select('+data');
+
+  if (!dataExport?.data) {
+    throw new NotFoundError('Export not found or expired');
+  }
+
+  await AuditLog.log({
+    userId: dataExport.userId,
+    action: 'export_downloaded',
+    resource: 'user',
+    resourceId: dataExport.userId,
+    metadata: {
+      exportId: (dataExport._id as unknown as string).toString(),
+      via: 'token' in lookup ? 'link' : 'account',
+    },
+  });
+
+  return dataExport;
+}
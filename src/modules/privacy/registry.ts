@@ -0,0 +1,38 @@
+import { DataExportContributor, ErasureHook } from './types';
+
+const hooks = new Map<string, ErasureHook>();
+const contributors = new Map<string, DataExportContributor>();
+
+/**
+ * Register the cleanup a module needs when a user is erased. Modules call
+ * this when they are loaded; hooks run in registration order.
+ */
+export function registerErasureHook(hook: ErasureHook): ErasureHook {
+  hooks.set(hook.name, hook);
+  return hook;
+}
+
+/**
+ * Registered erasure hooks, in registration order
+ */
+export function getErasureHooks(): ErasureHook[] {
+  return [...hooks.values()];
+}
+
+/**
+ * Register the data a module adds to personal data exports. Modules call
+ * this when they are loaded, next to their erasure hook.
+ */
+export function registerExportContributor(
+  contributor: DataExportContributor
+): DataExportContributor {
+  contributors.set(contributor.name, contributor);
+  return contributor;
+}
+
+/**
+ * Registered export contributors, in registration order
+ */
+export function getExportContributors(): DataExportContributor[] {
+  return [...contributors.values()];
+}
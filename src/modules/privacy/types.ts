@@ -0,0 +1,50 @@
+/**
+ * What an erasure hook knows about the user being erased. The User document
+ * may already be soft deleted, so hooks get the identifiers they need here.
+ */
+export interface ErasureContext {
+  erasureRequestId: string;
+  userId: string;
+  clerkId?: string;
+  email?: string;
+  stripeCustomerId?: string;
+  /**
+   * Stable replacement for the user id in records that must be kept
+   */
+  pseudonym: string;
+}
+
+/**
+ * Cleanup a module runs when a user is erased. `softDelete` runs as soon as
+ * the erasure is processed and must make the data unavailable; `hardDelete`
+ * runs after the grace period and removes it permanently.
+ *
+ * Both steps must be idempotent: a failed erasure is retried from the first
+ * step that did not complete. They may return the number of affected
+ * records, which is kept in the erasure certificate.
+ */
+export interface ErasureHook {
+  name: string;
+  softDelete?(ctx: ErasureContext): Promise<number | void>;
+  hardDelete?(ctx: ErasureContext): Promise<number | void>;
+}
+
+/**
+ * What an export contributor knows about the user whose data is exported
+ */
+export interface DataExportContext {
+  exportId: string;
+  userId: string;
+  email?: string;
+  stripeCustomerId?: string;
+}
+
+/**
+ * Data a module adds to a user's personal data export. The returned value is
+ * serialised to JSON under the contributor's name (`<name>.json` in ZIP
+ * bundles). Return null or undefined to leave the section out.
+ */
+export interface DataExportContributor {
+  name: string;
+  collect(ctx: DataExportContext): Promise<unknown>;
+}
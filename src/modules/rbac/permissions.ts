@@ -1,12 +1,60 @@
-export const PERMISSIONS: Record<string, string[]> = {
-  'events.create': ['admin', 'organizer'],
-  'events.read': ['admin', 'organizer', 'judge'],
-  'events.update': ['admin', 'organizer'],
-  'events.delete': ['admin'],
-  'scores.submit': ['judge'],
-  'scores.read': ['admin', 'organizer', 'judge'],
+import { UserRole, OrgRole } from '../../core/types';
+
+/**
+ * Default permissions of the built-in platform roles, seeded into the Role
+ * collection at startup (and used until the roles are loaded). Edit roles
+ * through the admin API afterwards. Permissions follow
+ * `resource:action[:scope]`; `*` matches any segment and, at the end, any
+ * number of segments. A permission without a scope also covers its `:own`
+ * form.
+ */
+export const ROLE_PERMISSIONS: Record<string, string[]> = {
+  [UserRole.ADMIN]: ['*'],
+  [UserRole.MODERATOR]: [
+    'users:read',
+    'users:update:own',
+    'content:read',
+    'content:create',
+    'content:update:own',
+    'content:delete:own',
+    'content:moderate',
+  ],
+  [UserRole.USER]: [
+    'users:read:own',
+    'users:update:own',
+    'content:read',
+    'content:create',
+    'content:update:own',
+    'content:delete:own',
+  ],
 };
 
-export function hasPermission(userRole: string, permission: string) {
-  return PERMISSIONS[permission]?.includes(userRole) ?? false;
-}
+/**
+ * Permissions granted by each membership role inside its organization.
+ * Kept to org-scoped resources so membership never grants platform-wide
+ * permissions such as `users:*`.
+ */
+export const ORG_ROLE_PERMISSIONS: Record<string, string[]> = {
+  [OrgRole.OWNER]: [
+    'org:*',
+    'members:*',
+    'invitations:*',
+    'content:*',
+    'billing:*',
+  ],
+  [OrgRole.ADMIN]: [
+    'org:read',
+    'org:update',
+    'members:*',
+    'invitations:*',
+    'content:*',
+  ],
+  [OrgRole.MEMBER]: [
+    'org:read',
+    'members:read',
+    'content:read',
+    'content:create',
+    'content:update:own',
+    'content:delete:own',
+  ],
+};
@@ -0,0 +1,141 @@
+import { ORG_ROLE_PERMISSIONS } from './permissions';
+import { getRolePermissions } from './roleCache';
+
+/**
+ * Scope of a permission that only applies to the subject's own resources
+ */
+const OWN_SCOPE = 'own';
+
+/**
+ * Who is asking. Built from the request principal (and its active
+ * organization) or from a user document.
+ */
+export interface PolicySubject {
+  id?: string;
+  role: string;
+  /**
+   * Permissions held by the principal itself (service principals)
+   */
+  permissions?: string[];
+  /**
+   * Scopes the principal is restricted to (API keys). Scopes never grant
+   * anything by themselves; they narrow what the role grants.
+   */
+  scopes?: string[];
+  /**
+   * Active organization and the subject's membership role in it
+   */
+  organizationId?: string;
+  organizationRole?: string;
+}
+
+/**
+ * The resource a permission is checked against, when known
+ */
+export interface PolicyResource {
+  ownerId?: string;
+  /**
+   * Organization the resource belongs to. Membership roles only grant
+   * permissions on resources of the active organization.
+   */
+  organizationId?: string;
+}
+
+/**
+ * Whether a single granted permission covers the required one. `*` matches
+ * any segment, and a trailing `*` matches one or more segments. A grant
+ * without a scope covers the `:own` form (`content:update` covers
+ * `content:update:own`), never the other way round.
+ */
+export function permissionMatches(granted: string, required: string): boolean {
+  const grantedParts = granted.split(':');
+  const requiredParts = required.split(':');
+
+  for (let i = 0; i < grantedParts.length; i++) {
+    const part = grantedParts[i];
+
+    if (i >= requiredParts.length) return false;
+    if (part === '*' && i === grantedParts.length - 1) return true;
+    if (part !== '*' && part !== requiredParts[i]) return false;
+  }
+
+  return (
+    requiredParts.length === grantedParts.length ||
+    (requiredParts.length === grantedParts.length + 1 &&
+      requiredParts[requiredParts.length - 1] === OWN_SCOPE)
+  );
+}
+
+/**
+ * Whether a list of granted permissions covers a permission. When the
+ * subject owns the resource, an `:own` grant also covers the unscoped
+ * permission.
+ */
+export function grantsPermission(
+  granted: string[],
+  permission: string,
+  ownsResource: boolean = false
+): boolean {
+  const candidates =
+    ownsResource && !permission.endsWith(`:${OWN_SCOPE}`)
+      ? [permission, `${permission}:${OWN_SCOPE}`]
+      : [permission];
+
+  return candidates.some((required) =>
+    granted.some((grant) => permissionMatches(grant, required))
+  );
+}
+
+/**
+ * Platform-wide permissions of a subject: its platform role (with inherited
+ * roles) and its own permissions. Role permissions come from the role
+ * cache; callers that can await should call `ensureRolesLoaded` first.
+ */
+export function getGrantedPermissions(subject: PolicySubject): string[] {
+  return [...getRolePermissions(subject.role), ...(subject.permissions ?? [])];
+}
+
+/**
+ * Permissions the subject's membership role grants on resources of its
+ * active organization
+ */
+export function getOrganizationPermissions(subject: PolicySubject): string[] {
+  if (!subject.organizationId || !subject.organizationRole) return [];
+  return ORG_ROLE_PERMISSIONS[subject.organizationRole] ?? [];
+}
+
+/**
+ * The single answer to "may this subject do this?", used by the route
+ * middleware and `User.hasPermission`. Membership roles count only for
+ * resources of the active organization, and API key scopes must also allow
+ * the permission.
+ */
+export function isAllowed(
+  subject: PolicySubject,
+  permission: string,
+  resource?: PolicyResource
+): boolean {
+  const ownsResource =
+    subject.id !== undefined &&
+    resource?.ownerId !== undefined &&
+    resource.ownerId === subject.id;
+  const inOrganization =
+    subject.organizationId !== undefined &&
+    resource?.organizationId === subject.organizationId;
+
+  return (
+    (grantsPermission(
+      getGrantedPermissions(subject),
+      permission,
+      ownsResource
+    ) ||
+      (inOrganization &&
+        grantsPermission(
+          getOrganizationPermissions(subject),
+          permission,
+          ownsResource
+        ))) &&
+    (!subject.scopes ||
+      grantsPermission(subject.scopes, permission, ownsResource))
+  );
+}
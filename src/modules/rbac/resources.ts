@@ -0,0 +1,212 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  AuthError,
+  ForbiddenError,
+  NotFoundError,
+} from '../../core/types/errors';
+import { describeGuard } from '../../core/utils/routeManifest';
+import { getPolicySubject } from '../auth/middleware';
+import { isAllowed, PolicyResource, PolicySubject } from './policy';
+import { ensureRolesLoaded } from './roleCache';
+
+/**
+ * What a resource rule is evaluated against. The subject is null for
+ * anonymous requests (routes using optionalAuth).
+ */
+export interface ResourceContext<T> {
+  subject: PolicySubject | null;
+  resource: T;
+}
+
+/**
+ * One way to be allowed an action. A rule passes when its permission is
+ * granted (checked against the resource owner, so `:own` grants apply) and
+ * its condition holds; rules without one of them skip that part.
+ */
+export interface ResourceRule<T> {
+  permission?: string;
+  when?: (context: ResourceContext<T>) => boolean;
+}
+
+/**
+ * Authorization policy of a resource type: how to find it, who owns it,
+ * and the rules of each action (any passing rule allows it)
+ */
+export interface ResourcePolicy<T> {
+  name: string;
+  findById: (id: string) => Promise<T | null>;
+  /**
+   * Route param holding the resource id (default `id`)
+   */
+  param?: string;
+  ownerId?: (resource: T) => string | undefined;
+  /**
+   * Organization owning the resource; membership roles of that organization
+   * apply to it when it's the active one. Resources without one are never
+   * reachable through membership roles.
+   */
+  organizationId?: (resource: T) => string | undefined;
+  actions: Record<string, ResourceRule<T>[]>;
+}
+
+const policies = new Map<string, ResourcePolicy<any>>();
+
+/**
+ * Register the policy of a resource type. Features call this when they
+ * are loaded, next to their routes.
+ */
+export function registerResourcePolicy<T>(
+  policy: ResourcePolicy<T>
+): ResourcePolicy<T> {
+  policies.set(policy.name, policy);
+  return policy;
+}
+
+/**
+ * Registered policy of a resource type
+ */
+export function getResourcePolicy(
+  name: string
+): ResourcePolicy<unknown> | undefined {
+  return policies.get(name);
+}
+
+/**
+ * Owner and organization of a resource, as the permission policy sees it
+ */
+export function policyResource<T>(
+  policy: ResourcePolicy<T>,
+  resource: T
+): PolicyResource {
+  const ownerId = policy.ownerId?.(resource);
+  const organizationId = policy.organizationId?.(resource);
+
+  return {
+    ...(ownerId && { ownerId }),
+    ...(organizationId && { organizationId }),
+  };
+}
+
+/**
+ * Whether a subject may perform an action on a resource. Unknown actions
+ * are denied.
+ */
+export function can<T>(
+  subject: PolicySubject | null,
+  policy: ResourcePolicy<T>,
+  action: string,
+  resource: T
+): boolean {
+  const rules = policy.actions[action] ?? [];
+
+  return rules.some(
+    (rule) =>
+      (!rule.permission ||
+        (subject !== null &&
+          isAllowed(
+            subject,
+            rule.permission,
+            policyResource(policy, resource)
+          ))) &&
+      (!rule.when || rule.when({ subject, resource }))
+  );
+}
+
+/**
+ * Throw a ForbiddenError unless the subject may perform the action
+ */
+export function authorize<T>(
+  subject: PolicySubject | null,
+  policy: ResourcePolicy<T>,
+  action: string,
+  resource: T
+): void {
+  if (!can(subject, policy, action, resource)) {
+    throw new ForbiddenError(
+      `You do not have permission to ${action} this ${policy.name}`
+    );
+  }
+}
+
+/**
+ * Load the resource of a request through its policy, once per request
+ */
+export async function loadResource<T>(
+  req: Request,
+  policy: ResourcePolicy<T>
+): Promise<T> {
+  if (req.resources && policy.name in req.resources) {
+    return req.resources[policy.name] as T;
+  }
+
+  const id = req.params[policy.param ?? 'id'];
+  const resource = id ? await policy.findById(id) : null;
+  if (!resource) {
+    throw new NotFoundError(notFoundMessage(policy));
+  }
+
+  req.resources = { ...req.resources, [policy.name]: resource };
+  return resource;
+}
+
+/**
+ * Error message of a missing resource ("Example not found")
+ */
+export function notFoundMessage<T>(policy: ResourcePolicy<T>): string {
+  return `${policy.name.charAt(0).toUpperCase()}${policy.name.slice(1)} not found`;
+}
+
+/**
+ * The resource loaded for this request by authorizeResource
+ */
+export function getResource<T>(req: Request, policy: ResourcePolicy<T>): T {
+  const resource = req.resources?.[policy.name];
+
+  if (resource === undefined) {
+    throw new Error(`${policy.name} was not loaded for this request`);
+  }
+
+  return resource as T;
+}
+
+/**
+ * Load the resource of the request and check the action against its
+ * policy. Handlers read the resource with getResource. Use after
+ * requireAuth (or optionalAuth, for actions anonymous users may perform).
+ */
+export function authorizeResource<T>(
+  policy: ResourcePolicy<T>,
+  action: string,
+  options: { allowAnonymous?: boolean } = {}
+) {
+  const guard = async (
+    req: Request,
+    _res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user && !options.allowAnonymous) {
+        throw new AuthError('Authentication required');
+      }
+
+      const resource = await loadResource(req, policy);
+
+      await ensureRolesLoaded();
+      authorize(
+        req.user ? getPolicySubject(req) : null,
+        policy,
+        action,
+        resource
+      );
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  return describeGuard(guard, {
+    name: `authorizeResource(${policy.name}:${action})`,
+    auth: options.allowAnonymous ? 'optional' : 'required',
+  });
+}
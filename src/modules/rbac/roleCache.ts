@@ -0,0 +1,188 @@
+import mongoose from 'mongoose';
+import { Role } from '../../database/mongodb/models/Role';
+import { getRedisClient, RedisClient } from '../../core/config/redis';
+import { env } from '../../core/config/env';
+import { logger } from '../../core/config/logger';
+import { ROLE_PERMISSIONS } from './permissions';
+
+/**
+ * Redis channel on which role changes are announced to every instance
+ */
+const ROLES_CHANNEL = 'rbac:roles:changed';
+
+/**
+ * Effective permissions of every role, inheritance included. Null until
+ * the roles are first loaded from the database; the built-in defaults apply
+ * meanwhile.
+ */
+let rolePermissions: Map<string, string[]> | null = null;
+let roleParents = new Map<string, string[]>();
+let loadedAt = 0;
+let loading: Promise<void> | null = null;
+let subscriber: RedisClient | null = null;
+
+/**
+ * Resolve the effective permissions of each role: its own plus those of
+ * every role it inherits from, directly or not. Unknown parents and
+ * inheritance cycles are ignored.
+ */
+export function resolveRolePermissions(
+  roles: { name: string; permissions: string[]; inherits: string[] }[]
+): Map<string, string[]> {
+  const byName = new Map(roles.map((role) => [role.name, role]));
+  const resolved = new Map<string, string[]>();
+
+  for (const role of roles) {
+    const permissions = new Set<string>();
+    const visited = new Set<string>();
+    const pending = [role.name];
+
+    while (pending.length > 0) {
+      const name = pending.pop()!;
+      if (visited.has(name)) continue;
+      visited.add(name);
+
+      const current = byName.get(name);
+      if (!current) continue;
+
+      current.permissions.forEach((permission) => permissions.add(permission));
+      pending.push(...current.inherits);
+    }
+
+    resolved.set(role.name, [...permissions]);
+  }
+
+  return resolved;
+}
+
+/**
+ * Load every role from the database into the cache
+ */
+export async function loadRoles(): Promise<void> {
+  const roles = await Role.find().select('name permissions inherits').lean();
+
+  rolePermissions = resolveRolePermissions(roles);
+  roleParents = new Map(roles.map((role) => [role.name, role.inherits]));
+  loadedAt = Date.now();
+
+  logger.debug('Role permissions loaded', { roles: roles.length });
+}
+
+/**
+ * Make sure the cached roles are fresh, reloading them when they were
+ * invalidated or are older than ROLE_CACHE_TTL. Concurrent callers share
+ * one reload; a failed reload keeps the previous roles.
+ */
+export async function ensureRolesLoaded(): Promise<void> {
+  if (rolePermissions && Date.now() - loadedAt < env.ROLE_CACHE_TTL * 1000) {
+    return;
+  }
+
+  // Without a database (tests, scripts) the built-in defaults apply
+  if (mongoose.connection.readyState !== 1) return;
+
+  if (!loading) {
+    loading = loadRoles()
+      .catch((error) => {
+        logger.error('Failed to load roles', { error });
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+
+  await loading;
+}
+
+/**
+ * Effective permissions of a role, from the cache. Before the roles are
+ * loaded, built-in roles get their default permissions.
+ */
+export function getRolePermissions(role: string): string[] {
+  if (rolePermissions) {
+    return rolePermissions.get(role) ?? [];
+  }
+
+  return ROLE_PERMISSIONS[role] ?? [];
+}
+
+/**
+ * Roles a role inherits from, directly or not, nearest first
+ */
+export function getInheritedRoles(role: string): string[] {
+  const inherited: string[] = [];
+  const pending = [...(roleParents.get(role) ?? [])];
+
+  while (pending.length > 0) {
+    const name = pending.shift()!;
+    if (name === role || inherited.includes(name)) continue;
+    inherited.push(name);
+    pending.push(...(roleParents.get(name) ?? []));
+  }
+
+  return inherited;
+}
+
+/**
+ * Whether a role is `required` or inherits from it, directly or not
+ */
+export function hasRole(role: string, required: string): boolean {
+  return role === required || getInheritedRoles(role).includes(required);
+}
+
+/**
+ * Whether a role exists: a stored role once the roles are loaded, a
+ * built-in one before
+ */
+export function isKnownRole(role: string): boolean {
+  return rolePermissions
+    ? rolePermissions.has(role)
+    : Object.prototype.hasOwnProperty.call(ROLE_PERMISSIONS, role);
+}
+
+/**
+ * Drop the cached roles of this instance and tell the others to do the
+ * same. Call after any change to a role.
+ */
+export async function invalidateRoles(): Promise<void> {
+  loadedAt = 0;
+
+  const client = getRedisClient();
+  if (client) {
+    try {
+      await client.publish(ROLES_CHANNEL, String(Date.now()));
+    } catch (error) {
+      logger.error('Failed to publish role change', { error });
+    }
+  }
+}
+
+/**
+ * Listen for role changes made by other instances (needs Redis; without
+ * it, other instances pick changes up after ROLE_CACHE_TTL)
+ */
+export async function subscribeToRoleChanges(): Promise<void> {
+  const client = getRedisClient();
+  if (!client || subscriber) return;
+
+  // A subscribed connection can't run other commands
+  subscriber = client.duplicate();
+  subscriber.on('message', (channel: string) => {
+    if (channel === ROLES_CHANNEL) {
+      loadedAt = 0;
+      logger.debug('Role cache invalidated by another instance');
+    }
+  });
+
+  await subscriber.subscribe(ROLES_CHANNEL);
+}
+
+/**
+ * Stop listening for role changes
+ */
+export async function unsubscribeFromRoleChanges(): Promise<void> {
+  if (subscriber) {
+    await subscriber.quit();
+    subscriber = null;
+  }
+}
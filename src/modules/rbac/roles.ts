@@ -0,0 +1,266 @@
+import { Role, IRole } from '../../database/mongodb/models/Role';
+import { User } from '../../database/mongodb/models/User';
+import { AuditLog } from '../../database/mongodb/models/AuditLog';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from '../../core/types/errors';
+import { AuthenticatedUser, UserRole } from '../../core/types';
+import { logger } from '../../core/config/logger';
+import { ROLE_PERMISSIONS } from './permissions';
+import {
+  loadRoles,
+  invalidateRoles,
+  subscribeToRoleChanges,
+  resolveRolePermissions,
+} from './roleCache';
+import { CreateRoleInput, UpdateRoleInput } from './schema';
+
+/**
+ * Descriptions of the built-in roles
+ */
+const BUILT_IN_DESCRIPTIONS: Record<string, string> = {
+  [UserRole.ADMIN]: 'Full access to all resources',
+  [UserRole.MODERATOR]: 'Moderates content and reads user profiles',
+  [UserRole.USER]: 'Standard user permissions',
+};
+
+/**
+ * Create the built-in roles that don't exist yet. Existing roles are left
+ * as they are, so changes made through the admin API survive restarts.
+ */
+export async function seedRoles(): Promise<void> {
+  let created = 0;
+
+  for (const [name, permissions] of Object.entries(ROLE_PERMISSIONS)) {
+    const result = await Role.updateOne(
+      { name },
+      {
+        $setOnInsert: {
+          name,
+          description: BUILT_IN_DESCRIPTIONS[name],
+          permissions,
+          inherits: [],
+          builtIn: true,
+        },
+      },
+      { upsert: true }
+    );
+    created += result.upsertedCount;
+  }
+
+  if (created > 0) {
+    logger.info('Built-in roles seeded', { created });
+  }
+}
+
+/**
+ * Seed the built-in roles, load every role into the cache and listen for
+ * changes made by other instances. Called once the database is connected.
+ */
+export async function initializeRoles(): Promise<void> {
+  await seedRoles();
+  await loadRoles();
+  await subscribeToRoleChanges();
+}
+
+/**
+ * List every role
+ */
+export async function listRoles(): Promise<IRole[]> {
+  return Role.find().sort({ builtIn: -1, name: 1 });
+}
+
+/**
+ * Get a role with its effective permissions (inherited ones included)
+ */
+export async function getRole(
+  name: string
+): Promise<{ role: IRole; effectivePermissions: string[] }> {
+  const role = await findRole(name);
+  const roles = await Role.find().select('name permissions inherits').lean();
+
+  return {
+    role,
+    effectivePermissions: resolveRolePermissions(roles).get(role.name) ?? [],
+  };
+}
+
+/**
+ * Create a role (admins)
+ */
+export async function createRole(
+  admin: AuthenticatedUser,
+  input: CreateRoleInput
+): Promise<IRole> {
+  if (await Role.exists({ name: input.name })) {
+    throw new ConflictError('A role with this name already exists');
+  }
+
+  await assertValidParents(input.name, input.inherits);
+
+  const role = await Role.create({ ...input, builtIn: false });
+  await invalidateRoles();
+
+  await audit(admin, 'create', role, null);
+  logger.info('Role created', { role: role.name, by: admin.id });
+
+  return role;
+}
+
+/**
+ * Update a role's description, permissions or parents (admins). The admin
+ * role can't be changed, so admins can't lock themselves out.
+ */
+export async function updateRole(
+  admin: AuthenticatedUser,
+  name: string,
+  input: UpdateRoleInput
+): Promise<IRole> {
+  const role = await findRole(name);
+
+  if (role.name === UserRole.ADMIN) {
+    throw new ForbiddenError('The admin role cannot be changed');
+  }
+
+  if (input.inherits) {
+    await assertValidParents(role.name, input.inherits);
+  }
+
+  const before = snapshot(role);
+  role.set(input);
+  await role.save();
+  await invalidateRoles();
+
+  await audit(admin, 'update', role, before);
+  logger.info('Role updated', { role: role.name, by: admin.id });
+
+  return role;
+}
+
+/**
+ * Delete a custom role that no user holds and no role inherits from
+ * (admins)
+ */
+export async function deleteRole(
+  admin: AuthenticatedUser,
+  name: string
+): Promise<void> {
+  const role = await findRole(name);
+
+  if (role.builtIn) {
+    throw new ForbiddenError('Built-in roles cannot be deleted');
+  }
+
+  // countDocuments isn't filtered by the soft-delete hook, so users that
+  // may still be restored count too
+  const [holders, children] = await Promise.all([
+    User.countDocuments({ role: role.name }),
+    Role.countDocuments({ inherits: role.name }),
+  ]);
+
+  if (holders > 0) {
+    throw new ConflictError(`Role is assigned to ${holders} user(s)`);
+  }
+  if (children > 0) {
+    throw new ConflictError(`Role is inherited by ${children} role(s)`);
+  }
+
+  const before = snapshot(role);
+  await role.deleteOne();
+  await invalidateRoles();
+
+  await audit(admin, 'delete', role, before);
+  logger.info('Role deleted', { role: role.name, by: admin.id });
+}
+
+/**
+ * Make sure a role exists, e.g. before assigning it to a user
+ */
+export async function assertRoleExists(name: string): Promise<void> {
+  if (!(await Role.exists({ name }))) {
+    throw new ValidationError(`Unknown role: ${name}`);
+  }
+}
+
+/**
+ * Find a role by name or fail
+ */
+async function findRole(name: string): Promise<IRole> {
+  const role = await Role.findByName(name);
+
+  if (!role) {
+    throw new NotFoundError('Role not found');
+  }
+
+  return role;
+}
+
+/**
+ * Parents must exist and must not lead back to the role itself
+ */
+async function assertValidParents(
+  name: string,
+  inherits: string[]
+): Promise<void> {
+  if (inherits.includes(name)) {
+    throw new ValidationError('A role cannot inherit from itself');
+  }
+  if (inherits.length === 0) return;
+
+  const roles = await Role.find().select('name inherits').lean();
+  const byName = new Map(roles.map((role) => [role.name, role.inherits]));
+
+  const unknown = inherits.filter((parent) => !byName.has(parent));
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown role(s): ${unknown.join(', ')}`);
+  }
+
+  // Walk up from the new parents; reaching the role means a cycle
+  const visited = new Set<string>();
+  const pending = [...inherits];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    if (current === name) {
+      throw new ValidationError('Role inheritance cannot be circular');
+    }
+    if (visited.has(current)) continue;
+    visited.add(current);
+    pending.push(...(byName.get(current) ?? []));
+  }
+}
+
+/**
+ * Fields of a role recorded in the audit log
+ */
+function snapshot(role: IRole): Record<string, unknown> {
+  return {
+    description: role.description,
+    permissions: [...role.permissions],
+    inherits: [...role.inherits],
+  };
+}
+
+/**
+ * Record an admin action on a role
+ */
+async function audit(
+  admin: AuthenticatedUser,
+  action: string,
+  role: IRole,
+  before: Record<string, unknown> | null
+): Promise<void> {
+  await AuditLog.log({
+    userId: admin.id,
+    userEmail: admin.email,
+    action,
+    resource: 'role',
+    resourceId: role.name,
+    changes: {
+      ...(before && { before }),
+      ...(action !== 'delete' && { after: snapshot(role) }),
+    },
+  });
+}
@@ -0,0 +1,138 @@
+import { Router } from 'express';
+import {
+  requireAuth,
+  requirePlatformRole,
+  rejectApiKeyPrincipal,
+  getPolicySubject,
+} from '../auth/middleware';
+import { disallowImpersonation } from '../auth/impersonation';
+import { asyncHandler } from '../../core/middleware/asyncHandler';
+import { validate } from '../../core/middleware/validate';
+import {
+  buildRouteManifest,
+  findUnprotectedRoutes,
+} from '../../core/utils/routeManifest';
+import {
+  success,
+  created,
+  updated,
+  deleted,
+} from '../../core/utils/apiResponse';
+import {
+  listRoles,
+  getRole,
+  createRole,
+  updateRole,
+  deleteRole,
+} from './roles';
+import {
+  createRoleSchema,
+  updateRoleSchema,
+  roleNameParamSchema,
+  authzCheckBatchSchema,
+} from './schema';
+import { ensureRolesLoaded } from './roleCache';
+import { checkAccess } from './check';
+
+const router = Router();
+
+/**
+ * Role administration is limited to platform admins
+ */
+router.use(requireAuth, requirePlatformRole('admin'));
+
+// List roles
+router.get(
+  '/',
+  asyncHandler(async (_req, res) => {
+    res.json(success(await listRoles()));
+  })
+);
+
+// Get a role with its effective (inherited) permissions
+router.get(
+  '/:name',
+  validate(roleNameParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { role, effectivePermissions } = await getRole(
+      req.params['name'] as string
+    );
+    res.json(success({ ...role.toJSON(), effectivePermissions }));
+  })
+);
+
+/**
+ * Role changes need the admin's own session
+ */
+router.use(rejectApiKeyPrincipal, disallowImpersonation);
+
+// Create a role
+router.post(
+  '/',
+  validate(createRoleSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const role = await createRole(req.user!, req.body);
+    res.status(201).json(created(role, `/api/admin/roles/${role.name}`));
+  })
+);
+
+// Update a role's description, permissions or parents
+router.patch(
+  '/:name',
+  validate(roleNameParamSchema, 'params'),
+  validate(updateRoleSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const role = await updateRole(
+      req.user!,
+      req.params['name'] as string,
+      req.body
+    );
+    res.json(updated(role));
+  })
+);
+
+// Delete a custom role
+router.delete(
+  '/:name',
+  validate(roleNameParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    await deleteRole(req.user!, req.params['name'] as string);
+    res.json(deleted('Role deleted successfully'));
+  })
+);
+
+/**
+ * Authorization checks for the current principal, mounted at /api/authz
+ */
+export const authzRouter = Router();
+
+// Decide a batch of permission and resource checks, with a reason for each
+authzRouter.post(
+  '/check',
+  requireAuth,
+  validate(authzCheckBatchSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    await ensureRolesLoaded();
+    const decisions = await checkAccess(getPolicySubject(req), req.body.checks);
+    res.json(success({ decisions }));
+  })
+);
+
+/**
+ * Security manifest of the mounted routes, mounted at /api/admin/routes
+ */
+export const routeManifestRouter = Router();
+
+// List every route with its authentication, roles, permissions, rate
+// limits and guards, and the mutating routes left unprotected
+routeManifestRouter.get(
+  '/',
+  requireAuth,
+  requirePlatformRole('admin'),
+  asyncHandler(async (req, res) => {
+    const routes = buildRouteManifest(req.app);
+    res.json(success({ routes, unprotected: findUnprotectedRoutes(routes) }));
+  })
+);
+
+export default router;
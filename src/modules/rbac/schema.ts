@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { ROLE_NAME_PATTERN } from '../../database/mongodb/models/Role';
+
+/**
+ * Role name, e.g. `billing-admin`
+ */
+export const roleNameSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .max(50, 'Name cannot exceed 50 characters')
+  .regex(ROLE_NAME_PATTERN, 'Invalid role name');
+
+/**
+ * Permission, e.g. `billing:read`, `billing:*` or `content:update:own`
+ */
+const permissionSchema = z
+  .string()
+  .trim()
+  .regex(
+    /^(\*|[a-z][a-z0-9_-]*)(:(\*|[a-z][a-z0-9_-]*))*$/,
+    'Invalid permission'
+  );
+
+/**
+ * Create role schema
+ */
+export const createRoleSchema = z.object({
+  name: roleNameSchema,
+  description: z
+    .string()
+    .max(500, 'Description cannot exceed 500 characters')
+    .trim()
+    .optional(),
+  permissions: z.array(permissionSchema).max(200).default([]),
+  inherits: z.array(roleNameSchema).max(20).default([]),
+});
+
+/**
+ * Update role schema. The name can't be changed, since users refer to it.
+ */
+export const updateRoleSchema = createRoleSchema
+  .omit({ name: true })
+  .partial()
+  .strict()
+  .refine(
+    (data) => Object.keys(data).length > 0,
+    'At least one field is required'
+  );
+
+/**
+ * Role name param schema
+ */
+export const roleNameParamSchema = z.object({
+  name: roleNameSchema,
+});
+
+/**
+ * One authorization check: a permission, a permission on a resource, or an
+ * action of a resource policy
+ */
+export const authzCheckSchema = z
+  .object({
+    permission: permissionSchema.optional(),
+    resourceType: z.string().trim().min(1).max(50).optional(),
+    resourceId: z.string().trim().min(1).max(100).optional(),
+    action: z.string().trim().min(1).max(50).optional(),
+  })
+  .strict()
+  .refine((check) => !!check.permission !== !!check.action, {
+    message: 'Provide either a permission or an action',
+  })
+  .refine((check) => !check.resourceType === !check.resourceId, {
+    message: 'resourceType and resourceId go together',
+  })
+  .refine((check) => !check.action || !!check.resourceType, {
+    message: 'Actions need a resource',
+  });
+
+/**
+ * Batch authorization check schema
+ */
+export const authzCheckBatchSchema = z.object({
+  checks: z.array(authzCheckSchema).min(1).max(50),
+});
+
+/**
+ * Type exports
+ */
+export type CreateRoleInput = z.infer<typeof createRoleSchema>;
+export type UpdateRoleInput = z.infer<typeof updateRoleSchema>;
+export type AuthzCheckInput = z.infer<typeof authzCheckSchema>;
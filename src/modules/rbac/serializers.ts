@@ -0,0 +1,129 @@
+import { Request } from 'express';
+import { getPolicySubject } from '../auth/middleware';
+import { isAllowed, PolicySubject } from './policy';
+
+/**
+ * Who a response is for, from least to most trusted: anyone, a member of
+ * the resource's organization, its owner, or an admin of the resource type.
+ * Each audience sees the fields of the audiences before it.
+ */
+export type Audience = 'public' | 'member' | 'owner' | 'admin';
+
+const AUDIENCES: Audience[] = ['public', 'member', 'owner', 'admin'];
+
+/**
+ * Field visibility of a resource type
+ */
+export interface Serializer<T> {
+  name: string;
+  /**
+   * Least trusted audience that sees each field. Fields left out are never
+   * sent, so new fields stay private until declared.
+   */
+  fields: Record<string, Audience>;
+  ownerId?: (resource: T) => string | undefined;
+  organizationId?: (resource: T) => string | undefined;
+  /**
+   * Permission that makes the caller an admin of the resource type
+   */
+  adminPermission: string;
+}
+
+/**
+ * Declare the field visibility of a resource type
+ */
+export function defineSerializer<T>(serializer: Serializer<T>): Serializer<T> {
+  return serializer;
+}
+
+/**
+ * Most trusted audience a subject belongs to for a resource. Membership
+ * counts when the request's active organization is the resource's.
+ */
+export function getAudience<T>(
+  subject: PolicySubject | null,
+  serializer: Serializer<T>,
+  resource: T,
+  activeOrganizationId?: string
+): Audience {
+  if (!subject) return 'public';
+
+  const ownerId = serializer.ownerId?.(resource);
+  const organizationId = serializer.organizationId?.(resource);
+
+  if (
+    isAllowed(
+      {
+        ...subject,
+        ...(activeOrganizationId && { organizationId: activeOrganizationId }),
+      },
+      serializer.adminPermission,
+      { ...(organizationId && { organizationId }) }
+    )
+  ) {
+    return 'admin';
+  }
+
+  if (ownerId !== undefined && ownerId === subject.id) return 'owner';
+
+  if (organizationId !== undefined && organizationId === activeOrganizationId) {
+    return 'member';
+  }
+
+  return 'public';
+}
+
+/**
+ * Project a resource (a document or a plain object) onto the fields an
+ * audience may see
+ */
+export function serialize<T>(
+  serializer: Serializer<T>,
+  resource: T,
+  audience: Audience
+): Record<string, unknown> {
+  const rank = AUDIENCES.indexOf(audience);
+  const data: Record<string, unknown> =
+    typeof (resource as { toJSON?: unknown }).toJSON === 'function'
+      ? (resource as unknown as { toJSON(): Record<string, unknown> }).toJSON()
+      : { ...(resource as Record<string, unknown>) };
+
+  return Object.fromEntries(
+    Object.entries(serializer.fields)
+      .filter(
+        ([field, visibleTo]) =>
+          field in data && AUDIENCES.indexOf(visibleTo) <= rank
+      )
+      .map(([field]) => [field, data[field]])
+  );
+}
+
+/**
+ * Project a resource for the caller of a request (anonymous callers get
+ * the public fields)
+ */
+export function serializeFor<T>(
+  req: Request,
+  serializer: Serializer<T>,
+  resource: T
+): Record<string, unknown> {
+  const subject = req.user ? getPolicySubject(req) : null;
+
+  return serialize(
+    serializer,
+    resource,
+    getAudience(subject, serializer, resource, req.organization?.id)
+  );
+}
+
+/**
+ * Project a list of resources for the caller of a request, each with its
+ * own audience
+ */
+export function serializeAllFor<T>(
+  req: Request,
+  serializer: Serializer<T>,
+  resources: T[]
+): Record<string, unknown>[] {
+  return resources.map((resource) => serializeFor(req, serializer, resource));
+}
@@ -2,7 +2,9 @@ import { Server as HTTPServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
 import { env } from '../../core/config/env';
 import { logger } from '../../core/config/logger';
-import { verifyClerkToken } from '../auth/middleware';
+import { AccountRestrictedError } from '../../core/types/errors';
+import { authenticateToken } from '../auth/middleware';
+import { assertAccountUsable } from '../auth/accountState';
 
 let io: SocketIOServer;
 
@@ -18,10 +20,18 @@ export function setupSocketIO(httpServer: HTTPServer) {
       if (!token) {
         return next(new Error('Authentication failed'));
       }
-      const user = await verifyClerkToken(token);
+      const user = await authenticateToken(token);
+      // Read-only accounts may connect; banned and suspended ones may not
+      assertAccountUsable(user);
       (socket as any).data = { user };
       return next();
     } catch (err) {
+      if (err instanceof AccountRestrictedError) {
+        // Clients read the reason from `err.data` in connect_error
+        const error = new Error(err.message) as Error & { data?: unknown };
+        error.data = { code: err.code, ...err.details };
+        return next(error);
+      }
       return next(new Error('Authentication failed'));
     }
   });
@@ -37,6 +47,16 @@ export function setupSocketIO(httpServer: HTTPServer) {
   return io;
 }
 
+/**
+ * Disconnect every live socket of a user (forced logout). No-op when the
+ * realtime server isn't running.
+ */
+export function disconnectUser(userId: string): void {
+  if (!io) return;
+  io.in(`user-${userId}`).disconnectSockets(true);
+  logger.info(`Disconnected sockets of user: ${userId}`);
+}
+
 export function getIo() {
   if (!io) {
     throw new Error('Socket.io not initialized');
@@ -0,0 +1,191 @@
+import { Request, Response } from 'express';
+import {
+  WebhookEvent,
+  IWebhookEvent,
+} from '../../database/mongodb/models/WebhookEvent';
+import {
+  ConflictError,
+  NotFoundError,
+  ServiceUnavailableError,
+} from '../../core/types/errors';
+import { logger } from '../../core/config/logger';
+import { describeGuard } from '../../core/utils/routeManifest';
+import { getWebhookProvider, registerWebhookProvider } from './registry';
+import { WebhookProvider } from './types';
+
+/**
+ * How long a delivery may hold an event in `processing`. Past it, the
+ * worker is assumed to have crashed or timed out and the event can be
+ * claimed again.
+ */
+export const PROCESSING_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Atomically claim an event for processing. Returns null when another
+ * delivery is already processing it (within the lease) or it has already
+ * been handled.
+ */
+async function claimEvent(
+  id: unknown,
+  fromStatuses: IWebhookEvent['status'][]
+): Promise<IWebhookEvent | null> {
+  return WebhookEvent.findOneAndUpdate(
+    {
+      _id: id,
+      $or: [
+        { status: { $in: fromStatuses } },
+        {
+          status: 'processing',
+          updatedAt: { $lt: new Date(Date.now() - PROCESSING_LEASE_MS) },
+        },
+      ],
+    },
+    { status: 'processing', $inc: { attempts: 1 } },
+    { new: true }
+  );
+}
+
+/**
+ * Run the provider's handler for a claimed event and record the outcome
+ */
+async function runHandler(
+  provider: WebhookProvider,
+  event: IWebhookEvent,
+  replay: boolean
+): Promise<IWebhookEvent> {
+  const handler = provider.handlers[event.type];
+
+  if (!handler) {
+    logger.info(`Unhandled ${provider.name} webhook event ${event.type}`);
+    event.status = 'ignored';
+    event.processedAt = new Date();
+    return event.save();
+  }
+
+  try {
+    await handler(event.payload, {
+      provider: provider.name,
+      eventId: event.eventId,
+      type: event.type,
+      ...(event.occurredAt && { occurredAt: event.occurredAt }),
+      replay,
+    });
+
+    event.status = 'processed';
+    event.processedAt = new Date();
+    event.set('error', undefined);
+  } catch (error) {
+    const err = error as Error;
+    logger.error(`Error processing ${provider.name} webhook`, {
+      error: err,
+      eventId: event.eventId,
+      type: event.type,
+    });
+
+    event.status = 'failed';
+    event.error = {
+      message: err?.message || String(error),
+      ...(err?.stack && { stack: err.stack }),
+    };
+  }
+
+  return event.save();
+}
+
+/**
+ * Create the Express handler for a provider: verify the signature, store
+ * the event, skip duplicates and run the matching handler. Failed events
+ * answer 500 so the provider retries them.
+ */
+export function createWebhookHandler(provider: WebhookProvider) {
+  registerWebhookProvider(provider);
+
+  const handler = async (req: Request, res: Response): Promise<void> => {
+    let verified;
+    try {
+      verified = provider.verify(req);
+    } catch (error) {
+      logger.warn(`${provider.name} webhook verification failed`, { error });
+      res.status(400).json({ error: 'Webhook verification failed' });
+      return;
+    }
+
+    try {
+      const { event, duplicate } = await WebhookEvent.record({
+        provider: provider.name,
+        eventId: verified.id,
+        type: verified.type,
+        payload: verified.data,
+        ...(verified.occurredAt && { occurredAt: verified.occurredAt }),
+      });
+
+      // Redeliveries of failed events, and of events whose processing
+      // outlived its lease, are processed again
+      const claimed = await claimEvent(
+        event._id,
+        duplicate ? ['received', 'failed'] : ['received']
+      );
+
+      if (!claimed) {
+        logger.info(`Skipping duplicate ${provider.name} webhook`, {
+          eventId: verified.id,
+          type: verified.type,
+        });
+        res.status(200).json({ received: true, duplicate: true });
+        return;
+      }
+
+      const processed = await runHandler(provider, claimed, false);
+
+      if (processed.status === 'failed') {
+        res.status(500).json({ received: false });
+        return;
+      }
+
+      res.status(200).json({ received: true });
+    } catch (error) {
+      logger.error(`Error storing ${provider.name} webhook`, { error });
+      res.status(500).json({ received: false });
+    }
+  };
+
+  // Webhooks authenticate the provider by its signature, not a user
+  return describeGuard(handler, {
+    name: `webhook(${provider.name})`,
+    auth: 'public',
+    reason: `Verified by the ${provider.name} signature`,
+  });
+}
+
+/**
+ * Replay a failed event, or one left in `processing` past its lease, with
+ * its stored payload
+ */
+export async function replayWebhookEvent(id: string): Promise<IWebhookEvent> {
+  const event = await WebhookEvent.findById(id);
+
+  if (!event) {
+    throw new NotFoundError('Webhook event not found');
+  }
+
+  const provider = getWebhookProvider(event.provider);
+  if (!provider) {
+    throw new ServiceUnavailableError(
+      `Webhook provider ${event.provider} is not enabled`
+    );
+  }
+
+  const claimed = await claimEvent(event._id, ['failed']);
+  if (!claimed) {
+    throw new ConflictError(
+      'Only failed or stuck processing events can be replayed'
+    );
+  }
+
+  logger.info(`Replaying ${event.provider} webhook`, {
+    eventId: event.eventId,
+    type: event.type,
+  });
+
+  return runHandler(provider, claimed, true);
+}
@@ -0,0 +1,28 @@
+import { WebhookProvider } from './types';
+
+const providers = new Map<string, WebhookProvider>();
+
+/**
+ * Register an inbound webhook provider. Provider modules call this when they
+ * are loaded, so replays can find their handlers.
+ */
+export function registerWebhookProvider(
+  provider: WebhookProvider
+): WebhookProvider {
+  providers.set(provider.name, provider);
+  return provider;
+}
+
+/**
+ * Get a registered provider by name
+ */
+export function getWebhookProvider(name: string): WebhookProvider | undefined {
+  return providers.get(name);
+}
+
+/**
+ * Names of the registered providers
+ */
+export function getWebhookProviderNames(): string[] {
+  return [...providers.keys()];
+}
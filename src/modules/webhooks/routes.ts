@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import { requireAuth, requirePlatformRole } from '../auth/middleware';
+import { asyncHandler } from '../../core/middleware/asyncHandler';
+import { validate } from '../../core/middleware/validate';
+import { success, paginated } from '../../core/utils/apiResponse';
+import { NotFoundError } from '../../core/types/errors';
+import { WebhookEvent } from '../../database/mongodb/models/WebhookEvent';
+import { replayWebhookEvent } from './processor';
+import {
+  listWebhookEventsQuerySchema,
+  webhookEventIdParamSchema,
+  ListWebhookEventsQuery,
+} from './schema';
+
+const router = Router();
+
+/**
+ * Webhook administration is limited to platform admins
+ */
+router.use(requireAuth, requirePlatformRole('admin'));
+
+// List stored events (failed ones by default)
+router.get(
+  '/',
+  validate(listWebhookEventsQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { status, provider, page, limit } =
+      req.query as unknown as ListWebhookEventsQuery;
+
+    const { data, total } = await WebhookEvent.findByStatus(status, {
+      ...(provider && { provider }),
+      limit,
+      skip: (page - 1) * limit,
+    });
+
+    res.json(paginated(data, total, page, limit));
+  })
+);
+
+// Get a single event with its payload and error
+router.get(
+  '/:id',
+  validate(webhookEventIdParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const event = await WebhookEvent.findById(req.params['id']);
+
+    if (!event) {
+      throw new NotFoundError('Webhook event not found');
+    }
+
+    res.json(success(event));
+  })
+);
+
+// Replay a failed event
+router.post(
+  '/:id/replay',
+  validate(webhookEventIdParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const event = await replayWebhookEvent(req.params['id'] as string);
+
+    res.json(
+      success(event, {
+        message:
+          event.status === 'failed'
+            ? 'Replay failed'
+            : 'Webhook event replayed successfully',
+      })
+    );
+  })
+);
+
+export default router;
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { commonSchemas } from '../../core/middleware/validate';
+
+/**
+ * List webhook events query schema
+ */
+export const listWebhookEventsQuerySchema = z.object({
+  status: z
+    .enum(['received', 'processing', 'processed', 'ignored', 'failed'])
+    .default('failed'),
+  provider: z.string().min(1).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * Webhook event ID param schema
+ */
+export const webhookEventIdParamSchema = z.object({
+  id: commonSchemas.objectId,
+});
+
+/**
+ * Type exports
+ */
+export type ListWebhookEventsQuery = z.infer<
+  typeof listWebhookEventsQuerySchema
+>;
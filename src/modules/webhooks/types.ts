@@ -0,0 +1,53 @@
+import { Request } from 'express';
+
+/**
+ * An inbound event whose signature has been verified
+ */
+export interface VerifiedWebhookEvent {
+  /**
+   * Provider event id, used to skip duplicate deliveries
+   */
+  id: string;
+  type: string;
+  /**
+   * Data passed to the handler (and stored for replays)
+   */
+  data: any;
+  occurredAt?: Date;
+}
+
+/**
+ * Context passed to webhook handlers along with the event data
+ */
+export interface WebhookContext {
+  provider: string;
+  eventId: string;
+  type: string;
+  occurredAt?: Date;
+  /**
+   * Whether the event is being replayed by an admin
+   */
+  replay: boolean;
+}
+
+/**
+ * Handler of one event type. Throw to mark the event as failed.
+ */
+export type WebhookHandler<T = any> = (
+  data: T,
+  context: WebhookContext
+) => Promise<void>;
+
+/**
+ * An inbound webhook source: how to verify its requests and which event
+ * types it handles. Types without a handler are stored as `ignored`.
+ */
+export interface WebhookProvider {
+  name: string;
+  /**
+   * Verify the request signature and extract the event. Throw on invalid
+   * requests; they are rejected with 400 and not stored.
+   */
+  verify(req: Request): VerifiedWebhookEvent;
+  handlers: Record<string, WebhookHandler>;
+}
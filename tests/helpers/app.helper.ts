@@ -61,7 +61,7 @@ const mockOptionalAuth = (req: Request, res: Response, next: NextFunction) => {
 };
 
 /**
- * Mock requireRole middleware
+ * Mock role guard middleware
  */
 const mockRequireRole = (role: string) => {
   return (req: Request, res: Response, next: NextFunction) => {
@@ -108,7 +108,8 @@ export const createTestApp = async (): Promise<Express> => {
   jest.mock('../../src/modules/auth/middleware', () => ({
     requireAuth: mockRequireAuth,
     optionalAuth: mockOptionalAuth,
-    requireRole: mockRequireRole,
+    requireOrgRole: mockRequireRole,
+    requirePlatformRole: mockRequireRole,
   }));
 
   // Mock rate limiter
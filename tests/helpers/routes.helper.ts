@@ -0,0 +1,20 @@
+/**
+ * Route security helpers for tests
+ */
+import { Application } from 'express';
+import {
+  buildRouteManifest,
+  findUnprotectedRoutes,
+} from '../../src/core/utils/routeManifest';
+
+/**
+ * Fail when a mutating route of the app has no authentication guard and
+ * isn't marked public with publicRoute()
+ */
+export const expectRoutesProtected = (app: Application) => {
+  const unprotected = findUnprotectedRoutes(buildRouteManifest(app)).map(
+    (route) => `${route.method} ${route.path}`
+  );
+
+  expect(unprotected).toEqual([]);
+};
@@ -0,0 +1,112 @@
+/**
+ * Fake Stripe client for tests
+ */
+import Stripe from 'stripe';
+import { UsageStripeClient } from '../../src/modules/payments/usage';
+import { ReconcileStripeClient } from '../../src/modules/payments/reconcile';
+
+/**
+ * Active Stripe subscription with the given items; metered items name their
+ * meter in the price lookup key
+ */
+export const createStripeSubscription = (
+  id: string,
+  items: { id: string; meter?: string }[],
+  overrides: Partial<Record<keyof Stripe.Subscription, unknown>> = {}
+) =>
+  ({
+    id,
+    customer: 'cus_1',
+    status: 'active',
+    metadata: {},
+    current_period_start: 1714521600,
+    current_period_end: 1717200000,
+    trial_end: null,
+    cancel_at_period_end: false,
+    cancel_at: null,
+    canceled_at: null,
+    ended_at: null,
+    ...overrides,
+    items: {
+      data: items.map((item) => ({
+        id: item.id,
+        quantity: 1,
+        price: {
+          id: `price_${item.id}`,
+          lookup_key: item.meter ?? null,
+          metadata: {},
+          recurring: { usage_type: item.meter ? 'metered' : 'licensed' },
+        },
+      })),
+    },
+  }) as unknown as Stripe.Subscription;
+
+/**
+ * One page of a Stripe list, honouring `limit` and `starting_after`
+ */
+const listPage = <T extends { id: string }>(
+  items: T[],
+  params: { limit?: number; starting_after?: string }
+) => {
+  const start = params.starting_after
+    ? items.findIndex((item) => item.id === params.starting_after) + 1
+    : 0;
+  const data = items.slice(start, start + (params.limit ?? 10));
+
+  return {
+    object: 'list' as const,
+    url: '',
+    data,
+    has_more: start + data.length < items.length,
+  };
+};
+
+/**
+ * In-memory Stripe client serving the given subscriptions and customers,
+ * and recording usage records. Like Stripe, a repeated idempotency key
+ * records nothing.
+ */
+export const createFakeStripe = (
+  subscriptions: Stripe.Subscription[] = [],
+  customers: Stripe.Customer[] = []
+) => {
+  const usageRecords: {
+    subscriptionItemId: string;
+    quantity: number;
+    timestamp: number | 'now' | undefined;
+    idempotencyKey: string | undefined;
+  }[] = [];
+
+  const client: UsageStripeClient & ReconcileStripeClient = {
+    customers: {
+      list: jest.fn(async (params) => listPage(customers, params)),
+    },
+    subscriptions: {
+      retrieve: jest.fn(async (id: string) => {
+        const subscription = subscriptions.find((s) => s.id === id);
+        if (!subscription) throw new Error(`No such subscription: ${id}`);
+        return subscription;
+      }),
+      list: jest.fn(async (params) => listPage(subscriptions, params)),
+    },
+    subscriptionItems: {
+      createUsageRecord: jest.fn(async (id, params, options) => {
+        const idempotencyKey = options?.idempotencyKey;
+        if (
+          !idempotencyKey ||
+          !usageRecords.some((r) => r.idempotencyKey === idempotencyKey)
+        ) {
+          usageRecords.push({
+            subscriptionItemId: id,
+            quantity: params.quantity,
+            timestamp: params.timestamp,
+            idempotencyKey,
+          });
+        }
+        return { id: `mbur_${usageRecords.length}` } as Stripe.UsageRecord;
+      }),
+    },
+  };
+
+  return { client, usageRecords };
+};
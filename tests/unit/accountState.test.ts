@@ -0,0 +1,178 @@
+/**
+ * Unit tests for account restrictions (ban, suspension, read-only)
+ */
+
+import {
+  getAccountRestriction,
+  assertAccountUsable,
+} from '../../src/modules/auth/accountState';
+import { AccountRestrictedError } from '../../src/core/types/errors';
+import { AuthenticatedUser, AccountRestriction } from '../../src/core/types';
+
+const NOW = new Date('2026-01-15T12:00:00Z');
+
+const principal = (restriction?: AccountRestriction): AuthenticatedUser => ({
+  id: 'user-1',
+  email: 'user@example.com',
+  role: 'user',
+  clerkId: 'clerk-1',
+  ...(restriction && { restriction }),
+});
+
+/**
+ * Run the check and return the error code it threw, if any
+ */
+const codeOf = (
+  user: AuthenticatedUser,
+  request?: { method: string; path: string }
+): string | undefined => {
+  try {
+    assertAccountUsable(user, request, NOW);
+    return undefined;
+  } catch (error) {
+    expect(error).toBeInstanceOf(AccountRestrictedError);
+    return (error as AccountRestrictedError).code;
+  }
+};
+
+describe('accountState', () => {
+  describe('getAccountRestriction', () => {
+    it('should return nothing for an unrestricted account', () => {
+      expect(getAccountRestriction({}, NOW)).toBeUndefined();
+    });
+
+    it('should rank a ban above a suspension and read-only', () => {
+      expect(
+        getAccountRestriction(
+          {
+            bannedAt: NOW,
+            banReason: 'Spam',
+            suspendedAt: NOW,
+            readOnlyAt: NOW,
+          },
+          NOW
+        )
+      ).toEqual({ state: 'banned', reason: 'Spam' });
+    });
+
+    it('should include the end of a temporary suspension', () => {
+      const until = new Date('2026-02-01T00:00:00Z');
+
+      expect(
+        getAccountRestriction(
+          { suspendedAt: NOW, suspendedUntil: until, readOnlyAt: NOW },
+          NOW
+        )
+      ).toEqual({
+        state: 'suspended',
+        until: until.toISOString(),
+        afterSuspension: { state: 'read_only' },
+      });
+    });
+
+    it('should ignore expired suspensions', () => {
+      expect(
+        getAccountRestriction(
+          {
+            suspendedAt: new Date('2026-01-01T00:00:00Z'),
+            suspendedUntil: new Date('2026-01-10T00:00:00Z'),
+            readOnlyAt: NOW,
+            readOnlyReason: 'Billing hold',
+          },
+          NOW
+        )
+      ).toEqual({ state: 'read_only', reason: 'Billing hold' });
+    });
+  });
+
+  describe('assertAccountUsable', () => {
+    it('should reject banned and suspended accounts with distinct codes', () => {
+      expect(codeOf(principal({ state: 'banned' }))).toBe('ACCOUNT_BANNED');
+      expect(codeOf(principal({ state: 'suspended' }))).toBe(
+        'ACCOUNT_SUSPENDED'
+      );
+    });
+
+    it('should let suspensions end while the identity is cached', () => {
+      const user = principal({
+        state: 'suspended',
+        until: '2026-01-15T11:00:00.000Z',
+      });
+
+      expect(codeOf(user)).toBeUndefined();
+    });
+
+    it('should keep a read-only account read-only after its suspension ends', () => {
+      const user = principal(
+        getAccountRestriction(
+          {
+            suspendedAt: new Date('2026-01-01T00:00:00Z'),
+            suspendedUntil: new Date('2026-01-15T11:00:00Z'),
+            readOnlyAt: new Date('2026-01-01T00:00:00Z'),
+          },
+          new Date('2026-01-10T00:00:00Z')
+        )
+      );
+
+      expect(codeOf(user, { method: 'GET', path: '/api/examples' })).toBe(
+        undefined
+      );
+      expect(codeOf(user, { method: 'POST', path: '/api/examples' })).toBe(
+        'ACCOUNT_READ_ONLY'
+      );
+    });
+
+    it('should only reject read-only accounts on mutating requests', () => {
+      const user = principal({ state: 'read_only' });
+
+      expect(codeOf(user)).toBeUndefined();
+      expect(codeOf(user, { method: 'GET', path: '/api/examples' })).toBe(
+        undefined
+      );
+      expect(codeOf(user, { method: 'POST', path: '/api/examples' })).toBe(
+        'ACCOUNT_READ_ONLY'
+      );
+    });
+
+    it('should let read-only accounts use exempt routes', () => {
+      const user = principal({ state: 'read_only' });
+
+      expect(
+        codeOf(user, { method: 'POST', path: '/api/payments/portal' })
+      ).toBeUndefined();
+      expect(
+        codeOf(user, { method: 'DELETE', path: '/api/users/me' })
+      ).toBeUndefined();
+      expect(codeOf(user, { method: 'PATCH', path: '/api/users/me' })).toBe(
+        'ACCOUNT_READ_ONLY'
+      );
+    });
+
+    it('should expose the reason and end date to clients', () => {
+      let thrown: unknown;
+      try {
+        assertAccountUsable(
+          principal({
+            state: 'suspended',
+            reason: 'Chargeback',
+            until: '2026-02-01T00:00:00.000Z',
+          }),
+          undefined,
+          NOW
+        );
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect((thrown as AccountRestrictedError).toJSON()).toEqual({
+        code: 'ACCOUNT_SUSPENDED',
+        message: 'This account has been suspended',
+        statusCode: 403,
+        details: {
+          reason: 'Chargeback',
+          until: '2026-02-01T00:00:00.000Z',
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Unit tests for API key authentication
+ */
+
+import {
+  authenticateApiKey,
+  createApiKey,
+} from '../../src/modules/auth/apiKeys';
+import { SubscriptionStatus } from '../../src/core/types';
+import { UpgradeRequiredError } from '../../src/core/types/errors';
+import { User } from '../../src/database/mongodb/models/User';
+import { setupTestDB } from '../helpers/db.helper';
+
+// Setup database for all tests in this file
+setupTestDB();
+
+/**
+ * A user on a plan with one API key
+ */
+const createKey = async (subscription: SubscriptionStatus) => {
+  const user = await User.create({
+    clerkId: 'clerk_1',
+    email: 'user@example.com',
+    subscription,
+  });
+  const userId = (user._id as unknown as string).toString();
+  const { key } = await createApiKey(userId, {
+    name: 'CI',
+    scopes: ['examples:read'],
+  });
+
+  return { userId, key };
+};
+
+describe('authenticateApiKey', () => {
+  it('should authenticate a key while the plan includes API keys', async () => {
+    const { userId, key } = await createKey(SubscriptionStatus.PRO);
+
+    const principal = await authenticateApiKey(key);
+
+    expect(principal.id).toBe(userId);
+    expect(principal.scopes).toEqual(['examples:read']);
+  });
+
+  it('should reject an existing key after a downgrade', async () => {
+    const { userId, key } = await createKey(SubscriptionStatus.PRO);
+    await User.findByIdAndUpdate(userId, {
+      subscription: SubscriptionStatus.FREE,
+    });
+
+    await expect(authenticateApiKey(key)).rejects.toThrow(UpgradeRequiredError);
+  });
+
+  it('should accept the key again after an upgrade', async () => {
+    const { userId, key } = await createKey(SubscriptionStatus.FREE);
+    await expect(authenticateApiKey(key)).rejects.toThrow(UpgradeRequiredError);
+
+    await User.findByIdAndUpdate(userId, {
+      subscription: SubscriptionStatus.ENTERPRISE,
+    });
+
+    await expect(authenticateApiKey(key)).resolves.toMatchObject({
+      id: userId,
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for batch authorization checks
+ */
+
+import { checkAccess } from '../../src/modules/rbac/check';
+import { registerResourcePolicy } from '../../src/modules/rbac/resources';
+import { PolicySubject } from '../../src/modules/rbac/policy';
+
+interface Note {
+  userId: string;
+  isPublic: boolean;
+}
+
+const notes: Record<string, Note> = {
+  mine: { userId: 'owner-id', isPublic: false },
+  theirs: { userId: 'other-id', isPublic: false },
+};
+
+const findById = jest.fn(async (id: string) => notes[id] ?? null);
+
+registerResourcePolicy<Note>({
+  name: 'note',
+  findById,
+  ownerId: (note) => note.userId,
+  actions: {
+    read: [
+      { when: ({ resource }) => resource.isPublic },
+      { permission: 'content:read' },
+    ],
+    update: [{ permission: 'content:update' }],
+  },
+});
+
+const owner: PolicySubject = { id: 'owner-id', role: 'user' };
+
+describe('checkAccess', () => {
+  beforeEach(() => findById.mockClear());
+
+  it('should check plain permissions like requirePermission', async () => {
+    const [granted, denied] = await checkAccess(owner, [
+      { permission: 'content:read' },
+      { permission: 'users:read' },
+    ]);
+
+    expect(granted).toMatchObject({ allowed: true, reason: 'granted' });
+    expect(denied).toMatchObject({
+      permission: 'users:read',
+      allowed: false,
+      reason: 'missing_permission',
+    });
+  });
+
+  it('should tell permissions left out by API key scopes', async () => {
+    const [decision] = await checkAccess(
+      { ...owner, scopes: ['content:read'] },
+      [{ permission: 'content:create' }]
+    );
+
+    expect(decision).toMatchObject({ allowed: false, reason: 'scope_denied' });
+  });
+
+  it('should check permissions against the resource owner', async () => {
+    const [mine, theirs] = await checkAccess(owner, [
+      {
+        permission: 'content:update',
+        resourceType: 'note',
+        resourceId: 'mine',
+      },
+      {
+        permission: 'content:update',
+        resourceType: 'note',
+        resourceId: 'theirs',
+      },
+    ]);
+
+    expect(mine).toMatchObject({ allowed: true, reason: 'granted' });
+    expect(theirs).toMatchObject({
+      allowed: false,
+      reason: 'missing_permission',
+    });
+  });
+
+  it('should check actions against the resource policy', async () => {
+    const decisions = await checkAccess(owner, [
+      { action: 'update', resourceType: 'note', resourceId: 'theirs' },
+      { action: 'share', resourceType: 'note', resourceId: 'theirs' },
+      { action: 'read', resourceType: 'note', resourceId: 'missing' },
+      { action: 'read', resourceType: 'invoice', resourceId: 'mine' },
+    ]);
+
+    expect(decisions.map((decision) => decision.reason)).toEqual([
+      'action_denied',
+      'unknown_action',
+      'not_found',
+      'unknown_resource_type',
+    ]);
+    expect(decisions.every((decision) => !decision.allowed)).toBe(true);
+  });
+
+  it('should load each resource once per batch', async () => {
+    await checkAccess(owner, [
+      { action: 'read', resourceType: 'note', resourceId: 'mine' },
+      { action: 'update', resourceType: 'note', resourceId: 'mine' },
+    ]);
+
+    expect(findById).toHaveBeenCalledTimes(1);
+  });
+});
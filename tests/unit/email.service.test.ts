@@ -0,0 +1,91 @@
+/**
+ * Unit tests for sending emails and metering them
+ * SendGrid and usage recording are mocked
+ */
+
+import sgMail from '@sendgrid/mail';
+import { sendEmail } from '../../src/modules/email/service';
+import { recordUsage } from '../../src/modules/payments/usage';
+
+jest.mock('../../src/core/config/env', () => {
+  const actual = jest.requireActual('../../src/core/config/env');
+  return {
+    ...actual,
+    env: { ...actual.env, SENDGRID_FROM_EMAIL: 'noreply@example.com' },
+    features: { ...actual.features, sendgrid: true },
+  };
+});
+
+jest.mock('@sendgrid/mail', () => ({
+  setApiKey: jest.fn(),
+  send: jest.fn(async () => undefined),
+}));
+
+jest.mock('../../src/modules/payments/usage', () => ({
+  recordUsage: jest.fn(async () => ({ event: {}, duplicate: false })),
+}));
+
+const payload = {
+  to: 'user@example.com',
+  subject: 'Hello',
+  html: '<p>Hello</p>',
+  text: 'Hello',
+};
+
+describe('sendEmail', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should meter an email sent for a user under the given key', async () => {
+    await sendEmail({ ...payload, userId: 'user-1' }, 'email:job-1');
+
+    expect(sgMail.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'user@example.com',
+        from: 'noreply@example.com',
+      })
+    );
+    expect(recordUsage).toHaveBeenCalledWith(
+      'user-1',
+      'emails.sent',
+      1,
+      'email:job-1'
+    );
+  });
+
+  it('should meter an inline send under a fresh key', async () => {
+    await sendEmail({ ...payload, userId: 'user-1' });
+
+    expect(recordUsage).toHaveBeenCalledWith(
+      'user-1',
+      'emails.sent',
+      1,
+      expect.stringMatching(/^email:/)
+    );
+  });
+
+  it('should not meter an email sent for no user', async () => {
+    await sendEmail(payload);
+
+    expect(sgMail.send).toHaveBeenCalled();
+    expect(recordUsage).not.toHaveBeenCalled();
+  });
+
+  it('should not meter an email that failed to send', async () => {
+    (sgMail.send as jest.Mock).mockRejectedValueOnce(new Error('Bad gateway'));
+
+    await expect(sendEmail({ ...payload, userId: 'user-1' })).rejects.toThrow(
+      'Bad gateway'
+    );
+    expect(recordUsage).not.toHaveBeenCalled();
+  });
+
+  it('should not fail a sent email when metering fails', async () => {
+    (recordUsage as jest.Mock).mockRejectedValueOnce(new Error('DB down'));
+
+    await expect(
+      sendEmail({ ...payload, userId: 'user-1' })
+    ).resolves.toBeUndefined();
+  });
+});
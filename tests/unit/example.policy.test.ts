@@ -0,0 +1,68 @@
+/**
+ * Unit tests for the example access policy
+ */
+
+import { examplePolicy } from '../../src/features/example/example.policy';
+import { IExample } from '../../src/features/example/example.model';
+import { can, authorize } from '../../src/modules/rbac/resources';
+import { ForbiddenError } from '../../src/core/types/errors';
+import { PolicySubject } from '../../src/modules/rbac/policy';
+import { MOCK_USER_ID, MOCK_USER_ID_2 } from '../helpers/mock.helper';
+
+const owner: PolicySubject = { id: MOCK_USER_ID, role: 'user' };
+const other: PolicySubject = { id: MOCK_USER_ID_2, role: 'user' };
+const moderator: PolicySubject = { id: 'moderator-id', role: 'moderator' };
+
+const example = (fields: Partial<IExample> = {}) =>
+  ({ userId: MOCK_USER_ID, isPublic: false, ...fields }) as IExample;
+
+describe('examplePolicy', () => {
+  it('should let anyone read public examples', () => {
+    expect(can(null, examplePolicy, 'read', example({ isPublic: true }))).toBe(
+      true
+    );
+    expect(can(null, examplePolicy, 'read', example())).toBe(false);
+  });
+
+  it('should only let the owner and moderators read private examples', () => {
+    expect(can(owner, examplePolicy, 'read', example())).toBe(true);
+    expect(can(other, examplePolicy, 'read', example())).toBe(false);
+    expect(can(moderator, examplePolicy, 'read', example())).toBe(true);
+  });
+
+  it('should let owners change their examples through :own permissions', () => {
+    for (const action of ['update', 'publish', 'archive', 'delete']) {
+      expect(can(owner, examplePolicy, action, example())).toBe(true);
+      expect(can(other, examplePolicy, action, example())).toBe(false);
+    }
+  });
+
+  it('should let moderators change any example', () => {
+    expect(can(moderator, examplePolicy, 'update', example())).toBe(true);
+    expect(can(moderator, examplePolicy, 'delete', example())).toBe(true);
+  });
+
+  it('should not let organization roles act on examples', () => {
+    const orgOwner: PolicySubject = {
+      ...other,
+      organizationId: 'org-id',
+      organizationRole: 'owner',
+    };
+
+    for (const action of ['read', 'update', 'publish', 'archive', 'delete']) {
+      expect(can(orgOwner, examplePolicy, action, example())).toBe(false);
+    }
+  });
+
+  it('should respect API key scopes', () => {
+    const readOnlyKey = { ...owner, scopes: ['content:read'] };
+
+    expect(can(readOnlyKey, examplePolicy, 'update', example())).toBe(false);
+  });
+
+  it('should deny unknown actions', () => {
+    expect(() =>
+      authorize(owner, examplePolicy, 'transfer', example())
+    ).toThrow(ForbiddenError);
+  });
+});
@@ -12,7 +12,7 @@ import {
   MOCK_USER_ID,
   MOCK_USER_ID_2,
 } from '../helpers/mock.helper';
-import { NotFoundError, ForbiddenError, ConflictError } from '../../src/core/types/errors';
+import { ConflictError } from '../../src/core/types/errors';
 
 // Setup database for all tests in this file
 setupTestDB();
@@ -74,62 +74,14 @@ describe('ExampleService', () => {
     });
   });
 
-  describe('getById', () => {
-    it('should get an example by ID', async () => {
-      const created = await createMockExample(MOCK_USER_ID);
-      const found = await exampleService.getById(
-        (created._id as any).toString(),
-        MOCK_USER_ID
-      );
-
-      expect(found).toBeDefined();
-      expect((found._id as any).toString()).toBe((created._id as any).toString());
-      expect(found.name).toBe(created.name);
-    });
-
-    it('should throw NotFoundError if example does not exist', async () => {
-      const fakeId = '507f1f77bcf86cd799439011';
-
-      await expect(
-        exampleService.getById(fakeId, MOCK_USER_ID)
-      ).rejects.toThrow(NotFoundError);
-    });
-
-    it('should allow access to public examples', async () => {
-      const created = await createMockExample(MOCK_USER_ID, {
-        isPublic: true,
-      });
-
-      const found = await exampleService.getById(
-        (created._id as any).toString(),
-        MOCK_USER_ID_2
-      );
-
-      expect(found).toBeDefined();
-      expect(found.isPublic).toBe(true);
-    });
-
-    it('should deny access to private examples from other users', async () => {
-      const created = await createMockExample(MOCK_USER_ID, {
-        isPublic: false,
-      });
-
-      await expect(
-        exampleService.getById((created._id as any).toString(), MOCK_USER_ID_2)
-      ).rejects.toThrow(ForbiddenError);
-    });
-
-    it('should increment view count when requested', async () => {
+  describe('recordView', () => {
+    it('should increment view count for other users', async () => {
       const created = await createMockExample(MOCK_USER_ID, {
         isPublic: true,
       });
       const initialViews = created.viewCount;
 
-      await exampleService.getById(
-        (created._id as any).toString(),
-        MOCK_USER_ID_2,
-        true
-      );
+      await exampleService.recordView(created, MOCK_USER_ID_2);
 
       const updated = await Example.findById(created._id);
       expect(updated?.viewCount).toBe(initialViews + 1);
@@ -139,11 +91,7 @@ describe('ExampleService', () => {
       const created = await createMockExample(MOCK_USER_ID);
       const initialViews = created.viewCount;
 
-      await exampleService.getById(
-        (created._id as any).toString(),
-        MOCK_USER_ID,
-        true
-      );
+      await exampleService.recordView(created, MOCK_USER_ID);
 
       const updated = await Example.findById(created._id);
       expect(updated?.viewCount).toBe(initialViews);
@@ -218,7 +166,7 @@ describe('ExampleService', () => {
       };
 
       const updated = await exampleService.update(
-        (created._id as any).toString(),
+        created,
         MOCK_USER_ID,
         updates
       );
@@ -227,30 +175,12 @@ describe('ExampleService', () => {
       expect(updated.description).toBe(updates.description);
     });
 
-    it('should throw NotFoundError if example does not exist', async () => {
-      const fakeId = '507f1f77bcf86cd799439011';
-
-      await expect(
-        exampleService.update(fakeId, MOCK_USER_ID, { name: 'New Name' })
-      ).rejects.toThrow(NotFoundError);
-    });
-
-    it('should throw ForbiddenError if user is not the owner', async () => {
-      const created = await createMockExample(MOCK_USER_ID);
-
-      await expect(
-        exampleService.update((created._id as any).toString(), MOCK_USER_ID_2, {
-          name: 'Hacked Name',
-        })
-      ).rejects.toThrow(ForbiddenError);
-    });
-
     it('should throw ConflictError on duplicate name', async () => {
       await createMockExample(MOCK_USER_ID, { name: 'Existing Name' });
       const example2 = await createMockExample(MOCK_USER_ID, { name: 'Other Name' });
 
       await expect(
-        exampleService.update((example2._id as any).toString(), MOCK_USER_ID, {
+        exampleService.update(example2, MOCK_USER_ID, {
           name: 'Existing Name',
         })
       ).rejects.toThrow(ConflictError);
@@ -261,29 +191,13 @@ describe('ExampleService', () => {
     it('should soft delete an example', async () => {
       const created = await createMockExample(MOCK_USER_ID);
 
-      await exampleService.delete((created._id as any).toString(), MOCK_USER_ID);
+      await exampleService.delete(created, MOCK_USER_ID);
 
       const deleted = await Example.findById(created._id).setOptions({ includeDeleted: true });
       expect(deleted).toBeDefined();
       expect(deleted?.deletedAt).toBeDefined();
       expect(deleted?.deletedAt).not.toBeNull();
     });
-
-    it('should throw NotFoundError if example does not exist', async () => {
-      const fakeId = '507f1f77bcf86cd799439011';
-
-      await expect(
-        exampleService.delete(fakeId, MOCK_USER_ID)
-      ).rejects.toThrow(NotFoundError);
-    });
-
-    it('should throw ForbiddenError if user is not the owner', async () => {
-      const created = await createMockExample(MOCK_USER_ID);
-
-      await expect(
-        exampleService.delete((created._id as any).toString(), MOCK_USER_ID_2)
-      ).rejects.toThrow(ForbiddenError);
-    });
   });
 
   describe('publish', () => {
@@ -291,7 +205,7 @@ describe('ExampleService', () => {
       const created = await createMockExample(MOCK_USER_ID, { status: 'draft' });
 
       const published = await exampleService.publish(
-        (created._id as any).toString(),
+        created,
         MOCK_USER_ID,
         true
       );
@@ -305,7 +219,7 @@ describe('ExampleService', () => {
       const created = await createMockExample(MOCK_USER_ID, { status: 'draft' });
 
       const published = await exampleService.publish(
-        (created._id as any).toString(),
+        created,
         MOCK_USER_ID,
         false
       );
@@ -313,14 +227,6 @@ describe('ExampleService', () => {
       expect(published.status).toBe('published');
       expect(published.isPublic).toBe(false);
     });
-
-    it('should throw ForbiddenError if user is not the owner', async () => {
-      const created = await createMockExample(MOCK_USER_ID);
-
-      await expect(
-        exampleService.publish((created._id as any).toString(), MOCK_USER_ID_2)
-      ).rejects.toThrow(ForbiddenError);
-    });
   });
 
   describe('archive', () => {
@@ -330,22 +236,11 @@ describe('ExampleService', () => {
         isPublic: true,
       });
 
-      const archived = await exampleService.archive(
-        (created._id as any).toString(),
-        MOCK_USER_ID
-      );
+      const archived = await exampleService.archive(created, MOCK_USER_ID);
 
       expect(archived.status).toBe('archived');
       expect(archived.isPublic).toBe(false);
     });
-
-    it('should throw ForbiddenError if user is not the owner', async () => {
-      const created = await createMockExample(MOCK_USER_ID);
-
-      await expect(
-        exampleService.archive((created._id as any).toString(), MOCK_USER_ID_2)
-      ).rejects.toThrow(ForbiddenError);
-    });
   });
 
   describe('getUserStats', () => {
@@ -388,7 +283,7 @@ describe('ExampleService', () => {
           (example2._id as any).toString(),
           (example3._id as any).toString(),
         ],
-        MOCK_USER_ID
+        { id: MOCK_USER_ID, role: 'user' }
       );
 
       expect(result.deleted).toBe(3);
@@ -401,12 +296,25 @@ describe('ExampleService', () => {
 
       const result = await exampleService.bulkDelete(
         [(example1._id as any).toString(), fakeId],
-        MOCK_USER_ID
+        { id: MOCK_USER_ID, role: 'user' }
       );
 
       expect(result.deleted).toBe(1);
       expect(result.failed).toHaveLength(1);
       expect(result.failed[0]).toBe(fakeId);
     });
+
+    it("should not delete other users' examples", async () => {
+      const example = await createMockExample(MOCK_USER_ID);
+      const id = (example._id as any).toString();
+
+      const result = await exampleService.bulkDelete([id], {
+        id: MOCK_USER_ID_2,
+        role: 'user',
+      });
+
+      expect(result.deleted).toBe(0);
+      expect(result.failed).toEqual([id]);
+    });
   });
 });
@@ -0,0 +1,193 @@
+/**
+ * Unit tests for the self-hosted JWT auth provider
+ * Tests token verification without reaching Clerk or the database
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JwtAuthProvider } from '../../src/modules/auth/providers/jwt';
+import { signJwt, loadJwksFile } from '../../src/modules/auth/jwt';
+import { AuthError } from '../../src/core/types/errors';
+
+const SECRET = 'test-jwt-secret';
+
+/**
+ * Sign an RS256 token by hand
+ */
+const signRs256 = (
+  claims: Record<string, any>,
+  privateKey: crypto.KeyObject,
+  kid: string
+) => {
+  const header = Buffer.from(
+    JSON.stringify({ alg: 'RS256', typ: 'JWT', kid })
+  ).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = crypto
+    .sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), privateKey)
+    .toString('base64url');
+  return `${header}.${payload}.${signature}`;
+};
+
+describe('JwtAuthProvider', () => {
+  describe('HS256', () => {
+    const provider = new JwtAuthProvider({ secret: SECRET });
+
+    it('should verify a valid token', async () => {
+      const token = signJwt({ sub: 'user_1', email: 'a@example.com' }, SECRET, {
+        expiresIn: 60,
+      });
+
+      const verified = await provider.verifyToken(token);
+
+      expect(verified.subject).toBe('user_1');
+      expect(verified.claims['email']).toBe('a@example.com');
+    });
+
+    it('should reject a token signed with another secret', async () => {
+      const token = signJwt({ sub: 'user_1' }, 'other-secret', {
+        expiresIn: 60,
+      });
+
+      await expect(provider.verifyToken(token)).rejects.toThrow(AuthError);
+    });
+
+    it('should reject an expired token', async () => {
+      const token = signJwt({ sub: 'user_1' }, SECRET, { expiresIn: -120 });
+
+      await expect(provider.verifyToken(token)).rejects.toThrow(
+        'Authentication token expired'
+      );
+    });
+
+    it('should reject a token without subject', async () => {
+      const token = signJwt({ email: 'a@example.com' }, SECRET, {
+        expiresIn: 60,
+      });
+
+      await expect(provider.verifyToken(token)).rejects.toThrow(AuthError);
+    });
+
+    it('should check issuer and audience when configured', async () => {
+      const strict = new JwtAuthProvider({
+        secret: SECRET,
+        issuer: 'https://auth.test',
+        audience: 'api',
+      });
+
+      const valid = signJwt({ sub: 'user_1' }, SECRET, {
+        expiresIn: 60,
+        issuer: 'https://auth.test',
+        audience: 'api',
+      });
+      const wrongAudience = signJwt({ sub: 'user_1' }, SECRET, {
+        expiresIn: 60,
+        issuer: 'https://auth.test',
+        audience: 'other',
+      });
+
+      await expect(strict.verifyToken(valid)).resolves.toMatchObject({
+        subject: 'user_1',
+      });
+      await expect(strict.verifyToken(wrongAudience)).rejects.toThrow(
+        'Invalid token audience'
+      );
+    });
+  });
+
+  describe('RS256', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+    });
+    let jwksPath: string;
+
+    beforeAll(() => {
+      jwksPath = path.join(os.tmpdir(), `jwks-${process.pid}.json`);
+      const jwk = publicKey.export({ format: 'jwk' });
+      fs.writeFileSync(
+        jwksPath,
+        JSON.stringify({ keys: [{ ...jwk, kid: 'key-1', use: 'sig' }] })
+      );
+    });
+
+    afterAll(() => {
+      fs.unlinkSync(jwksPath);
+    });
+
+    it('should verify a token against a JWKS file', async () => {
+      const provider = new JwtAuthProvider({
+        publicKeys: loadJwksFile(jwksPath),
+      });
+      const token = signRs256(
+        { sub: 'user_2', exp: Math.floor(Date.now() / 1000) + 60 },
+        privateKey,
+        'key-1'
+      );
+
+      const verified = await provider.verifyToken(token);
+
+      expect(verified.subject).toBe('user_2');
+    });
+
+    it('should reject a token signed with an unknown key', async () => {
+      const provider = new JwtAuthProvider({
+        publicKeys: loadJwksFile(jwksPath),
+      });
+      const other = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const token = signRs256({ sub: 'user_2' }, other.privateKey, 'key-1');
+
+      await expect(provider.verifyToken(token)).rejects.toThrow(AuthError);
+    });
+
+    it('should reject a token without expiry', async () => {
+      const provider = new JwtAuthProvider({
+        publicKeys: loadJwksFile(jwksPath),
+      });
+      const token = signRs256({ sub: 'user_2' }, privateKey, 'key-1');
+
+      await expect(provider.verifyToken(token)).rejects.toThrow(
+        'Authentication token has no expiry'
+      );
+    });
+  });
+
+  describe('getUser', () => {
+    const provider = new JwtAuthProvider({ secret: SECRET });
+
+    it('should build the profile from claims', async () => {
+      const profile = await provider.getUser({
+        subject: 'user_3',
+        claims: {
+          sub: 'user_3',
+          email: 'mod@example.com',
+          name: 'Mod Erator',
+          email_verified: true,
+          role: 'moderator',
+        },
+      });
+
+      expect(profile).toEqual({
+        subject: 'user_3',
+        email: 'mod@example.com',
+        name: 'Mod Erator',
+        emailVerified: true,
+        role: 'moderator',
+      });
+    });
+
+    it('should return null when the token has no email claim', async () => {
+      const profile = await provider.getUser({
+        subject: 'user_3',
+        claims: { sub: 'user_3' },
+      });
+
+      expect(profile).toBeNull();
+    });
+  });
+
+  it('should require a secret or public keys', () => {
+    expect(() => new JwtAuthProvider({})).toThrow();
+  });
+});
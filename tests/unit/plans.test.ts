@@ -0,0 +1,57 @@
+/**
+ * Unit tests for the plan catalog
+ */
+
+import {
+  PLANS,
+  getPlan,
+  getPlanForPrice,
+  planHasFeature,
+  isWithinLimit,
+} from '../../src/modules/payments/plans';
+
+describe('plans', () => {
+  describe('getPlan', () => {
+    it('should map subscriptions to plans, defaulting to free', () => {
+      expect(getPlan('pro').id).toBe('pro');
+      expect(getPlan('enterprise').id).toBe('enterprise');
+      expect(getPlan('cancelled').id).toBe('free');
+      expect(getPlan(undefined).id).toBe('free');
+    });
+  });
+
+  describe('getPlanForPrice', () => {
+    it('should only know the prices of the catalog', () => {
+      PLANS.pro.stripePriceIds.push('price_pro_monthly');
+
+      expect(getPlanForPrice('price_pro_monthly')?.id).toBe('pro');
+      expect(getPlanForPrice('price_unknown')).toBeUndefined();
+
+      PLANS.pro.stripePriceIds.pop();
+    });
+  });
+
+  describe('planHasFeature', () => {
+    it('should check the features of a plan', () => {
+      expect(planHasFeature(PLANS.free, 'api-keys')).toBe(false);
+      expect(planHasFeature(PLANS.pro, 'api-keys')).toBe(true);
+      expect(planHasFeature(PLANS.enterprise, 'audit-log')).toBe(true);
+    });
+  });
+
+  describe('isWithinLimit', () => {
+    it('should allow usage up to the limit', () => {
+      const max = PLANS.free.limits['examples.max']!;
+
+      expect(isWithinLimit(PLANS.free, 'examples.max', max - 1)).toBe(true);
+      expect(isWithinLimit(PLANS.free, 'examples.max', max)).toBe(false);
+      expect(isWithinLimit(PLANS.free, 'examples.max', max - 1, 2)).toBe(false);
+    });
+
+    it('should treat null limits as unlimited', () => {
+      expect(
+        isWithinLimit(PLANS.enterprise, 'examples.max', Number.MAX_SAFE_INTEGER)
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for the permission policy shared by the middleware and models
+ */
+
+import {
+  permissionMatches,
+  isAllowed,
+  PolicySubject,
+} from '../../src/modules/rbac/policy';
+
+const user: PolicySubject = { id: 'user-1', role: 'user' };
+
+describe('policy', () => {
+  describe('permissionMatches', () => {
+    it('should match exact permissions', () => {
+      expect(permissionMatches('content:read', 'content:read')).toBe(true);
+      expect(permissionMatches('content:read', 'content:create')).toBe(false);
+    });
+
+    it('should honour wildcards', () => {
+      expect(permissionMatches('*', 'users:delete')).toBe(true);
+      expect(permissionMatches('content:*', 'content:update:own')).toBe(true);
+      expect(permissionMatches('*:read', 'members:read')).toBe(true);
+      expect(permissionMatches('content:*', 'content')).toBe(false);
+      expect(permissionMatches('content:*', 'members:read')).toBe(false);
+    });
+
+    it('should let unscoped grants cover the own scope only', () => {
+      expect(permissionMatches('content:update', 'content:update:own')).toBe(
+        true
+      );
+      expect(permissionMatches('content:update:own', 'content:update')).toBe(
+        false
+      );
+    });
+  });
+
+  describe('isAllowed', () => {
+    it('should grant admins everything', () => {
+      expect(isAllowed({ role: 'admin' }, 'billing:refund')).toBe(true);
+    });
+
+    it('should only grant own-scoped permissions on owned resources', () => {
+      expect(isAllowed(user, 'content:update:own')).toBe(true);
+      expect(isAllowed(user, 'content:update')).toBe(false);
+      expect(isAllowed(user, 'content:update', { ownerId: 'user-1' })).toBe(
+        true
+      );
+      expect(isAllowed(user, 'content:update', { ownerId: 'user-2' })).toBe(
+        false
+      );
+    });
+
+    it('should add principal permissions', () => {
+      expect(
+        isAllowed({ role: 'service', permissions: ['jobs:*'] }, 'jobs:run')
+      ).toBe(true);
+    });
+
+    it('should only grant membership roles on resources of the active organization', () => {
+      const orgAdmin: PolicySubject = {
+        ...user,
+        organizationId: 'org-1',
+        organizationRole: 'admin',
+      };
+
+      expect(
+        isAllowed(orgAdmin, 'members:delete', { organizationId: 'org-1' })
+      ).toBe(true);
+      expect(
+        isAllowed(orgAdmin, 'members:delete', { organizationId: 'org-2' })
+      ).toBe(false);
+      expect(isAllowed(orgAdmin, 'members:delete')).toBe(false);
+      expect(isAllowed(orgAdmin, 'content:update', { ownerId: 'user-2' })).toBe(
+        false
+      );
+      expect(
+        isAllowed({ ...user, organizationRole: 'admin' }, 'members:delete', {
+          organizationId: 'org-1',
+        })
+      ).toBe(false);
+    });
+
+    it('should narrow grants to API key scopes', () => {
+      const apiKey = { ...user, scopes: ['content:read'] };
+
+      expect(isAllowed(apiKey, 'content:read')).toBe(true);
+      expect(isAllowed(apiKey, 'content:create')).toBe(false);
+      expect(
+        isAllowed({ ...apiKey, scopes: ['users:*'] }, 'users:delete')
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Unit tests for Stripe reconciliation
+ */
+
+import Stripe from 'stripe';
+import {
+  diffSubscription,
+  paginate,
+  reconcileStripe,
+} from '../../src/modules/payments/reconcile';
+import { subscriptionFields } from '../../src/modules/payments/subscriptions';
+import { SubscriptionStatus } from '../../src/core/types';
+import { User } from '../../src/database/mongodb/models/User';
+import { Subscription } from '../../src/database/mongodb/models/Subscription';
+import { AuditLog } from '../../src/database/mongodb/models/AuditLog';
+import {
+  createFakeStripe,
+  createStripeSubscription,
+} from '../helpers/stripe.helper';
+import { setupTestDB } from '../helpers/db.helper';
+
+describe('reconcile', () => {
+  describe('diffSubscription', () => {
+    const data = createStripeSubscription('sub_1', [{ id: 'si_1' }]);
+
+    it('should find nothing when our copy matches Stripe', () => {
+      expect(diffSubscription(subscriptionFields(data), data)).toEqual({});
+    });
+
+    it('should list the fields that drifted', () => {
+      const local = {
+        ...subscriptionFields(data),
+        status: 'past_due' as const,
+        currentPeriodEnd: new Date('2024-05-01T00:00:00Z'),
+      };
+
+      expect(diffSubscription(local, data)).toEqual({
+        status: { local: 'past_due', stripe: 'active' },
+        currentPeriodEnd: {
+          local: new Date('2024-05-01T00:00:00Z'),
+          stripe: new Date(1717200000 * 1000),
+        },
+      });
+    });
+
+    it('should treat a missing copy as differing everywhere', () => {
+      const changes = diffSubscription({}, data);
+
+      expect(changes['status']).toEqual({ local: null, stripe: 'active' });
+      expect(changes['trialEnd']).toBeUndefined();
+    });
+  });
+
+  describe('paginate', () => {
+    it('should page through every item', async () => {
+      const subscriptions = Array.from({ length: 250 }, (_, i) =>
+        createStripeSubscription(`sub_${i}`, [])
+      );
+      const { client } = createFakeStripe(subscriptions);
+      const ids: string[] = [];
+
+      for await (const subscription of paginate((params) =>
+        client.subscriptions.list(params)
+      )) {
+        ids.push(subscription.id);
+      }
+
+      expect(ids).toEqual(subscriptions.map((s) => s.id));
+      expect(client.subscriptions.list).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('reconcileStripe', () => {
+    // Setup database for the tests below
+    setupTestDB();
+
+    const lastEventAt = new Date('2024-05-01T00:00:00Z');
+
+    /**
+     * Records with one discrepancy of each type:
+     * - customer `cus_b` has the verified email of user B, who isn't linked
+     * - `sub_missing` has no copy
+     * - our copy of `sub_drift` is past due, Stripe's is active
+     * - `sub_orphan` is live here but unknown to Stripe
+     * - user C is on pro with no Stripe subscription
+     */
+    const seed = async (extra: Stripe.Subscription[] = []) => {
+      const [userA, userB, userC] = await Promise.all([
+        User.create({
+          clerkId: 'clerk_a',
+          email: 'a@example.com',
+          stripeCustomerId: 'cus_a',
+          subscription: SubscriptionStatus.PRO,
+        }),
+        User.create({
+          clerkId: 'clerk_b',
+          email: 'b@example.com',
+          emailVerified: true,
+        }),
+        User.create({
+          clerkId: 'clerk_c',
+          email: 'c@example.com',
+          stripeCustomerId: 'cus_c',
+          subscription: SubscriptionStatus.PRO,
+        }),
+      ]);
+      const userId = (userA._id as unknown as string).toString();
+
+      const drift = createStripeSubscription('sub_drift', [{ id: 'si_1' }], {
+        customer: 'cus_a',
+      });
+      const missing = createStripeSubscription(
+        'sub_missing',
+        [{ id: 'si_2' }],
+        {
+          customer: 'cus_a',
+          metadata: { userId },
+        }
+      );
+      const orphan = createStripeSubscription('sub_orphan', [{ id: 'si_3' }], {
+        customer: 'cus_a',
+      });
+
+      await Subscription.create([
+        {
+          userId,
+          ...subscriptionFields(drift),
+          status: 'past_due',
+          lastEventAt,
+        },
+        { userId, ...subscriptionFields(orphan), lastEventAt },
+      ]);
+
+      const stripe = createFakeStripe([drift, missing, ...extra], [
+        { id: 'cus_a', email: 'a@example.com' },
+        { id: 'cus_b', email: 'b@example.com' },
+        { id: 'cus_c', email: 'c@example.com' },
+      ] as Stripe.Customer[]);
+
+      return { ...stripe, userA, userB, userC };
+    };
+
+    it('should report the discrepancies of a dry run without writing', async () => {
+      const { client, userB } = await seed();
+
+      const report = await reconcileStripe(client, { dryRun: true });
+
+      expect(report.dryRun).toBe(true);
+      expect(report.customersChecked).toBe(3);
+      expect(report.subscriptionsChecked).toBe(2);
+      expect(
+        report.discrepancies.map((d) => [
+          d.type,
+          d.stripeSubscriptionId ?? d.stripeCustomerId ?? d.userId,
+        ])
+      ).toEqual([
+        ['customer_not_linked', 'cus_b'],
+        ['subscription_mismatch', 'sub_drift'],
+        ['missing_subscription', 'sub_missing'],
+        ['orphaned_subscription', 'sub_orphan'],
+        ['user_plan_mismatch', expect.any(String)],
+      ]);
+      expect(report.discrepancies.every((d) => !d.fixed)).toBe(true);
+
+      expect(await AuditLog.countDocuments()).toBe(0);
+      expect(await Subscription.countDocuments()).toBe(2);
+      expect((await Subscription.findByStripeId('sub_drift'))?.status).toBe(
+        'past_due'
+      );
+      expect(
+        (await User.findById(userB._id))?.stripeCustomerId
+      ).toBeUndefined();
+    });
+
+    it('should apply each correction', async () => {
+      const { client, userA, userB, userC } = await seed();
+
+      const report = await reconcileStripe(client);
+
+      expect(report.discrepancies).toHaveLength(5);
+      expect(report.discrepancies.every((d) => d.fixed)).toBe(true);
+
+      expect((await User.findById(userB._id))?.stripeCustomerId).toBe('cus_b');
+      expect((await Subscription.findByStripeId('sub_drift'))?.status).toBe(
+        'active'
+      );
+      expect((await Subscription.findByStripeId('sub_missing'))?.userId).toBe(
+        (userA._id as unknown as string).toString()
+      );
+
+      const orphan = await Subscription.findByStripeId('sub_orphan');
+      expect(orphan?.status).toBe('canceled');
+      expect(orphan?.endedAt).toEqual(report.startedAt);
+
+      expect((await User.findById(userA._id))?.subscription).toBe(
+        SubscriptionStatus.PRO
+      );
+      expect((await User.findById(userC._id))?.subscription).toBe(
+        SubscriptionStatus.FREE
+      );
+    });
+
+    it('should write an audit log entry for each fix', async () => {
+      const { client, userA } = await seed();
+
+      const report = await reconcileStripe(client);
+      const entries = await AuditLog.find({
+        'metadata.source': 'stripe-reconciliation',
+      });
+
+      expect(entries).toHaveLength(report.discrepancies.length);
+      expect(entries.map((entry) => entry.metadata?.['type']).sort()).toEqual(
+        report.discrepancies.map((d) => d.type).sort()
+      );
+
+      const orphan = entries.find(
+        (entry) => entry.metadata?.['stripeSubscriptionId'] === 'sub_orphan'
+      );
+      expect(orphan).toMatchObject({
+        action: 'update',
+        resource: 'subscription',
+        metadata: {
+          affectedUserId: (userA._id as unknown as string).toString(),
+        },
+        changes: { before: { status: 'active' }, after: { status: null } },
+      });
+      // The system made the fixes, not the users they concern
+      expect(entries.every((entry) => entry.userId === undefined)).toBe(true);
+    });
+
+    it('should not link a customer to an unverified or ambiguous email', async () => {
+      await Promise.all([
+        User.create({ clerkId: 'clerk_d', email: 'd@example.com' }),
+        User.create({
+          clerkId: 'clerk_e',
+          email: 'e@example.com',
+          emailVerified: true,
+        }),
+      ]);
+      const { client } = createFakeStripe([], [
+        { id: 'cus_d', email: 'd@example.com' },
+        { id: 'cus_e1', email: 'e@example.com' },
+        { id: 'cus_e2', email: 'E@example.com' },
+      ] as Stripe.Customer[]);
+
+      const report = await reconcileStripe(client);
+
+      expect(report.discrepancies).toEqual([]);
+      expect(
+        await User.countDocuments({ stripeCustomerId: { $ne: null } })
+      ).toBe(0);
+    });
+
+    it('should report a failing correction and carry on', async () => {
+      // No user for this customer, so its copy can't be created
+      const { client } = await seed([
+        createStripeSubscription('sub_unknown', [{ id: 'si_4' }], {
+          customer: 'cus_unknown',
+        }),
+      ]);
+
+      const report = await reconcileStripe(client);
+      const failed = report.discrepancies.find(
+        (d) => d.stripeSubscriptionId === 'sub_unknown'
+      );
+
+      expect(failed).toMatchObject({
+        type: 'missing_subscription',
+        fixed: false,
+        error: 'No user for Stripe customer cus_unknown',
+      });
+      expect(
+        report.discrepancies.filter((d) => d !== failed).every((d) => d.fixed)
+      ).toBe(true);
+      expect(await Subscription.findByStripeId('sub_unknown')).toBeNull();
+      expect(
+        await AuditLog.countDocuments({
+          'metadata.stripeSubscriptionId': 'sub_unknown',
+        })
+      ).toBe(0);
+    });
+  });
+});
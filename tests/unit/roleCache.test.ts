@@ -0,0 +1,52 @@
+/**
+ * Unit tests for role inheritance resolution
+ */
+
+import {
+  resolveRolePermissions,
+  getRolePermissions,
+} from '../../src/modules/rbac/roleCache';
+
+describe('roleCache', () => {
+  describe('resolveRolePermissions', () => {
+    it('should include permissions of every ancestor', () => {
+      const resolved = resolveRolePermissions([
+        { name: 'user', permissions: ['content:read'], inherits: [] },
+        {
+          name: 'billing-viewer',
+          permissions: ['billing:read'],
+          inherits: ['user'],
+        },
+        {
+          name: 'billing-admin',
+          permissions: ['billing:*'],
+          inherits: ['billing-viewer'],
+        },
+      ]);
+
+      expect(resolved.get('billing-admin')?.sort()).toEqual([
+        'billing:*',
+        'billing:read',
+        'content:read',
+      ]);
+      expect(resolved.get('user')).toEqual(['content:read']);
+    });
+
+    it('should ignore unknown parents and cycles', () => {
+      const resolved = resolveRolePermissions([
+        { name: 'a', permissions: ['a:read'], inherits: ['b', 'missing'] },
+        { name: 'b', permissions: ['b:read'], inherits: ['a'] },
+      ]);
+
+      expect(resolved.get('a')?.sort()).toEqual(['a:read', 'b:read']);
+      expect(resolved.get('b')?.sort()).toEqual(['a:read', 'b:read']);
+    });
+  });
+
+  describe('getRolePermissions', () => {
+    it('should use the built-in defaults before roles are loaded', () => {
+      expect(getRolePermissions('admin')).toEqual(['*']);
+      expect(getRolePermissions('billing-admin')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Unit tests for role guards with inherited roles
+ * Roles are served from a mocked Role model instead of the database
+ */
+
+import { Request, Response } from 'express';
+import {
+  requirePlatformRole,
+  requireOrgRole,
+  requireOwnership,
+} from '../../src/modules/auth/middleware';
+import {
+  loadRoles,
+  hasRole,
+  isKnownRole,
+} from '../../src/modules/rbac/roleCache';
+import { ForbiddenError } from '../../src/core/types/errors';
+import { OrgRole } from '../../src/core/types';
+
+jest.mock('../../src/database/mongodb/models/Role', () => ({
+  Role: {
+    find: () => ({
+      select: () => ({
+        lean: async () => [
+          { name: 'admin', permissions: ['*'], inherits: [] },
+          { name: 'user', permissions: ['content:read'], inherits: [] },
+          { name: 'super-admin', permissions: [], inherits: ['ops'] },
+          { name: 'ops', permissions: [], inherits: ['admin'] },
+        ],
+      }),
+    }),
+  },
+}));
+
+/**
+ * Run a guard for a user with a role and return what it passed to next()
+ */
+const run = async (
+  guard: ReturnType<typeof requirePlatformRole | typeof requireOrgRole>,
+  role: string,
+  extra: Partial<Request> = {}
+) => {
+  const next = jest.fn();
+  const req = { user: { id: 'user-1', role }, headers: {}, ...extra };
+  await guard(req as unknown as Request, {} as Response, next);
+  return next.mock.calls[0]?.[0];
+};
+
+describe('role guards', () => {
+  beforeAll(async () => {
+    await loadRoles();
+  });
+
+  describe('hasRole', () => {
+    it('should follow inheritance', () => {
+      expect(hasRole('super-admin', 'admin')).toBe(true);
+      expect(hasRole('ops', 'admin')).toBe(true);
+      expect(hasRole('admin', 'admin')).toBe(true);
+      expect(hasRole('user', 'admin')).toBe(false);
+      expect(hasRole('admin', 'super-admin')).toBe(false);
+    });
+  });
+
+  describe('isKnownRole', () => {
+    it('should only know the loaded roles', () => {
+      expect(isKnownRole('super-admin')).toBe(true);
+      expect(isKnownRole('moderator')).toBe(false);
+      expect(isKnownRole('constructor')).toBe(false);
+    });
+  });
+
+  describe('requirePlatformRole', () => {
+    it('should admit a role inheriting the required one', async () => {
+      expect(
+        await run(requirePlatformRole('admin'), 'super-admin')
+      ).toBeUndefined();
+    });
+
+    it('should reject a role that does not', async () => {
+      expect(await run(requirePlatformRole('admin'), 'user')).toBeInstanceOf(
+        ForbiddenError
+      );
+    });
+
+    it('should ignore the membership role of the active organization', async () => {
+      expect(
+        await run(requirePlatformRole('admin'), 'user', {
+          organization: { id: 'org-1', role: OrgRole.OWNER },
+        } as Partial<Request>)
+      ).toBeInstanceOf(ForbiddenError);
+    });
+  });
+
+  describe('requireOrgRole', () => {
+    const inOrg = (role: OrgRole) =>
+      ({ organization: { id: 'org-1', role } }) as Partial<Request>;
+
+    it('should check the membership role, letting owners through', async () => {
+      const guard = requireOrgRole(OrgRole.ADMIN);
+
+      expect(await run(guard, 'user', inOrg(OrgRole.ADMIN))).toBeUndefined();
+      expect(await run(guard, 'user', inOrg(OrgRole.OWNER))).toBeUndefined();
+      expect(await run(guard, 'user', inOrg(OrgRole.MEMBER))).toBeInstanceOf(
+        ForbiddenError
+      );
+    });
+
+    it('should not accept a platform role without an organization', async () => {
+      expect(await run(requireOrgRole(OrgRole.ADMIN), 'admin')).toBeInstanceOf(
+        ForbiddenError
+      );
+    });
+  });
+
+  describe('requireOwnership', () => {
+    it('should let an inherited admin access any resource', async () => {
+      const guard = requireOwnership('params.userId');
+
+      expect(
+        await run(guard, 'super-admin', {
+          params: { userId: 'other' },
+        } as Partial<Request>)
+      ).toBeUndefined();
+      expect(
+        await run(guard, 'user', {
+          params: { userId: 'other' },
+        } as Partial<Request>)
+      ).toBeInstanceOf(ForbiddenError);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for the route security manifest
+ */
+
+import express, { Router } from 'express';
+import {
+  buildRouteManifest,
+  findUnprotectedRoutes,
+  publicRoute,
+} from '../../src/core/utils/routeManifest';
+import {
+  requireAuth,
+  optionalAuth,
+  requirePermission,
+  requirePlatformRole,
+} from '../../src/modules/auth/middleware';
+import { strictLimiter } from '../../src/core/middleware/rateLimiter';
+import { expectRoutesProtected } from '../helpers/routes.helper';
+import exampleRoutes from '../../src/features/example/example.routes';
+import userRoutes from '../../src/features/user/user.routes';
+import userAdminRoutes from '../../src/features/user/user.admin.routes';
+import organizationRoutes from '../../src/features/organization/organization.routes';
+import authRoutes from '../../src/modules/auth/routes';
+import roleAdminRoutes, {
+  authzRouter,
+  routeManifestRouter,
+} from '../../src/modules/rbac/routes';
+import webhookAdminRoutes from '../../src/modules/webhooks/routes';
+
+const handler = (_req: express.Request, res: express.Response) => {
+  res.end();
+};
+
+describe('routeManifest', () => {
+  it('should describe the guards of each route, router middleware included', () => {
+    const app = express();
+    const router = Router();
+
+    router.get('/', optionalAuth, handler);
+    router.use(requireAuth);
+    router.post(
+      '/:id/publish',
+      requirePermission('content:update'),
+      strictLimiter,
+      handler
+    );
+    app.use('/api/posts', router);
+
+    const manifest = buildRouteManifest(app);
+
+    expect(manifest).toEqual([
+      expect.objectContaining({
+        method: 'GET',
+        path: '/api/posts',
+        auth: 'optional',
+        guards: ['optionalAuth'],
+      }),
+      expect.objectContaining({
+        method: 'POST',
+        path: '/api/posts/:id/publish',
+        auth: 'required',
+        permissions: ['content:update'],
+        rateLimits: ['strict'],
+        guards: [
+          'requireAuth',
+          'requirePermission(content:update)',
+          'rateLimit(strict)',
+        ],
+      }),
+    ]);
+  });
+
+  it('should flag mutating routes without authentication', () => {
+    const app = express();
+
+    app.get('/api/status', handler);
+    app.post('/api/open', handler);
+    app.post('/api/hooks', publicRoute('Signed by the sender'), handler);
+    app.delete('/api/admin/cache', requirePlatformRole('admin'), handler);
+
+    const manifest = buildRouteManifest(app);
+
+    expect(findUnprotectedRoutes(manifest)).toEqual([
+      expect.objectContaining({ method: 'POST', path: '/api/open' }),
+    ]);
+    expect(manifest[2]).toMatchObject({
+      auth: 'public',
+      publicReason: 'Signed by the sender',
+    });
+  });
+
+  it('should find no unprotected routes in the API', () => {
+    const app = express();
+
+    app.use('/api/examples', exampleRoutes);
+    app.use('/api/auth', authRoutes);
+    app.use('/api/orgs', organizationRoutes);
+    app.use('/api/users', userRoutes);
+    app.use('/api/admin/users', userAdminRoutes);
+    app.use('/api/admin/roles', roleAdminRoutes);
+    app.use('/api/authz', authzRouter);
+    app.use('/api/admin/routes', routeManifestRouter);
+    app.use('/api/admin/webhooks', webhookAdminRoutes);
+
+    expectRoutesProtected(app);
+    expect(buildRouteManifest(app)).toContainEqual(
+      expect.objectContaining({
+        method: 'DELETE',
+        path: '/api/admin/roles/:name',
+        auth: 'required',
+        roles: ['admin'],
+        guards: [
+          'requireAuth',
+          'requirePlatformRole(admin)',
+          'rejectApiKeyPrincipal',
+          'disallowImpersonation',
+        ],
+      })
+    );
+  });
+});
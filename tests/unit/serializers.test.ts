@@ -0,0 +1,68 @@
+/**
+ * Unit tests for audience-based response serializers
+ */
+
+import { getAudience, serialize } from '../../src/modules/rbac/serializers';
+import { exampleSerializer } from '../../src/features/example/example.serializer';
+import { IExample } from '../../src/features/example/example.model';
+import { PolicySubject } from '../../src/modules/rbac/policy';
+import { MOCK_USER_ID, MOCK_USER_ID_2 } from '../helpers/mock.helper';
+
+const example = {
+  id: 'example-id',
+  name: 'Example',
+  userId: MOCK_USER_ID,
+  status: 'published',
+  isPublic: true,
+  metadata: { source: 'import' },
+  viewCount: 42,
+  isDeleted: false,
+  internalNotes: 'not declared',
+} as unknown as IExample;
+
+const owner: PolicySubject = { id: MOCK_USER_ID, role: 'user' };
+const other: PolicySubject = { id: MOCK_USER_ID_2, role: 'user' };
+const moderator: PolicySubject = { id: 'moderator-id', role: 'moderator' };
+
+describe('serializers', () => {
+  it('should pick the most trusted audience of the subject', () => {
+    expect(getAudience(null, exampleSerializer, example)).toBe('public');
+    expect(getAudience(other, exampleSerializer, example)).toBe('public');
+    expect(getAudience(owner, exampleSerializer, example)).toBe('owner');
+    expect(getAudience(moderator, exampleSerializer, example)).toBe('admin');
+  });
+
+  it('should count members of the active organization', () => {
+    const serializer = {
+      ...exampleSerializer,
+      organizationId: () => 'org-1',
+    };
+
+    expect(getAudience(other, serializer, example, 'org-1')).toBe('member');
+    expect(getAudience(other, serializer, example, 'org-2')).toBe('public');
+  });
+
+  it('should trim the public projection', () => {
+    const data = serialize(exampleSerializer, example, 'public');
+
+    expect(data).toMatchObject({ id: 'example-id', name: 'Example' });
+    expect(data).not.toHaveProperty('metadata');
+    expect(data).not.toHaveProperty('viewCount');
+  });
+
+  it('should give owners their private fields', () => {
+    const data = serialize(exampleSerializer, example, 'owner');
+
+    expect(data).toMatchObject({
+      metadata: { source: 'import' },
+      viewCount: 42,
+    });
+    expect(data).not.toHaveProperty('isDeleted');
+  });
+
+  it('should never send undeclared fields', () => {
+    expect(serialize(exampleSerializer, example, 'admin')).not.toHaveProperty(
+      'internalNotes'
+    );
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Unit tests for HMAC-signed service-to-service requests
+ * Tests signing, verification and replay protection without Redis
+ */
+
+import { Request } from 'express';
+import {
+  signServiceRequest,
+  verifyServiceRequest,
+  claimNonce,
+  ServiceKey,
+} from '../../src/modules/auth/serviceAuth';
+import { AuthError } from '../../src/core/types/errors';
+
+const KEY: ServiceKey = {
+  id: 'billing-1',
+  service: 'billing',
+  secret: 'a-very-long-service-signing-secret-000',
+  permissions: ['users:read'],
+};
+
+/**
+ * Build the parts of an Express request the verifier reads
+ */
+const buildRequest = (
+  headers: Record<string, string>,
+  options: { method?: string; url?: string; body?: string } = {}
+) =>
+  ({
+    method: options.method ?? 'POST',
+    originalUrl: options.url ?? '/api/internal/sync?full=1',
+    headers: Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [
+        name.toLowerCase(),
+        value,
+      ])
+    ),
+    ...(options.body !== undefined && {
+      rawBody: Buffer.from(options.body),
+    }),
+  }) as unknown as Request;
+
+const sign = (overrides: { timestamp?: number; nonce?: string } = {}) =>
+  signServiceRequest({
+    keyId: KEY.id,
+    secret: KEY.secret,
+    method: 'POST',
+    path: '/api/internal/sync?full=1',
+    body: '{"id":1}',
+    ...overrides,
+  });
+
+describe('serviceAuth', () => {
+  describe('verifyServiceRequest', () => {
+    it('should accept a correctly signed request', () => {
+      const headers = sign();
+
+      const result = verifyServiceRequest(
+        buildRequest(headers, { body: '{"id":1}' }),
+        KEY
+      );
+
+      expect(result.nonce).toBe(headers['X-Service-Nonce']);
+    });
+
+    it('should reject a tampered body', () => {
+      const req = buildRequest(sign(), { body: '{"id":2}' });
+
+      expect(() => verifyServiceRequest(req, KEY)).toThrow(
+        'Invalid service request signature'
+      );
+    });
+
+    it('should reject a different path or method', () => {
+      const headers = sign();
+
+      expect(() =>
+        verifyServiceRequest(
+          buildRequest(headers, {
+            body: '{"id":1}',
+            url: '/api/internal/sync',
+          }),
+          KEY
+        )
+      ).toThrow(AuthError);
+      expect(() =>
+        verifyServiceRequest(
+          buildRequest(headers, { body: '{"id":1}', method: 'PUT' }),
+          KEY
+        )
+      ).toThrow(AuthError);
+    });
+
+    it('should reject a signature made with another secret', () => {
+      const req = buildRequest(sign(), { body: '{"id":1}' });
+
+      expect(() =>
+        verifyServiceRequest(req, {
+          ...KEY,
+          secret: 'another-long-service-signing-secret-111',
+        })
+      ).toThrow('Invalid service request signature');
+    });
+
+    it('should reject timestamps outside the window', () => {
+      const stale = Math.floor(Date.now() / 1000) - 3600;
+      const req = buildRequest(sign({ timestamp: stale }), {
+        body: '{"id":1}',
+      });
+
+      expect(() => verifyServiceRequest(req, KEY)).toThrow(
+        'Service request timestamp is outside the window'
+      );
+    });
+
+    it('should reject expired keys', () => {
+      const req = buildRequest(sign(), { body: '{"id":1}' });
+
+      expect(() =>
+        verifyServiceRequest(req, {
+          ...KEY,
+          expiresAt: new Date(Date.now() - 1000),
+        })
+      ).toThrow('Service key has expired');
+    });
+
+    it('should reject requests without signature headers', () => {
+      const req = buildRequest({ Authorization: `Service ${KEY.id}` });
+
+      expect(() => verifyServiceRequest(req, KEY)).toThrow(
+        'Missing service signature headers'
+      );
+    });
+  });
+
+  describe('claimNonce', () => {
+    it('should only accept a nonce once per key', async () => {
+      const nonce = 'nonce-0123456789abcdef';
+
+      await expect(claimNonce(KEY.id, nonce)).resolves.toBe(true);
+      await expect(claimNonce(KEY.id, nonce)).resolves.toBe(false);
+      await expect(claimNonce('other-key', nonce)).resolves.toBe(true);
+    });
+  });
+});
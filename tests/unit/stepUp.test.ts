@@ -0,0 +1,51 @@
+/**
+ * Unit tests for the step-up authentication claim checks
+ */
+
+import { getAuthAge, hasRecentMfa } from '../../src/modules/auth/stepUp';
+
+const NOW = new Date('2026-01-15T12:00:00Z');
+const NOW_SECONDS = Math.floor(NOW.getTime() / 1000);
+
+describe('stepUp', () => {
+  describe('getAuthAge', () => {
+    it('should read the OIDC auth_time claim', () => {
+      expect(getAuthAge({ auth_time: NOW_SECONDS - 120 }, NOW)).toBe(120);
+    });
+
+    it('should fall back to Clerk factor verification age', () => {
+      expect(getAuthAge({ fva: [5, -1] }, NOW)).toBe(300);
+    });
+
+    it('should be unknown without either claim', () => {
+      expect(getAuthAge({ iat: NOW_SECONDS }, NOW)).toBeUndefined();
+      expect(getAuthAge({ fva: [-1, -1] }, NOW)).toBeUndefined();
+    });
+  });
+
+  describe('hasRecentMfa', () => {
+    it('should use the Clerk second factor age', () => {
+      expect(hasRecentMfa({ fva: [0, 2] }, 600, NOW)).toBe(true);
+      expect(hasRecentMfa({ fva: [0, 20] }, 600, NOW)).toBe(false);
+      expect(hasRecentMfa({ fva: [0, -1] }, 600, NOW)).toBe(false);
+    });
+
+    it('should require a recent sign-in that used a second factor', () => {
+      const recent = NOW_SECONDS - 60;
+
+      expect(
+        hasRecentMfa({ auth_time: recent, amr: ['pwd', 'otp'] }, 600, NOW)
+      ).toBe(true);
+      expect(hasRecentMfa({ auth_time: recent, amr: ['pwd'] }, 600, NOW)).toBe(
+        false
+      );
+      expect(
+        hasRecentMfa(
+          { auth_time: NOW_SECONDS - 3600, amr: ['pwd', 'otp'] },
+          600,
+          NOW
+        )
+      ).toBe(false);
+    });
+  });
+});
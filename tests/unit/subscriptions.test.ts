@@ -0,0 +1,97 @@
+/**
+ * Unit tests for the Stripe subscription state machine
+ */
+
+import Stripe from 'stripe';
+import {
+  canTransition,
+  shouldApplyEvent,
+  deriveUserSubscription,
+  resolvePlan,
+} from '../../src/modules/payments/subscriptions';
+
+const at = (iso: string) => new Date(iso);
+
+describe('subscriptions', () => {
+  describe('canTransition', () => {
+    it('should follow the Stripe lifecycle', () => {
+      expect(canTransition('incomplete', 'active')).toBe(true);
+      expect(canTransition('trialing', 'past_due')).toBe(true);
+      expect(canTransition('past_due', 'active')).toBe(true);
+      expect(canTransition('active', 'active')).toBe(true);
+    });
+
+    it('should never revive ended subscriptions', () => {
+      expect(canTransition('canceled', 'active')).toBe(false);
+      expect(canTransition('incomplete_expired', 'active')).toBe(false);
+      expect(canTransition('active', 'incomplete')).toBe(false);
+    });
+  });
+
+  describe('shouldApplyEvent', () => {
+    const current = {
+      status: 'active' as const,
+      lastEventAt: at('2026-01-01T10:00:00Z'),
+    };
+
+    it('should skip events older than the last one applied', () => {
+      expect(
+        shouldApplyEvent(current, 'incomplete', at('2026-01-01T09:59:59Z'))
+      ).toBe(false);
+      expect(
+        shouldApplyEvent(current, 'past_due', at('2026-01-01T10:00:01Z'))
+      ).toBe(true);
+    });
+
+    it('should apply events of the same second only when possible', () => {
+      const sameSecond = at('2026-01-01T10:00:00Z');
+
+      expect(shouldApplyEvent(current, 'past_due', sameSecond)).toBe(true);
+      expect(shouldApplyEvent(current, 'incomplete', sameSecond)).toBe(false);
+    });
+
+    it('should apply the first event of a subscription', () => {
+      expect(shouldApplyEvent(null, 'incomplete', new Date())).toBe(true);
+    });
+  });
+
+  describe('deriveUserSubscription', () => {
+    it('should use the best plan among entitling subscriptions', () => {
+      expect(
+        deriveUserSubscription([
+          { status: 'past_due', plan: 'pro' },
+          { status: 'trialing', plan: 'enterprise' },
+        ])
+      ).toBe('enterprise');
+    });
+
+    it('should fall back to free without an entitling subscription', () => {
+      expect(
+        deriveUserSubscription([
+          { status: 'canceled', plan: 'enterprise' },
+          { status: 'unpaid', plan: 'pro' },
+        ])
+      ).toBe('free');
+      expect(deriveUserSubscription([])).toBe('free');
+    });
+  });
+
+  describe('resolvePlan', () => {
+    it('should read the plan from price metadata or lookup key', () => {
+      expect(
+        resolvePlan({
+          id: 'price_1',
+          metadata: { plan: 'enterprise' },
+          lookup_key: null,
+        } as unknown as Stripe.Price)
+      ).toBe('enterprise');
+      expect(
+        resolvePlan({
+          id: 'price_2',
+          metadata: {},
+          lookup_key: 'pro',
+        } as unknown as Stripe.Price)
+      ).toBe('pro');
+    });
+  });
+});
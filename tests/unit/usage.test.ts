@@ -0,0 +1,137 @@
+/**
+ * Unit tests for usage reporting and quotas
+ */
+
+import {
+  billableQuantity,
+  compareToQuotas,
+  findMeteredItem,
+  reportUsage,
+} from '../../src/modules/payments/usage';
+import {
+  createFakeStripe,
+  createStripeSubscription,
+} from '../helpers/stripe.helper';
+
+const occurredAt = new Date('2024-05-01T12:00:00Z');
+
+describe('usage', () => {
+  describe('findMeteredItem', () => {
+    it('should find the metered item billing a meter', () => {
+      const subscription = createStripeSubscription('sub_1', [
+        { id: 'si_base' },
+        { id: 'si_api', meter: 'api.requests' },
+      ]);
+
+      expect(findMeteredItem(subscription, 'api.requests')?.id).toBe('si_api');
+      expect(findMeteredItem(subscription, 'emails.sent')).toBeUndefined();
+    });
+  });
+
+  describe('reportUsage', () => {
+    it('should report to the subscription billing the meter', async () => {
+      const { client, usageRecords } = createFakeStripe([
+        createStripeSubscription('sub_1', [{ id: 'si_base' }]),
+        createStripeSubscription('sub_2', [
+          { id: 'si_api', meter: 'api.requests' },
+        ]),
+      ]);
+
+      const itemId = await reportUsage(client, ['sub_1', 'sub_2'], {
+        meter: 'api.requests',
+        quantity: 42,
+        occurredAt,
+        idempotencyKey: 'usage:run-1:user-1:api.requests',
+      });
+
+      expect(itemId).toBe('si_api');
+      expect(usageRecords).toEqual([
+        {
+          subscriptionItemId: 'si_api',
+          quantity: 42,
+          timestamp: occurredAt.getTime() / 1000,
+          idempotencyKey: 'usage:run-1:user-1:api.requests',
+        },
+      ]);
+    });
+
+    it('should report a retried rollup once', async () => {
+      const { client, usageRecords } = createFakeStripe([
+        createStripeSubscription('sub_1', [
+          { id: 'si_api', meter: 'api.requests' },
+        ]),
+      ]);
+      const usage = {
+        meter: 'api.requests',
+        quantity: 5,
+        occurredAt,
+        idempotencyKey: 'usage:run-1:user-1:api.requests',
+      };
+
+      await reportUsage(client, ['sub_1'], usage);
+      await reportUsage(client, ['sub_1'], usage);
+
+      expect(usageRecords).toHaveLength(1);
+    });
+
+    it('should return null when no subscription bills the meter', async () => {
+      const { client } = createFakeStripe([
+        createStripeSubscription('sub_1', [{ id: 'si_base' }]),
+      ]);
+
+      await expect(
+        reportUsage(client, ['sub_1'], {
+          meter: 'emails.sent',
+          quantity: 1,
+          occurredAt,
+          idempotencyKey: 'key',
+        })
+      ).resolves.toBeNull();
+      expect(client.subscriptionItems.createUsageRecord).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('billableQuantity', () => {
+    it('should bill nothing within the included quota', () => {
+      expect(billableQuantity(100, 20, 50)).toBe(0);
+    });
+
+    it('should bill only the part beyond the quota', () => {
+      expect(billableQuantity(100, 80, 50)).toBe(30);
+    });
+
+    it('should bill everything once the quota is used up', () => {
+      expect(billableQuantity(100, 120, 50)).toBe(50);
+    });
+
+    it('should bill nothing on an unlimited quota', () => {
+      expect(billableQuantity(null, 1000000, 50)).toBe(0);
+    });
+  });
+
+  describe('compareToQuotas', () => {
+    it('should compare usage with the included quotas', () => {
+      const meters = compareToQuotas(
+        { 'api.requests': 100, 'emails.sent': null },
+        { 'api.requests': 120, 'emails.sent': 7 }
+      );
+
+      expect(meters).toEqual([
+        expect.objectContaining({
+          meter: 'api.requests',
+          used: 120,
+          included: 100,
+          remaining: 0,
+          overage: 20,
+        }),
+        expect.objectContaining({
+          meter: 'emails.sent',
+          used: 7,
+          included: null,
+          remaining: null,
+          overage: 0,
+        }),
+      ]);
+    });
+  });
+});
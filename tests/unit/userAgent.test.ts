@@ -0,0 +1,86 @@
+/**
+ * Unit tests for User-Agent parsing used by login sessions
+ */
+
+import { parseUserAgent, deviceKey } from '../../src/core/utils/userAgent';
+
+const CHROME_WINDOWS =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const EDGE_WINDOWS = `${CHROME_WINDOWS} Edg/120.0.2210.91`;
+const SAFARI_IPHONE =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Safari/604.1';
+const FIREFOX_MAC =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 14.2; rv:121.0) Gecko/20100101 Firefox/121.0';
+const CHROME_ANDROID_TABLET =
+  'Mozilla/5.0 (Linux; Android 13; SM-X200) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const CHROME_ANDROID_PHONE =
+  'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36';
+
+describe('userAgent', () => {
+  describe('parseUserAgent', () => {
+    it('should detect desktop browsers', () => {
+      expect(parseUserAgent(CHROME_WINDOWS)).toEqual({
+        type: 'desktop',
+        os: 'Windows',
+        browser: 'Chrome',
+      });
+      expect(parseUserAgent(FIREFOX_MAC)).toEqual({
+        type: 'desktop',
+        os: 'macOS',
+        browser: 'Firefox',
+      });
+    });
+
+    it('should prefer the most specific browser', () => {
+      expect(parseUserAgent(EDGE_WINDOWS).browser).toBe('Edge');
+    });
+
+    it('should detect phones and tablets', () => {
+      expect(parseUserAgent(SAFARI_IPHONE)).toEqual({
+        type: 'mobile',
+        os: 'iOS',
+        browser: 'Safari',
+      });
+      expect(parseUserAgent(CHROME_ANDROID_PHONE)).toEqual({
+        type: 'mobile',
+        os: 'Android',
+        browser: 'Chrome',
+      });
+      expect(parseUserAgent(CHROME_ANDROID_TABLET).type).toBe('tablet');
+    });
+
+    it('should detect bots and API clients', () => {
+      expect(
+        parseUserAgent(
+          'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)'
+        ).type
+      ).toBe('bot');
+      expect(parseUserAgent('curl/8.4.0')).toEqual({
+        type: 'unknown',
+        os: 'Unknown',
+        browser: 'curl',
+      });
+    });
+
+    it('should handle a missing user agent', () => {
+      expect(parseUserAgent(undefined)).toEqual({
+        type: 'unknown',
+        os: 'Unknown',
+        browser: 'Unknown',
+      });
+    });
+  });
+
+  describe('deviceKey', () => {
+    it('should ignore browser versions', () => {
+      const older = CHROME_WINDOWS.replace('120.0.0.0', '119.0.0.0');
+
+      expect(deviceKey(parseUserAgent(older))).toBe(
+        deviceKey(parseUserAgent(CHROME_WINDOWS))
+      );
+      expect(deviceKey(parseUserAgent(CHROME_WINDOWS))).toBe(
+        'desktop:windows:chrome'
+      );
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for webhook event claiming
+ */
+
+import { Request, Response } from 'express';
+import {
+  WebhookEvent,
+  IWebhookEvent,
+} from '../../src/database/mongodb/models/WebhookEvent';
+import {
+  createWebhookHandler,
+  replayWebhookEvent,
+  PROCESSING_LEASE_MS,
+} from '../../src/modules/webhooks/processor';
+import { ConflictError } from '../../src/core/types/errors';
+import { setupTestDB } from '../helpers/db.helper';
+
+// Setup database for all tests in this file
+setupTestDB();
+
+const handled = jest.fn(async () => undefined);
+
+const webhook = createWebhookHandler({
+  name: 'test-provider',
+  verify: () => ({ id: 'evt_1', type: 'thing.happened', data: {} }),
+  handlers: { 'thing.happened': handled },
+});
+
+const deliver = async () => {
+  const res = {
+    status: jest.fn().mockReturnThis(),
+    json: jest.fn().mockReturnThis(),
+  };
+  await webhook({} as Request, res as unknown as Response);
+  return res;
+};
+
+/**
+ * Backdate the last update of an event
+ */
+const age = (event: IWebhookEvent, ageMs: number) =>
+  WebhookEvent.updateOne(
+    { _id: event._id },
+    { updatedAt: new Date(Date.now() - ageMs) },
+    { timestamps: false }
+  );
+
+/**
+ * Store the event as left in `processing` by a delivery that started
+ * `ageMs` ago
+ */
+const leaveProcessing = async (ageMs: number) => {
+  const event = await WebhookEvent.create({
+    provider: 'test-provider',
+    eventId: 'evt_1',
+    type: 'thing.happened',
+    status: 'processing',
+    attempts: 1,
+  });
+  await age(event, ageMs);
+  return event;
+};
+
+describe('webhook processor', () => {
+  beforeEach(() => handled.mockClear());
+
+  it('should skip redeliveries while an event is being processed', async () => {
+    await leaveProcessing(1000);
+
+    const res = await deliver();
+
+    expect(res.json).toHaveBeenCalledWith({ received: true, duplicate: true });
+    expect(handled).not.toHaveBeenCalled();
+  });
+
+  it('should reclaim events left processing past the lease', async () => {
+    const event = await leaveProcessing(PROCESSING_LEASE_MS + 1000);
+
+    const res = await deliver();
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith({ received: true });
+    expect(handled).toHaveBeenCalledTimes(1);
+
+    const stored = await WebhookEvent.findById(event._id);
+    expect(stored?.status).toBe('processed');
+    expect(stored?.attempts).toBe(2);
+  });
+
+  it('should let admins replay stuck events, but not ones in progress', async () => {
+    const event = await leaveProcessing(1000);
+    const id = (event._id as unknown as string).toString();
+
+    await expect(replayWebhookEvent(id)).rejects.toThrow(ConflictError);
+
+    await age(event, PROCESSING_LEASE_MS + 1000);
+
+    const replayed = await replayWebhookEvent(id);
+    expect(replayed.status).toBe('processed');
+  });
+});
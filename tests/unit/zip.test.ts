@@ -0,0 +1,86 @@
+/**
+ * Unit tests for the in-memory ZIP writer used by data exports
+ * Reads the archive back by walking its central directory
+ */
+
+import zlib from 'zlib';
+import { createZip, crc32 } from '../../src/core/utils/zip';
+
+/**
+ * Extract every file of an archive built by createZip
+ */
+const readZip = (archive: Buffer) => {
+  const endOffset = archive.length - 22;
+  expect(archive.readUInt32LE(endOffset)).toBe(0x06054b50);
+
+  const count = archive.readUInt16LE(endOffset + 10);
+  let offset = archive.readUInt32LE(endOffset + 16);
+  const files: Record<string, Buffer> = {};
+
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(offset)).toBe(0x02014b50);
+    const checksum = archive.readUInt32LE(offset + 16);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive
+      .subarray(offset + 46, offset + 46 + nameLength)
+      .toString('utf8');
+
+    expect(archive.readUInt32LE(localOffset)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+    const data = zlib.inflateRawSync(
+      archive.subarray(dataStart, dataStart + compressedSize)
+    );
+
+    expect(crc32(data)).toBe(checksum);
+    files[name] = data;
+    offset += 46 + nameLength;
+  }
+
+  return files;
+};
+
+describe('zip', () => {
+  describe('crc32', () => {
+    it('should match the reference checksum', () => {
+      expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    });
+
+    it('should be zero for an empty buffer', () => {
+      expect(crc32(Buffer.alloc(0))).toBe(0);
+    });
+  });
+
+  describe('createZip', () => {
+    it('should round-trip string and buffer entries', () => {
+      const archive = createZip([
+        { name: 'manifest.json', data: JSON.stringify({ version: 1 }) },
+        { name: 'binary.bin', data: Buffer.from([0, 1, 2, 255]) },
+      ]);
+
+      const files = readZip(archive);
+
+      expect(Object.keys(files)).toEqual(['manifest.json', 'binary.bin']);
+      expect(JSON.parse(files['manifest.json']!.toString())).toEqual({
+        version: 1,
+      });
+      expect([...files['binary.bin']!]).toEqual([0, 1, 2, 255]);
+    });
+
+    it('should keep UTF-8 file names and content', () => {
+      const archive = createZip([{ name: 'données.json', data: '"é"' }]);
+
+      const files = readZip(archive);
+
+      expect(files['données.json']!.toString('utf8')).toBe('"é"');
+    });
+
+    it('should build a valid empty archive', () => {
+      const archive = createZip([]);
+
+      expect(archive.length).toBe(22);
+      expect(readZip(archive)).toEqual({});
+    });
+  });
+});